@@ -1,56 +1,243 @@
-import { PreflightInputSchema } from "../src/schema.js";
-import { runPreflight } from "../src/skill.js";
-import { runInstall } from "../src/install.js";
-import { setExecMode } from "../src/tools/shell.js";
-
-function parseArgs(argv: string[]) {
-  const out: Record<string, any> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (!a.startsWith("--")) continue;
-    const key = a.slice(2);
-    const val = argv[i + 1] && !argv[i + 1].startsWith("--") ? argv[++i] : "true";
-    out[key] = val;
+import type { z } from "zod";
+import { ClusterInputSchema, PreflightInput, PreflightInputSchema, execModeFromArg } from "../src/schema.js";
+import { PreflightResult, runPreflight } from "../src/skill.js";
+import { runWizard } from "../src/wizard.js";
+import { InstallResult, runInstall } from "../src/install.js";
+import { runTeardown } from "../src/teardown.js";
+import { formatStatusTable, runStatus } from "../src/status.js";
+import { runDns } from "../src/dns.js";
+import { formatDriftLines, runDrift } from "../src/drift.js";
+import { formatUpgradeLines, runUpgrade } from "../src/upgrade.js";
+import { runServer } from "../src/mcp/server.js";
+import { installInterruptHandler, setExecMode } from "../src/tools/shell.js";
+import { DEFAULT_AUDIT_LOG, setAuditLog } from "../src/tools/audit.js";
+import { PreflightProvider, getProvider, PROVIDERS } from "../src/providers/index.js";
+import {
+  CONFIG_LAYERS,
+  describeConfig,
+  formatConfigTable,
+  lastFlagValues,
+  parseArgv,
+  resolveConfig,
+} from "../src/config.js";
+import { log, logLevelFromArgs, setLogLevel } from "../src/log.js";
+import {
+  ReportFormat,
+  formatInstallSummary,
+  formatJunit,
+  formatPreflightText,
+  formatSarif,
+  formatText,
+  reportFormatFromArg,
+  writeReport,
+} from "../src/report.js";
+
+const parsedArgv = parseArgv(process.argv.slice(2));
+// First positional argument selects the command; preflight (+ install) is the default
+const command = parsedArgv.positionals[0] ?? "preflight";
+const args = lastFlagValues(parsedArgv);
+setLogLevel(logLevelFromArgs(args));
+// Every command run is appended here; --audit-log "" turns it off
+const auditLog = args["audit-log"] ?? process.env.LAKEHOUSE_AUDIT_LOG ?? DEFAULT_AUDIT_LOG;
+setAuditLog(auditLog === "" ? null : auditLog);
+
+// junit and sarif describe preflight checks; the other commands render as json or text
+const format = reportFormatFromArg(args["format"]);
+const commandFormats: ReportFormat[] = command === "preflight" ? ["json", "text", "junit", "sarif"] : ["json", "text"];
+if (!format || !commandFormats.includes(format)) {
+  log.error(`❌ --format ${args["format"]} is not supported for ${command}. Expected one of: ${commandFormats.join(", ")}`);
+  process.exit(1);
+}
+
+/**
+ * Print the result as JSON, or through the renderer for the chosen format, to stdout or --output
+ */
+async function emit(payload: object, render: Partial<Record<ReportFormat, () => string>> = {}) {
+  const body = format === "json" ? JSON.stringify(payload, null, 2) : render[format!]!();
+  await writeReport(body, args["output"]);
+}
+
+// Tool server: inputs arrive as tool arguments, so no config layer applies
+if (command === "serve") {
+  await runServer();
+  process.exit(0);
+}
+
+// Ctrl-C kills running commands first, so install can record where it stopped
+installInterruptHandler();
+
+const provider = getProvider(args["provider"] ?? "aws");
+if (!provider) {
+  log.error(`Unknown --provider "${args["provider"]}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`);
+  process.exit(1);
+}
+// Other providers only have preflight (and config show)
+if (provider.id !== "aws" && ["teardown", "status", "drift", "upgrade", "dns"].includes(command)) {
+  log.error(`${command} is only available for --provider aws`);
+  process.exit(1);
+}
+
+/**
+ * The provider's input merged from every config layer; exits on unknown keys or an unreadable config file
+ */
+async function resolveProviderConfig(p: PreflightProvider) {
+  const resolved = await resolveConfig({
+    options: p.options,
+    argv: parsedArgv,
+    env: process.env,
+    defaultEnvFile: p.defaultEnvFile,
+  });
+  if (!resolved.ok) {
+    for (const e of resolved.errors) log.error(`❌ ${e}`);
+    process.exit(1);
   }
-  return out;
-}
-
-const args = parseArgs(process.argv.slice(2));
-
-// Map CLI args -> schema fields
-const raw = {
-  awsProfile: args["profile"],
-  awsRegion: args["region"],
-  clusterName: args["cluster"],
-  s3Bucket: args["bucket"],
-  rootDomain: args["root-domain"],
-  siteDomain: args["domain"], // optional - will be constructed from rootDomain if not provided
-  certArn: args["cert-arn"],
-  namespace: args["namespace"],
-  nodeType: args["node-type"],
-  nodeCount: args["node-count"],
-  outputEnvPath: args["output-env"],
-  writeEnvFile: args["write-env"] !== "false",
-  overwriteEnv: args["overwrite-env"] !== undefined && args["overwrite-env"] !== "false",
-  dnsCheck: args["dns-check"] !== "false",
-  approve: args["approve"] === "true",
-  execMode: args["exec"] === "docker" ? "docker" : "local",
-  readiness: {
-    hasBilling: args["has-billing"] !== "false",
-    hasAdmin: args["has-admin"] !== "false",
-    hasDns: args["has-dns"] !== "false",
-  },
-};
+  return resolved;
+}
 
-const input = PreflightInputSchema.parse(raw);
+/**
+ * Parse the merged input with a command's schema; exits listing every invalid field
+ */
+function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: Record<string, unknown>): T {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    for (const i of parsed.error.issues) log.error(`❌ ${i.path.join(".")}: ${i.message}`);
+    process.exit(1);
+  }
+  return parsed.data;
+}
+
+const config = await resolveProviderConfig(provider);
+const raw = config.raw;
 
-// Set execution mode globally for all tool wrappers
-setExecMode(input.execMode);
+if (command === "config") {
+  if (parsedArgv.positionals[1] !== "show") {
+    log.error(`Unknown config command "${parsedArgv.positionals[1] ?? ""}". Expected: config show`);
+    process.exit(1);
+  }
+  // AWS commands other than preflight take the input without rootDomain
+  const configInput = parseInput(provider.id === "aws" ? ClusterInputSchema : provider.schema, raw);
+  const values = describeConfig(configInput, config.sources, provider.options);
+  await emit(
+    {
+      config: {
+        layers: CONFIG_LAYERS,
+        configFile: config.configFile ?? null,
+        configEnv: config.configEnv ?? null,
+        envFile: config.envFile ?? null,
+        values,
+      },
+    },
+    { text: () => formatConfigTable(values) }
+  );
+  process.exit(0);
+}
+
+if (command === "teardown") {
+  const teardownInput = parseInput(ClusterInputSchema, raw);
+  setExecMode(teardownInput.execMode, teardownInput.cassette, teardownInput.dockerImage);
+
+  const teardownResult = await runTeardown(teardownInput);
+  await emit(
+    { teardown: teardownResult },
+    { text: () => formatText("Teardown", teardownResult.next.action.toUpperCase(), teardownResult) }
+  );
+
+  // 0 = done, 2 = dry run (needs --approve), 1 = failed
+  process.exit(teardownResult.next.action === "done" ? 0 : teardownResult.next.action === "teardown" ? 2 : 1);
+}
 
-const preflightResult = await runPreflight(input);
+if (command === "status") {
+  const statusInput = parseInput(ClusterInputSchema, raw);
+  setExecMode(statusInput.execMode, statusInput.cassette, statusInput.dockerImage);
+
+  const report = await runStatus(statusInput);
+  if (args["table"] === "true") log.info(formatStatusTable(report));
+  await emit({ status: report }, { text: () => formatStatusTable(report) });
+
+  // 0 = healthy, 2 = still progressing, 1 = degraded, missing or unchecked components
+  process.exit(report.health === "healthy" ? 0 : report.health === "progressing" ? 2 : 1);
+}
+
+if (command === "drift") {
+  const driftInput = parseInput(ClusterInputSchema, raw);
+  setExecMode(driftInput.execMode, driftInput.cassette, driftInput.dockerImage);
+
+  const driftResult = await runDrift(driftInput);
+  const driftOutcome = driftResult.drifted ? "DRIFTED" : driftResult.next.action === "done" ? "IN SYNC" : "STOPPED";
+  await emit(
+    { drift: driftResult },
+    { text: () => formatText("Drift", driftOutcome, driftResult, formatDriftLines(driftResult)) }
+  );
+
+  // 0 = no drift, 2 = drift found, 1 = nothing to compare against
+  process.exit(driftResult.next.action === "done" ? 0 : driftResult.next.action === "reconcile" ? 2 : 1);
+}
+
+if (command === "upgrade") {
+  const upgradeInput = parseInput(ClusterInputSchema, raw);
+  setExecMode(upgradeInput.execMode, upgradeInput.cassette, upgradeInput.dockerImage);
+
+  const upgradeResult = await runUpgrade(upgradeInput);
+  await emit(
+    { upgrade: upgradeResult },
+    {
+      text: () =>
+        formatText("Upgrade", upgradeResult.next.action.toUpperCase(), upgradeResult, formatUpgradeLines(upgradeResult)),
+    }
+  );
+
+  // 0 = done, 2 = plan shown (needs --approve), 1 = failed
+  process.exit(upgradeResult.next.action === "done" ? 0 : upgradeResult.next.action === "upgrade" ? 2 : 1);
+}
+
+if (command === "dns") {
+  const dnsInput = parseInput(ClusterInputSchema, raw);
+  setExecMode(dnsInput.execMode, dnsInput.cassette, dnsInput.dockerImage);
+
+  const dnsResult = await runDns(dnsInput);
+  await emit({ dns: dnsResult }, { text: () => formatText("DNS", dnsResult.next.action.toUpperCase(), dnsResult) });
+
+  // 0 = done, 2 = diff shown (needs --approve), 1 = failed
+  process.exit(dnsResult.next.action === "done" ? 0 : dnsResult.next.action === "apply" ? 2 : 1);
+}
+
+if (!provider.supportsInstall) {
+  const providerInput = parseInput(provider.schema, raw);
+  setExecMode(providerInput.execMode, providerInput.cassette);
+
+  const providerResult = await provider.runPreflight(providerInput);
+  await emit(
+    { preflight: providerResult },
+    {
+      text: () => formatPreflightText(providerResult),
+      junit: () => formatJunit(providerResult, `preflight.${provider.id}`),
+      sarif: () => formatSarif(providerResult, config.configFile ?? providerInput.outputEnvPath),
+    }
+  );
+  process.exit(providerResult.okToInstall ? 0 : 2);
+}
+
+let input: PreflightInput;
+let preflightResult: PreflightResult;
+if (args["interactive"] === "true") {
+  // The wizard does live lookups while prompting, so the exec mode is set before any input is parsed
+  setExecMode(
+    execModeFromArg(raw.execMode as string | undefined),
+    raw.cassette as string | undefined,
+    raw.dockerImage as string | undefined
+  );
+  ({ input, preflight: preflightResult } = await runWizard(raw));
+} else {
+  input = parseInput(PreflightInputSchema, raw);
+
+  // Set execution mode globally for all tool wrappers
+  setExecMode(input.execMode, input.cassette, input.dockerImage);
+
+  preflightResult = await runPreflight(input);
+}
 
 // Prepare output structure
-const output: { preflight: typeof preflightResult; install?: any } = {
+const output: { preflight: typeof preflightResult; install?: InstallResult } = {
   preflight: preflightResult,
 };
 
@@ -60,13 +247,18 @@ if (preflightResult.okToInstall) {
     {
       approve: input.approve ?? false,
       env: preflightResult.env,
+      envPath: input.outputEnvPath,
     },
     preflightResult
   );
   output.install = installResult;
 }
 
-console.log(JSON.stringify(output, null, 2));
+await emit(output, {
+  text: () => formatPreflightText(preflightResult, output.install ? formatInstallSummary(output.install) : []),
+  junit: () => formatJunit(preflightResult, "preflight.aws"),
+  sarif: () => formatSarif(preflightResult, config.configFile ?? input.outputEnvPath),
+});
 
 // Exit code logic
 if (output.install) {
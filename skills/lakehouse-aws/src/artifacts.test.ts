@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { shellQuote, shellUnquote } from "./artifacts.js";
+
+const VALUES = ["plain", "", "it's", "a b", "$HOME `id` $(id)", 'say "hi"', "back\\slash", "two\nlines", "'''"];
+
+test("bash reads a shellQuote'd value back unchanged", () => {
+  for (const value of VALUES) {
+    assert.equal(execFileSync("bash", ["-c", `printf %s ${shellQuote(value)}`], { encoding: "utf8" }), value);
+  }
+});
+
+test("shellUnquote inverts shellQuote and accepts double-quoted and bare values", () => {
+  for (const value of VALUES) assert.equal(shellUnquote(shellQuote(value)), value);
+  assert.equal(shellUnquote('"a \\"b\\" \\$c"'), 'a "b" $c');
+  assert.equal(shellUnquote("  us-east-1 "), "us-east-1");
+});
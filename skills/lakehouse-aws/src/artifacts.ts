@@ -0,0 +1,230 @@
+import { createHash } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { RELEASES } from "./install/releases.js";
+import { renderValuesYaml } from "./install/values.js";
+
+/**
+ * bash: the sourced env file at outputEnvPath. dotenv: KEY=value for docker/dotenv loaders.
+ * helm: a values overlay per release whose values come from the env.
+ */
+export const ARTIFACT_FORMATS = ["bash", "dotenv", "helm"] as const;
+export type ArtifactFormat = (typeof ARTIFACT_FORMATS)[number];
+
+// Releases whose values are derived from the env and worth handing over as an overlay
+const HELM_OVERLAY_RELEASES = ["ingext-community-config", "ingext-lake-config", "ingext-s3-lake"];
+
+export type ArtifactFile = { format: ArtifactFormat | "manifest"; path: string; content: string };
+
+export type ArtifactManifest = {
+  version: 1;
+  generator: string;
+  generatedAt: string;
+  env: Record<string, string>;
+  /** sha256 of the env map, keys sorted */
+  envChecksum: string;
+  /** sha256 of every file as generated, to tell a hand edit from our own output */
+  files: { format: ArtifactFormat; path: string; sha256: string }[];
+};
+
+export type ArtifactResult = {
+  ok: boolean;
+  written: string[];
+  unchanged: string[];
+  blockers: { code: string; message: string }[];
+  remediation: { message: string }[];
+};
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest("hex");
+
+/**
+ * Single-quote a value for POSIX shells; nothing inside single quotes is expanded
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Inverse of shellQuote for one assignment value, also accepting plain double-quoted values
+ */
+export function shellUnquote(value: string): string {
+  const v = value.trim();
+  if (/^'.*'$/s.test(v)) return v.slice(1, -1).replace(/'\\''/g, "'");
+  if (/^".*"$/s.test(v)) return v.slice(1, -1).replace(/\\(["\\$`])/g, "$1");
+  return v;
+}
+
+// Single quotes are literal for dotenv and docker compose alike; fall back to escaped double quotes
+function dotenvQuote(value: string): string {
+  if (!value.includes("'") && !value.includes("\n")) return `'${value}'`;
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\$/g, "\\$")}"`;
+}
+
+/**
+ * Read a bash or dotenv env file back into a map; comments and other lines are ignored.
+ * Null when the file does not exist.
+ */
+export async function readEnvFile(path: string): Promise<Record<string, string> | null> {
+  const text = await readIfExists(path);
+  if (text === null) return null;
+  const env: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const m = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=(.*)$/.exec(line);
+    if (m) env[m[1]] = shellUnquote(m[2]);
+  }
+  return env;
+}
+
+const validKey = (key: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(key);
+
+export function renderBash(env: Record<string, string>, header: string[] = []): string {
+  const lines = header.map((h) => `# ${h}`);
+  for (const [key, value] of Object.entries(env)) {
+    lines.push(value === "" ? `# ${key} not set` : `export ${key}=${shellQuote(value)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderDotenv(env: Record<string, string>, header: string[] = []): string {
+  const lines = header.map((h) => `# ${h}`);
+  for (const [key, value] of Object.entries(env)) {
+    lines.push(value === "" ? `# ${key} not set` : `${key}=${dotenvQuote(value)}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Values overlays for the releases whose settings come from the env
+ */
+export function renderHelmValues(env: Record<string, string>): { release: string; content: string }[] {
+  return RELEASES.filter((spec) => HELM_OVERLAY_RELEASES.includes(spec.release) && spec.values).map((spec) => ({
+    release: spec.release,
+    content: renderValuesYaml(spec.release, spec.values!(env)),
+  }));
+}
+
+/**
+ * Where each artifact lives, next to the env file: ./lakehouse-aws.env -> ./lakehouse-aws.dotenv,
+ * ./lakehouse-aws.<release>.values.yaml and ./lakehouse-aws.manifest.json
+ */
+export function artifactPathFor(envPath: string, suffix: string): string {
+  const name = basename(envPath).replace(/\.env$/, "");
+  return join(dirname(envPath), `${name}${suffix}`);
+}
+
+function renderArtifacts(env: Record<string, string>, envPath: string, formats: ArtifactFormat[], header: string[]) {
+  const files: ArtifactFile[] = [];
+  if (formats.includes("bash")) files.push({ format: "bash", path: envPath, content: renderBash(env, header) });
+  if (formats.includes("dotenv")) {
+    files.push({ format: "dotenv", path: artifactPathFor(envPath, ".dotenv"), content: renderDotenv(env, header) });
+  }
+  if (formats.includes("helm")) {
+    for (const { release, content } of renderHelmValues(env)) {
+      files.push({ format: "helm", path: artifactPathFor(envPath, `.${release}.values.yaml`), content });
+    }
+  }
+  return files;
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function loadManifest(path: string): Promise<ArtifactManifest | null> {
+  try {
+    const text = await readIfExists(path);
+    return text ? (JSON.parse(text) as ArtifactManifest) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write every requested format from one env map, plus a manifest of what was written.
+ * Existing files are only replaced with overwrite, and never when their content no longer
+ * matches the checksum the manifest recorded (edited by hand). Nothing is written unless
+ * every file can be.
+ */
+export async function writeArtifacts(opts: {
+  env: Record<string, string>;
+  envPath: string;
+  formats: ArtifactFormat[];
+  overwrite: boolean;
+  generator: string;
+  header?: string[];
+}): Promise<ArtifactResult> {
+  const result: ArtifactResult = { ok: true, written: [], unchanged: [], blockers: [], remediation: [] };
+  const badKeys = Object.keys(opts.env).filter((k) => !validKey(k));
+  if (badKeys.length > 0) {
+    result.blockers.push({ code: "ENV_WRITE_BLOCKED", message: `Invalid env variable name(s): ${badKeys.join(", ")}` });
+    return { ...result, ok: false };
+  }
+
+  const manifestPath = artifactPathFor(opts.envPath, ".manifest.json");
+  const manifest = await loadManifest(manifestPath);
+  const files = renderArtifacts(opts.env, opts.envPath, opts.formats, [`Generated by ${opts.generator}`, ...(opts.header ?? [])]);
+
+  const pending: ArtifactFile[] = [];
+  for (const file of files) {
+    let current: string | null;
+    try {
+      current = await readIfExists(file.path);
+    } catch (err) {
+      result.blockers.push({ code: "ENV_WRITE_BLOCKED", message: `Failed to read ${file.path}: ${String(err)}` });
+      continue;
+    }
+    if (current === file.content) {
+      result.unchanged.push(file.path);
+      continue;
+    }
+    if (current !== null && !opts.overwrite) {
+      result.blockers.push({ code: "ENV_WRITE_BLOCKED", message: `${file.path} already exists with different content.` });
+      result.remediation.push({ message: "Re-run with --overwrite-env to replace it, or choose another path with --output-env <path>" });
+      continue;
+    }
+    if (current !== null) {
+      const recorded = manifest?.files.find((f) => f.path === file.path);
+      if (!recorded) {
+        result.remediation.push({ message: `⚠️  ${file.path} is not in ${manifestPath}; overwriting it without a hand-edit check.` });
+      } else if (recorded.sha256 !== sha256(current)) {
+        result.blockers.push({ code: "ENV_EDITED_BY_HAND", message: `${file.path} was edited since it was generated.` });
+        result.remediation.push({ message: `Keep your edits elsewhere and move it aside (mv ${file.path} ${file.path}.bak), then re-run.` });
+        continue;
+      }
+    }
+    pending.push(file);
+  }
+  if (result.blockers.length > 0) return { ...result, ok: false };
+
+  const sortedEnv = Object.fromEntries(Object.entries(opts.env).sort(([a], [b]) => a.localeCompare(b)));
+  const next: ArtifactManifest = {
+    version: 1,
+    generator: opts.generator,
+    generatedAt: new Date().toISOString(),
+    env: opts.env,
+    envChecksum: sha256(JSON.stringify(sortedEnv)),
+    files: files.map((f) => ({ format: f.format as ArtifactFormat, path: f.path, sha256: sha256(f.content) })),
+  };
+  // An unchanged set of files keeps its manifest, so re-runs are byte-for-byte idempotent
+  if (pending.length > 0 || !manifest || manifest.envChecksum !== next.envChecksum) {
+    pending.push({ format: "manifest", path: manifestPath, content: JSON.stringify(next, null, 2) + "\n" });
+  }
+
+  try {
+    for (const file of pending) {
+      const tmp = `${file.path}.tmp`;
+      await writeFile(tmp, file.content, "utf8");
+      await rename(tmp, file.path);
+      result.written.push(file.path);
+    }
+  } catch (err) {
+    result.blockers.push({ code: "ENV_WRITE_BLOCKED", message: `Failed to write artifacts: ${String(err)}` });
+    return { ...result, ok: false };
+  }
+  return result;
+}
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { OptionSpec, parseArgv, resolveConfig } from "./config.js";
+
+const OPTIONS: OptionSpec[] = [
+  { flag: "region", field: "awsRegion", envKey: "AWS_REGION", kind: "string" },
+  { flag: "cluster", field: "clusterName", envKey: "CLUSTER_NAME", kind: "string" },
+  { flag: "node-count", field: "nodeCount", envKey: "NODE_COUNT", kind: "string", parse: Number },
+  { flag: "has-billing", field: "readiness.hasBilling", envKey: "HAS_BILLING", kind: "boolean" },
+  { flag: "skip", field: "skip", envKey: "SKIP_CHECKS", kind: "list" },
+  { flag: "output-env", field: "outputEnvPath", envKey: "OUTPUT_ENV", kind: "string" },
+  { flag: "approve", field: "approve", envKey: "APPROVE", kind: "boolean", cliOnly: true },
+];
+
+function dir(files: Record<string, string>) {
+  const root = mkdtempSync(join(tmpdir(), "config-"));
+  for (const [name, text] of Object.entries(files)) writeFileSync(join(root, name), text);
+  return root;
+}
+
+test("parseArgv accepts --flag value, --flag=value and bare flags, keeping repeats", () => {
+  assert.deepEqual(parseArgv(["install", "--region", "us-east-1", "--skip=quota", "--approve", "--skip", "dns"]), {
+    positionals: ["install"],
+    flags: { region: ["us-east-1"], skip: ["quota", "dns"], approve: ["true"] },
+  });
+});
+
+test("parseArgv keeps an empty value rather than reading the flag as bare", () => {
+  assert.deepEqual(parseArgv(["--audit-log", "", "--quiet"]).flags, { "audit-log": [""], quiet: ["true"] });
+  assert.deepEqual(parseArgv(["--audit-log="]).flags, { "audit-log": [""] });
+});
+
+test("each layer overrides the one below it and records where the value came from", async () => {
+  const root = dir({
+    "lakehouse.yaml": [
+      "awsRegion: us-west-2",
+      "clusterName: from-config",
+      "nodeCount: 3",
+      "readiness:",
+      "  hasBilling: true",
+      "envs:",
+      "  prod:",
+      "    clusterName: prod",
+    ].join("\n"),
+    "lakehouse.env": "export CLUSTER_NAME='from-env-file'\nNODE_COUNT=4\nUNRELATED=1\n",
+  });
+  const res = await resolveConfig({
+    options: OPTIONS,
+    argv: parseArgv(["--config", join(root, "lakehouse.yaml"), "--env", "prod", "--node-count", "6"]),
+    env: { AWS_REGION: "eu-west-1", LAKEHOUSE_SKIP_CHECKS: "quota, dns" },
+    defaultEnvFile: join(root, "lakehouse.env"),
+  });
+  assert.ok(res.ok);
+  assert.deepEqual(res.raw, {
+    awsRegion: "eu-west-1",
+    clusterName: "from-env-file",
+    nodeCount: 6,
+    readiness: { hasBilling: true },
+    skip: ["quota", "dns"],
+  });
+  assert.deepEqual(res.sources, {
+    awsRegion: { layer: "env", from: "AWS_REGION" },
+    clusterName: { layer: "env-file", from: join(root, "lakehouse.env") },
+    nodeCount: { layer: "cli", from: "--node-count" },
+    "readiness.hasBilling": { layer: "config", from: join(root, "lakehouse.yaml") },
+    skip: { layer: "env", from: "LAKEHOUSE_SKIP_CHECKS" },
+  });
+  assert.equal(res.configEnv, "prod");
+});
+
+test("--read-env false leaves the env file out", async () => {
+  const root = dir({ "lakehouse.env": "CLUSTER_NAME=stale\n" });
+  const res = await resolveConfig({
+    options: OPTIONS,
+    argv: parseArgv(["--read-env", "false"]),
+    env: {},
+    defaultEnvFile: join(root, "lakehouse.env"),
+  });
+  assert.ok(res.ok);
+  assert.deepEqual(res.raw, {});
+  assert.equal(res.envFile, undefined);
+});
+
+test("unknown keys, variables and flags are errors with suggestions", async () => {
+  const root = dir({ "lakehouse.yaml": "clustrName: lake\napprove: true\n" });
+  const res = await resolveConfig({
+    options: OPTIONS,
+    argv: parseArgv(["--config", join(root, "lakehouse.yaml"), "--regoin", "us-east-1"]),
+    env: { LAKEHOUSE_CLUSTER_NAM: "lake" },
+    defaultEnvFile: join(root, "missing.env"),
+  });
+  assert.ok(!res.ok);
+  assert.match(res.errors.join("\n"), /Unknown key "clustrName".*Did you mean "clusterName"/);
+  assert.match(res.errors.join("\n"), /Unknown key "approve"/);
+  assert.match(res.errors.join("\n"), /Unknown environment variable LAKEHOUSE_CLUSTER_NAM\. Did you mean LAKEHOUSE_CLUSTER_NAME/);
+  assert.match(res.errors.join("\n"), /Unknown flag --regoin\. Did you mean --region/);
+});
+
+test("--env without a config file, or naming an env the file lacks, is an error", async () => {
+  const root = dir({ "lakehouse.yaml": "envs:\n  prod:\n    clusterName: prod\n" });
+  const base = { options: OPTIONS, env: {}, defaultEnvFile: join(root, "missing.env") };
+
+  const noFile = await resolveConfig({ ...base, argv: parseArgv(["--env", "prod"]) });
+  assert.ok(!noFile.ok);
+  assert.match(noFile.errors[0], /needs a config file/);
+
+  const noEnv = await resolveConfig({ ...base, argv: parseArgv(["--config", join(root, "lakehouse.yaml"), "--env", "prd"]) });
+  assert.ok(!noEnv.ok);
+  assert.match(noEnv.errors[0], /Unknown environment "prd"\. Did you mean "prod"\?.*defines: prod/);
+});
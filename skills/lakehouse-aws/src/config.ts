@@ -0,0 +1,367 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { shellUnquote } from "./artifacts.js";
+
+/** Configuration layers, lowest priority first */
+export const CONFIG_LAYERS = ["default", "config", "env-file", "env", "cli"] as const;
+export type ConfigLayer = (typeof CONFIG_LAYERS)[number];
+
+export type OptionSpec = {
+  /** CLI flag without the leading dashes */
+  flag: string;
+  /** Input field; nested fields are dotted (readiness.hasBilling) */
+  field: string;
+  /** Key in the generated env file, and LAKEHOUSE_<key> in the environment */
+  envKey: string;
+  kind: "string" | "boolean" | "list";
+  /** Map a string value onto what the schema expects; replaces the boolean "false" check */
+  parse?: (value: string) => unknown;
+  /** Only accepted as a flag, never from a file or the environment (e.g. --approve) */
+  cliOnly?: boolean;
+};
+
+export type ParsedArgv = { positionals: string[]; flags: Record<string, string[]> };
+
+export type ConfigSource = { layer: ConfigLayer; from: string };
+
+export type ResolvedConfig =
+  | {
+      ok: true;
+      raw: Record<string, unknown>;
+      sources: Record<string, ConfigSource>;
+      configFile?: string;
+      configEnv?: string;
+      envFile?: string;
+    }
+  | { ok: false; errors: string[] };
+
+// Flags every command understands that are not input fields
+export const GLOBAL_FLAGS = [
+  "provider",
+  "interactive",
+  "table",
+  "config",
+  "env",
+  "read-env",
+  "format",
+  "output",
+  "quiet",
+  "verbose",
+  "audit-log",
+];
+
+// Credentials the AWS CLI itself reads; honored without the LAKEHOUSE_ prefix
+const AMBIENT_ENV_KEYS = ["AWS_PROFILE", "AWS_REGION"];
+
+const ENV_PREFIX = "LAKEHOUSE_";
+
+/**
+ * Split argv into positionals and flags. Accepts --flag value (including an empty value, as
+ * in --audit-log ""), --flag=value and a bare --flag (meaning "true"); a repeated flag keeps
+ * every value in order.
+ */
+export function parseArgv(argv: string[]): ParsedArgv {
+  const positionals: string[] = [];
+  const flags: Record<string, string[]> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) {
+      positionals.push(a);
+      continue;
+    }
+    const eq = a.indexOf("=");
+    const key = eq === -1 ? a.slice(2) : a.slice(2, eq);
+    const next = argv[i + 1];
+    const val = eq !== -1 ? a.slice(eq + 1) : next !== undefined && !next.startsWith("--") ? argv[++i] : "true";
+    (flags[key] ??= []).push(val);
+  }
+  return { positionals, flags };
+}
+
+/**
+ * One value per flag, the last one given; for providers that map flags themselves
+ */
+export function lastFlagValues(parsed: ParsedArgv): Record<string, string> {
+  return Object.fromEntries(Object.entries(parsed.flags).map(([k, v]) => [k, v[v.length - 1]]));
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cur = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = cur;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Known names close to an unknown one, closest first
+ */
+export function suggest(name: string, known: string[]): string[] {
+  const lower = name.toLowerCase();
+  return known
+    .map((k) => ({ k, d: editDistance(lower, k.toLowerCase()) }))
+    .filter(({ k, d }) => d <= Math.max(2, Math.floor(k.length / 4)) || k.toLowerCase().startsWith(lower))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, 3)
+    .map(({ k }) => k);
+}
+
+function unknownKey(kind: string, name: string, known: string[], render = (k: string) => k): string {
+  const hints = suggest(name, known);
+  return `Unknown ${kind} ${render(name)}.${hints.length ? ` Did you mean ${hints.map(render).join(" or ")}?` : ""}`;
+}
+
+type Mapping = Record<string, unknown>;
+
+const isMapping = (v: unknown): v is Mapping => !!v && typeof v === "object" && !Array.isArray(v);
+
+export function getPath(obj: object, path: string): unknown {
+  return path.split(".").reduce<unknown>((o, k) => (o !== null && typeof o === "object" ? (o as Mapping)[k] : undefined), obj);
+}
+
+function setPath(obj: Mapping, path: string, value: unknown) {
+  const keys = path.split(".");
+  let o = obj;
+  for (const k of keys.slice(0, -1)) o = (o[k] ??= {}) as Mapping;
+  o[keys[keys.length - 1]] = value;
+}
+
+// Strings from flags, env files and the environment take the option's kind; file values keep theirs
+function coerce(spec: OptionSpec, values: unknown[]): unknown {
+  if (spec.kind === "list") {
+    return values.flatMap((v) => (Array.isArray(v) ? v.map(String) : String(v).split(",").map((s) => s.trim()).filter(Boolean)));
+  }
+  const v = values[values.length - 1];
+  if (typeof v !== "string") return v;
+  if (spec.parse) return spec.parse(v);
+  return spec.kind === "boolean" ? v !== "false" : v;
+}
+
+/**
+ * Boolean for env files that record readiness as yes/no (the Azure and GKE preflight scripts)
+ */
+export function yesNo(value: string): boolean {
+  return value !== "false" && value !== "no";
+}
+
+/**
+ * Raw schema input from single-valued flags alone; absent flags are left to the schema defaults
+ */
+export function inputFromFlags(options: OptionSpec[], args: Record<string, string>): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+  for (const spec of options) {
+    if (args[spec.flag] !== undefined) setPath(raw, spec.field, coerce(spec, [args[spec.flag]]));
+  }
+  return raw;
+}
+
+type LayerValues = Array<{ spec: OptionSpec; value: unknown; from: string }>;
+
+/**
+ * Flatten a config file object (or one of its envs) into option values
+ */
+function fileValues(obj: Mapping, options: OptionSpec[], where: string, errors: string[]): LayerValues {
+  const out: LayerValues = [];
+  const fields = options.filter((o) => !o.cliOnly).map((o) => o.field);
+  const visit = (node: Mapping, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const spec = options.find((o) => o.field === path && !o.cliOnly);
+      if (spec) {
+        out.push({ spec, value, from: where });
+      } else if (isMapping(value) && fields.some((f) => f.startsWith(`${path}.`))) {
+        visit(value, path);
+      } else {
+        errors.push(unknownKey("key", path, fields, (k) => `"${k}" in ${where}`));
+      }
+    }
+  };
+  visit(obj, "");
+  return out;
+}
+
+async function configFileValues(
+  path: string,
+  envName: string | undefined,
+  options: OptionSpec[],
+  errors: string[]
+): Promise<LayerValues> {
+  let doc: unknown;
+  try {
+    const text = await readFile(path, "utf8");
+    doc = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    errors.push(`Failed to read config file ${path}: ${String(err)}`);
+    return [];
+  }
+  if (!isMapping(doc)) {
+    errors.push(`Config file ${path} must contain a mapping of settings.`);
+    return [];
+  }
+
+  // Top-level settings apply to every environment; envs.<name> overrides them
+  const { envs, ...base } = doc;
+  const values = fileValues(base, options, path, errors);
+  if (envName) {
+    const names = isMapping(envs) ? Object.keys(envs) : [];
+    const selected = isMapping(envs) ? envs[envName] : undefined;
+    if (!isMapping(selected)) {
+      errors.push(unknownKey("environment", envName, names, (k) => `"${k}"`) + ` ${path} defines: ${names.join(", ") || "none"}.`);
+    } else {
+      values.push(...fileValues(selected, options, `${path}#envs.${envName}`, errors));
+    }
+  }
+  return values;
+}
+
+/**
+ * Read KEY=value and export KEY='value' lines; comments and unrelated keys are ignored
+ */
+async function envFileValues(path: string, options: OptionSpec[]): Promise<LayerValues | null> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch {
+    return null;
+  }
+  const out: LayerValues = [];
+  for (const line of text.split("\n")) {
+    const m = /^\s*(?:export\s+)?([A-Z0-9_]+)=(.*)$/.exec(line);
+    if (!m) continue;
+    const spec = options.find((o) => o.envKey === m[1] && !o.cliOnly);
+    if (!spec) continue;
+    const value = shellUnquote(m[2]);
+    out.push({ spec, value, from: path });
+  }
+  return out;
+}
+
+function environmentValues(env: NodeJS.ProcessEnv, options: OptionSpec[], errors: string[]): LayerValues {
+  const out: LayerValues = [];
+  const known = options.filter((o) => !o.cliOnly).map((o) => `${ENV_PREFIX}${o.envKey}`);
+  const globals = [`${ENV_PREFIX}CONFIG`, `${ENV_PREFIX}ENV`, `${ENV_PREFIX}AUDIT_LOG`];
+  for (const key of AMBIENT_ENV_KEYS) {
+    const spec = options.find((o) => o.envKey === key);
+    if (spec && env[key] !== undefined) out.push({ spec, value: env[key], from: key });
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (!key.startsWith(ENV_PREFIX) || globals.includes(key) || value === undefined) continue;
+    const spec = options.find((o) => `${ENV_PREFIX}${o.envKey}` === key && !o.cliOnly);
+    if (spec) {
+      out.push({ spec, value, from: key });
+    } else {
+      errors.push(unknownKey("environment variable", key, known));
+    }
+  }
+  return out;
+}
+
+function cliValues(parsed: ParsedArgv, options: OptionSpec[], errors: string[]): LayerValues {
+  const out: LayerValues = [];
+  const known = [...options.map((o) => o.flag), ...GLOBAL_FLAGS];
+  for (const [flag, values] of Object.entries(parsed.flags)) {
+    if (GLOBAL_FLAGS.includes(flag)) continue;
+    const spec = options.find((o) => o.flag === flag);
+    if (!spec) {
+      errors.push(unknownKey("flag", flag, known, (k) => `--${k}`));
+      continue;
+    }
+    for (const value of values) out.push({ spec, value, from: `--${flag}` });
+  }
+  return out;
+}
+
+/**
+ * Merge input from every layer: schema defaults (applied later by the schema), the
+ * --config file and its selected env, the existing env file, LAKEHOUSE_* variables,
+ * then flags. Each field records the layer that supplied it.
+ */
+export async function resolveConfig(opts: {
+  options: OptionSpec[];
+  argv: ParsedArgv;
+  env: NodeJS.ProcessEnv;
+  defaultEnvFile: string;
+}): Promise<ResolvedConfig> {
+  const { options, argv, env } = opts;
+  const errors: string[] = [];
+  const flag = (name: string) => argv.flags[name]?.[argv.flags[name].length - 1];
+
+  const configFile = flag("config") ?? env[`${ENV_PREFIX}CONFIG`];
+  const configEnv = flag("env") ?? env[`${ENV_PREFIX}ENV`];
+  if (configEnv && !configFile) errors.push(`--env ${configEnv} needs a config file: pass --config <file>.`);
+
+  const configLayer = configFile ? await configFileValues(configFile, configEnv, options, errors) : [];
+  const envLayer = environmentValues(env, options, errors);
+  const cliLayer = cliValues(argv, options, errors);
+
+  // The env file to read back is itself configurable, so find it from the other layers first
+  const outputSpec = options.find((o) => o.field === "outputEnvPath");
+  const lastPath = [...configLayer, ...envLayer, ...cliLayer].filter((v) => v.spec === outputSpec).pop();
+  const envFile = lastPath ? String(lastPath.value) : opts.defaultEnvFile;
+  const envFileLayer = flag("read-env") === "false" ? null : await envFileValues(envFile, options);
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const raw: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  const layers: Array<[ConfigLayer, LayerValues]> = [
+    ["config", configLayer],
+    ["env-file", envFileLayer ?? []],
+    ["env", envLayer],
+    ["cli", cliLayer],
+  ];
+  for (const [layer, values] of layers) {
+    for (const spec of options) {
+      const given = values.filter((v) => v.spec === spec);
+      if (given.length === 0) continue;
+      setPath(raw, spec.field, coerce(spec, given.map((v) => v.value)));
+      sources[spec.field] = { layer, from: given[given.length - 1].from };
+    }
+  }
+
+  return {
+    ok: true,
+    raw,
+    sources,
+    ...(configFile ? { configFile } : {}),
+    ...(configEnv ? { configEnv } : {}),
+    ...(envFileLayer ? { envFile } : {}),
+  };
+}
+
+export type ConfigEntry = { field: string; flag: string; value: unknown; source: ConfigSource };
+
+/**
+ * The effective value of every option and the layer it came from
+ */
+export function describeConfig(
+  input: object,
+  sources: Record<string, ConfigSource>,
+  options: OptionSpec[]
+): ConfigEntry[] {
+  return options.map((o) => ({
+    field: o.field,
+    flag: `--${o.flag}`,
+    value: getPath(input, o.field),
+    source: sources[o.field] ?? { layer: "default", from: "schema" },
+  }));
+}
+
+export function formatConfigTable(entries: ConfigEntry[]): string {
+  const row = (field: string, value: string, source: string) => `${field.padEnd(28)} ${value.padEnd(36)} ${source}`;
+  const show = (v: unknown) => (v === undefined ? "-" : Array.isArray(v) ? v.join(",") : String(v));
+  return [
+    row("FIELD", "VALUE", "SOURCE"),
+    "-".repeat(96),
+    ...entries.map((e) =>
+      row(e.field, show(e.value), e.source.layer === "default" ? "default" : `${e.source.layer} (${e.source.from})`)
+    ),
+  ].join("\n");
+}
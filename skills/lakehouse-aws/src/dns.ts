@@ -0,0 +1,144 @@
+import { ClusterInput } from "./schema.js";
+import { validateAwsAuth } from "./steps/auth.js";
+import { digA } from "./tools/dns.js";
+import { describeLoadBalancer } from "./tools/elb.js";
+import { AliasTarget, findHostedZoneForDomain, getARecord, upsertAliasRecord } from "./tools/route53.js";
+import { albName } from "./install/names.js";
+import { log } from "./log.js";
+
+export type DnsResult = {
+  ok: boolean;
+  blockers: { code: string; message: string }[];
+  remediation: { message: string }[];
+  evidence: {
+    siteDomain?: string;
+    zoneId?: string;
+    zoneName?: string;
+    loadBalancer?: { name: string; dnsName: string; canonicalHostedZoneId: string; state: string };
+    current?: { alias: AliasTarget | null; values: string[] } | null;
+    desired?: AliasTarget;
+    diff: string[];
+    changed: boolean;
+    changeId?: string;
+    resolvedIp?: string | null;
+  };
+  next: { action: "apply" | "done" | "stop"; reason: string };
+};
+
+// Alias DNS names come back lowercased with a trailing dot and sometimes a dualstack. prefix
+const normalizeTarget = (name: string) => name.toLowerCase().replace(/\.$/, "").replace(/^dualstack\./, "");
+
+function describeRecord(record: { alias: AliasTarget | null; values: string[] }) {
+  return record.alias ? `ALIAS ${normalizeTarget(record.alias.dnsName)} (${record.alias.hostedZoneId})` : record.values.join(", ");
+}
+
+/**
+ * Point the site domain at the ALB created by the ingext-ingress release.
+ * Without approve it only shows the diff between the current and desired record.
+ */
+export async function runDns(input: ClusterInput): Promise<DnsResult> {
+  const blockers: DnsResult["blockers"] = [];
+  const remediation: DnsResult["remediation"] = [];
+  const evidence: DnsResult["evidence"] = { diff: [], changed: false };
+  const stop = (reason: string): DnsResult => ({ ok: false, blockers, remediation, evidence, next: { action: "stop", reason } });
+
+  const siteDomain = input.siteDomain ?? (input.rootDomain ? `lakehouse.k8.${input.rootDomain}` : undefined);
+  if (!siteDomain) {
+    blockers.push({ code: "MISSING_SITE_DOMAIN", message: "A site domain is required to manage its DNS record." });
+    remediation.push({ message: "Provide it with --domain <site-domain> or --root-domain <root-domain>" });
+    return stop("Site domain required.");
+  }
+  evidence.siteDomain = siteDomain;
+
+  const authResult = await validateAwsAuth(input.awsProfile, input.awsRegion);
+  if (!authResult.ok) {
+    blockers.push(...authResult.blockers);
+    remediation.push(...authResult.remediation);
+    return stop("AWS authentication required. Run 'aws sso login' or configure credentials first.");
+  }
+
+  const lbName = albName(input.clusterName);
+  const lb = await describeLoadBalancer(lbName, input.awsRegion);
+  if (!lb.ok || !lb.loadBalancer) {
+    blockers.push({
+      code: lb.ok ? "ALB_NOT_FOUND" : "ALB_CHECK_FAILED",
+      message: lb.ok ? `Load balancer ${lbName} does not exist yet.` : `describe-load-balancers failed: ${lb.error}`,
+    });
+    remediation.push({ message: "The ALB is created by the ingext-ingress release; check `status` and wait for it to be provisioned." });
+    return stop("No load balancer to point DNS at.");
+  }
+  const { dnsName, canonicalHostedZoneId, state } = lb.loadBalancer;
+  evidence.loadBalancer = { name: lbName, dnsName, canonicalHostedZoneId, state };
+
+  const zone = await findHostedZoneForDomain(siteDomain);
+  if (!zone.ok || !zone.zoneId || zone.isPrivate) {
+    blockers.push({
+      code: !zone.ok ? "ROUTE53_CHECK_FAILED" : "NO_PUBLIC_HOSTED_ZONE",
+      message: !zone.ok ? `Failed to query Route53: ${zone.error}` : `No public Route53 hosted zone covers ${siteDomain}.`,
+    });
+    remediation.push({ message: `Create a CNAME or alias for ${siteDomain} pointing to ${dnsName} with your DNS provider.` });
+    return stop("No public hosted zone to write the record to.");
+  }
+  evidence.zoneId = zone.zoneId;
+  evidence.zoneName = zone.zoneName!;
+
+  const current = await getARecord(zone.zoneId, siteDomain);
+  if (!current.ok) {
+    blockers.push({ code: "ROUTE53_CHECK_FAILED", message: `Failed to read records: ${current.error}` });
+    return stop("Resolve blockers.");
+  }
+  evidence.current = current.record ?? null;
+  const desired: AliasTarget = { hostedZoneId: canonicalHostedZoneId, dnsName };
+  evidence.desired = desired;
+
+  const upToDate =
+    !!current.record?.alias &&
+    current.record.alias.hostedZoneId === desired.hostedZoneId &&
+    normalizeTarget(current.record.alias.dnsName) === normalizeTarget(desired.dnsName);
+
+  log.info(`\n${siteDomain} A (zone ${zone.zoneName})`);
+  if (upToDate) {
+    log.info(`  = ${describeRecord({ alias: desired, values: [] })}`);
+  } else {
+    if (current.record) evidence.diff.push(`- ${describeRecord(current.record)}`);
+    evidence.diff.push(`+ ${describeRecord({ alias: desired, values: [] })}`);
+    evidence.diff.forEach((line) => log.info(`  ${line}`));
+  }
+
+  if (!upToDate) {
+    if (!input.approve) {
+      return {
+        ok: true,
+        blockers,
+        remediation,
+        evidence,
+        next: { action: "apply", reason: "Dry run. Review the diff and re-run with --approve to apply it." },
+      };
+    }
+    log.info(`\n⏳ Upserting alias record and waiting for INSYNC...`);
+    const up = await upsertAliasRecord(zone.zoneId, siteDomain, desired);
+    evidence.changeId = up.changeId;
+    if (!up.ok) {
+      blockers.push({ code: "ROUTE53_CHANGE_FAILED", message: `Failed to update ${siteDomain}: ${up.error}` });
+      return stop("Resolve blockers.");
+    }
+    evidence.changed = true;
+  }
+
+  // Public resolvers may still serve a cached answer, so a miss is reported rather than failed
+  const d = await digA(siteDomain);
+  evidence.resolvedIp = d.ok ? d.ip : null;
+  if (evidence.resolvedIp) {
+    log.info(`✓ ${siteDomain} resolves to ${evidence.resolvedIp}`);
+  } else {
+    remediation.push({ message: `${siteDomain} does not resolve yet; resolvers may be caching the old answer for up to the previous TTL.` });
+  }
+
+  return {
+    ok: true,
+    blockers,
+    remediation,
+    evidence,
+    next: { action: "done", reason: evidence.changed ? "Alias record updated." : "Alias record already up to date." },
+  };
+}
@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CassetteInteraction, unusedInteractions } from "./tools/cassette.js";
+import type { ExecResult } from "./tools/exec.js";
+import { setAuditLog } from "./tools/audit.js";
+import { setExecMode } from "./tools/shell.js";
+import { ClusterInputSchema } from "./schema.js";
+import type { InstallState } from "./install/state.js";
+import { runDrift } from "./drift.js";
+
+setAuditLog(null);
+
+const REGION = "us-east-1";
+const ENV = { AWS_REGION: REGION };
+
+const ok = (stdout = "") => ({ code: 0, stdout, stderr: "" });
+const fail = (stderr: string) => ({ code: 254, stdout: "", stderr });
+
+const completed = (outputs?: Record<string, string>) => ({
+  status: "completed" as const,
+  inputsHash: "x",
+  startedAt: "",
+  finishedAt: "",
+  ...(outputs ? { outputs } : {}),
+});
+
+// Writes the env file and state an install left, and replays the interactions
+function setup(phases: InstallState["phases"], interactions: CassetteInteraction[]) {
+  const dir = mkdtempSync(join(tmpdir(), "drift-"));
+  const envFile = join(dir, "lake.env");
+  writeFileSync(
+    envFile,
+    [
+      `export AWS_REGION="${REGION}"`,
+      `export CLUSTER_NAME="lake"`,
+      `export S3_BUCKET="team-lake"`,
+      `export NAMESPACE="ingext"`,
+      `export NODE_TYPE="t3.large"`,
+      `export NODE_COUNT="2"`,
+      `export BUCKET_POLICY="retention=365"`,
+    ].join("\n")
+  );
+  const state: InstallState = { version: 1, clusterName: "lake", awsRegion: REGION, updatedAt: "", phases };
+  writeFileSync(join(dir, "lake.state.json"), JSON.stringify(state));
+  writeFileSync(join(dir, "cassette.json"), JSON.stringify({ version: 1, recordedAt: "", interactions }));
+  setExecMode("replay", join(dir, "cassette.json"));
+  return ClusterInputSchema.parse({ awsRegion: REGION, clusterName: "lake", outputEnvPath: envFile });
+}
+
+const eks = (args: string[], result: ExecResult) => ({ cmd: "aws", args: ["eks", ...args, "--region", REGION, "--output", "json"], env: ENV, result });
+const describeCluster = (version: string) =>
+  eks(["describe-cluster", "--name", "lake"], ok(JSON.stringify({ cluster: { version, status: "ACTIVE" } })));
+// Without a kubeconfig the releases and the ingress are not compared, which keeps these tests to the cluster and bucket
+const kubeconfigFails = {
+  cmd: "aws",
+  args: ["eks", "update-kubeconfig", "--region", REGION, "--name", "lake", "--alias", "lake"],
+  env: ENV,
+  result: fail("error: You must be logged in to the server"),
+};
+const s3api = (args: string[], result: ExecResult) => ({
+  cmd: "aws",
+  args: ["s3api", args[0], "--bucket", "team-lake", ...args.slice(1), "--output", "json"],
+  env: ENV,
+  result,
+});
+const bucketLocation = s3api(["get-bucket-location"], ok(JSON.stringify({ LocationConstraint: null })));
+
+test("an adopted cluster and bucket are not held to the install's version, bucket policy or lifecycle", async () => {
+  const input = setup({ iam: completed() }, [describeCluster("1.29"), kubeconfigFails, bucketLocation]);
+
+  const result = await runDrift(input);
+  assert.deepEqual(result.evidence.drift, []);
+  assert.deepEqual(result.evidence.compared, ["cluster", "s3-bucket"]);
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("the install's own cluster and bucket are compared with the version and lifecycle it recorded", async () => {
+  const input = setup({ cluster: completed({ KUBERNETES_VERSION: "1.33" }), s3: completed() }, [
+    describeCluster("1.32"),
+    eks(
+      ["describe-nodegroup", "--cluster-name", "lake", "--nodegroup-name", "standardworkers"],
+      ok(JSON.stringify({ nodegroup: { status: "ACTIVE", instanceTypes: ["t3.large"], scalingConfig: { desiredSize: 2 } } }))
+    ),
+    kubeconfigFails,
+    bucketLocation,
+    s3api(["get-bucket-policy"], fail("An error occurred (NoSuchBucketPolicy) when calling the GetBucketPolicy operation")),
+    s3api(
+      ["get-bucket-lifecycle-configuration"],
+      ok(JSON.stringify({ Rules: [{ ID: "lakehouse-aws-bucket-policy", Status: "Enabled", Filter: { Prefix: "" }, Expiration: { Days: 180 } }] }))
+    ),
+  ]);
+
+  const result = await runDrift(input);
+  assert.deepEqual(
+    result.evidence.drift.map((d) => [d.kind, d.field, d.expected, d.actual]),
+    [
+      ["cluster", "kubernetesVersion", "1.33", "1.32"],
+      ["s3-bucket", "lifecycle", "retention=365", "retention=180"],
+    ]
+  );
+  assert.equal(
+    result.evidence.drift[0].reconcile,
+    `aws eks update-cluster-version --name lake --kubernetes-version 1.33 --region ${REGION}`
+  );
+  assert.match(result.evidence.drift[1].reconcile, /put-bucket-lifecycle-configuration --bucket team-lake .*"Days":365/);
+  assert.match(result.evidence.drift[1].reconcile, /or set BUCKET_POLICY=retention=180 in .*lake\.env to keep it$/);
+  assert.equal(result.next.action, "reconcile");
+  assert.deepEqual(unusedInteractions(), []);
+});
@@ -0,0 +1,454 @@
+import { basename, join } from "node:path";
+import { ClusterInput } from "./schema.js";
+import { readEnvFile } from "./artifacts.js";
+import { describeEksCluster, describeNodegroup, listAddons, NODEGROUP_NAME, updateKubeconfig } from "./tools/eks.js";
+import { HelmRelease, getValues, listReleases } from "./tools/helm.js";
+import { getJson } from "./tools/kubectl.js";
+import { getBucketLifecycle, getBucketPolicy, getBucketRegion } from "./tools/s3.js";
+import { EKS_ADDONS, InstallPhaseId } from "./install/phases.js";
+import { loadState, managedByInstall, pinnedVersions, stateOutputs, statePathFor } from "./install/state.js";
+import { RELEASES, ReleaseSpec, releaseNamespace } from "./install/releases.js";
+import { flattenValues, valuesDirFor } from "./install/values.js";
+import { iamNames } from "./install/names.js";
+import { formatBucketPolicy, lifecycleRules, parseBucketPolicy, policyFromRules } from "./install/bucketPolicy.js";
+
+export type DriftKind = "cluster" | "nodegroup" | "addon" | "helm-release" | "helm-values" | "ingress-cert" | "s3-bucket";
+
+export type DriftItem = {
+  kind: DriftKind;
+  resource: string;
+  field: string;
+  /** What the env file and install state describe; null when absent */
+  expected: string | null;
+  /** What is deployed; null when absent */
+  actual: string | null;
+  /** Suggested command or edit that brings the two back in line */
+  reconcile: string;
+};
+
+export type DriftResult = {
+  drifted: boolean;
+  blockers: { code: string; message: string }[];
+  remediation: { message: string }[];
+  evidence: {
+    envFile: string;
+    statePath: string;
+    stateFound: boolean;
+    compared: DriftKind[];
+    drift: DriftItem[];
+  };
+  next: { action: "reconcile" | "done" | "stop"; reason: string };
+};
+
+const CERT_ANNOTATION = "alb.ingress.kubernetes.io/certificate-arn";
+
+/**
+ * Compare the deployment the env file (and install state) describes with what is live:
+ * cluster version, node group, addons, Helm releases and their values, the ingress
+ * certificate and the bucket. Each difference comes with a suggested reconcile action.
+ */
+export async function runDrift(input: ClusterInput): Promise<DriftResult> {
+  const envFile = input.outputEnvPath;
+  const statePath = statePathFor(envFile);
+  const drift: DriftItem[] = [];
+  const compared: DriftKind[] = [];
+  const remediation: { message: string }[] = [];
+  let stateFound = false;
+  const result = (next: DriftResult["next"], blockers: DriftResult["blockers"] = []): DriftResult => ({
+    drifted: drift.length > 0,
+    blockers,
+    remediation,
+    evidence: { envFile, statePath, stateFound, compared, drift },
+    next,
+  });
+  const unreachable = (what: string, error: string | undefined) =>
+    remediation.push({ message: `⚠️  Could not compare ${what}: ${error ?? "unknown error"}` });
+
+  const fromFile = await readEnvFile(envFile).catch(() => null);
+  if (!fromFile) {
+    return result({ action: "stop", reason: "Nothing to compare against" }, [
+      { code: "ENV_FILE_MISSING", message: `${envFile} does not exist or cannot be read.` },
+    ]);
+  }
+
+  const loaded = await loadState(statePath);
+  if (!loaded.ok) {
+    return result({ action: "stop", reason: "Install state is unreadable" }, [
+      { code: "INSTALL_STATE_INVALID", message: loaded.error },
+    ]);
+  }
+  const state = loaded.state;
+  stateFound = !!state;
+  if (!state) {
+    remediation.push({ message: `⚠️  No install state at ${statePath}; every component is compared against ${envFile}.` });
+  }
+
+  // Outputs recorded by install (VPC_ID, policy ARNs, KUBERNETES_VERSION) complete the picture the env file gives
+  const env: Record<string, string> = { ...stateOutputs(state), ...fromFile };
+  const region = env.AWS_REGION;
+  const cluster = env.CLUSTER_NAME;
+
+  // Components from a phase install skipped (a cluster that already existed) were never ours to track
+  const managed = (phase: InstallPhaseId) => managedByInstall(state, phase);
+
+  const c = await describeEksCluster(cluster, region);
+  compared.push("cluster");
+  if (!c.ok && c.notFound) {
+    drift.push({
+      kind: "cluster",
+      resource: cluster,
+      field: "status",
+      expected: "ACTIVE",
+      actual: null,
+      reconcile: `The cluster is gone. Re-run preflight and install with --approve, or teardown to remove what is left.`,
+    });
+  } else if (!c.ok) {
+    unreachable(`cluster ${cluster}`, c.error);
+  } else {
+    if (managed("cluster")) {
+      compareVersion(env, c.version!, drift);
+      await compareNodegroup(env, drift, compared, unreachable);
+    }
+    if (managed("addons")) await compareAddons(env, drift, compared, unreachable);
+  }
+
+  if (c.ok && c.status === "ACTIVE") {
+    const kc = await updateKubeconfig(cluster, region);
+    if (!kc.ok) {
+      unreachable("Helm releases and the ingress", `Failed to update kubeconfig: ${kc.error}`);
+    } else {
+      await compareReleases(env, envFile, pinnedVersions(state), managed, drift, compared, unreachable);
+      if (managed("ingress")) await compareIngressCert(env, envFile, drift, compared, unreachable);
+    }
+  }
+
+  await compareBucket(env, envFile, managed, drift, compared, unreachable);
+
+  if (drift.length === 0) {
+    return result({ action: "done", reason: `The live deployment matches ${envFile}` });
+  }
+  return result({ action: "reconcile", reason: `${drift.length} difference(s) between ${envFile} and the live deployment` });
+}
+
+/**
+ * The cluster against the version install created it at; a state without one (or no state) has nothing to hold it to
+ */
+function compareVersion(env: Record<string, string>, version: string, drift: DriftItem[]) {
+  const cluster = env.CLUSTER_NAME;
+  const expected = env.KUBERNETES_VERSION;
+  if (expected && version !== expected) {
+    const behind = version.localeCompare(expected, undefined, { numeric: true }) < 0;
+    drift.push({
+      kind: "cluster",
+      resource: cluster,
+      field: "kubernetesVersion",
+      expected,
+      actual: version,
+      reconcile: behind
+        ? `aws eks update-cluster-version --name ${cluster} --kubernetes-version ${expected} --region ${env.AWS_REGION}`
+        : `The cluster was upgraded past ${expected}; check the charts support ${version} before installing again.`,
+    });
+  }
+}
+
+async function compareNodegroup(
+  env: Record<string, string>,
+  drift: DriftItem[],
+  compared: DriftKind[],
+  unreachable: (what: string, error?: string) => void
+) {
+  const cluster = env.CLUSTER_NAME;
+  const region = env.AWS_REGION;
+
+  const ng = await describeNodegroup(cluster, NODEGROUP_NAME, region);
+  compared.push("nodegroup");
+  if (!ng.ok && ng.notFound) {
+    drift.push({
+      kind: "nodegroup",
+      resource: NODEGROUP_NAME,
+      field: "status",
+      expected: "present",
+      actual: null,
+      reconcile: `eksctl create nodegroup --cluster ${cluster} --name ${NODEGROUP_NAME} --node-type ${env.NODE_TYPE} --nodes ${env.NODE_COUNT} --managed --region ${region}`,
+    });
+  } else if (!ng.ok) {
+    unreachable(`node group ${NODEGROUP_NAME}`, ng.error);
+  } else {
+    const type = ng.instanceTypes?.[0] ?? null;
+    if (env.NODE_TYPE && type !== env.NODE_TYPE) {
+      drift.push({
+        kind: "nodegroup",
+        resource: NODEGROUP_NAME,
+        field: "instanceType",
+        expected: env.NODE_TYPE,
+        actual: type,
+        reconcile: `Instance types cannot change in place: set NODE_TYPE=${type} in the env file to keep it, or replace node group ${NODEGROUP_NAME}.`,
+      });
+    }
+    const count = ng.desiredSize != null ? String(ng.desiredSize) : null;
+    if (env.NODE_COUNT && count !== env.NODE_COUNT) {
+      drift.push({
+        kind: "nodegroup",
+        resource: NODEGROUP_NAME,
+        field: "desiredSize",
+        expected: env.NODE_COUNT,
+        actual: count,
+        reconcile: `eksctl scale nodegroup --cluster ${cluster} --name ${NODEGROUP_NAME} --nodes ${env.NODE_COUNT} --region ${region}, or set NODE_COUNT=${count} in the env file to keep it.`,
+      });
+    }
+  }
+}
+
+async function compareAddons(
+  env: Record<string, string>,
+  drift: DriftItem[],
+  compared: DriftKind[],
+  unreachable: (what: string, error?: string) => void
+) {
+  const cluster = env.CLUSTER_NAME;
+  const region = env.AWS_REGION;
+
+  const addons = await listAddons(cluster, region);
+  compared.push("addon");
+  if (!addons.ok) {
+    unreachable("EKS addons", addons.error);
+    return;
+  }
+  for (const addon of EKS_ADDONS.filter((a) => !addons.addons!.includes(a))) {
+    drift.push({
+      kind: "addon",
+      resource: addon,
+      field: "installed",
+      expected: "true",
+      actual: "false",
+      reconcile: `aws eks create-addon --cluster-name ${cluster} --addon-name ${addon} --region ${region}`,
+    });
+  }
+}
+
+function helmUpgradeCommand(spec: ReleaseSpec, namespace: string, envFile: string): string {
+  const values = spec.values ? ` -f ${join(valuesDirFor(envFile), `${spec.release}.yaml`)}` : "";
+  return `helm upgrade --install ${spec.release} ${spec.chart} -n ${namespace}${values}`;
+}
+
+async function compareReleases(
+  env: Record<string, string>,
+  envFile: string,
+  pinned: Record<string, string>,
+  managed: (phase: InstallPhaseId) => boolean,
+  drift: DriftItem[],
+  compared: DriftKind[],
+  unreachable: (what: string, error?: string) => void
+) {
+  const listed = await listReleases();
+  compared.push("helm-release", "helm-values");
+  if (!listed.ok) {
+    unreachable("Helm releases", listed.error);
+    return;
+  }
+  const installed: HelmRelease[] = listed.releases ?? [];
+
+  for (const spec of RELEASES.filter((r) => managed(r.phase))) {
+    const namespace = releaseNamespace(spec, env);
+    const restore = helmUpgradeCommand(spec, namespace, envFile);
+    const live = installed.find((r) => r.name === spec.release && r.namespace === namespace);
+    if (!live) {
+      drift.push({
+        kind: "helm-release",
+        resource: `${namespace}/${spec.release}`,
+        field: "status",
+        expected: "deployed",
+        actual: null,
+        reconcile: restore,
+      });
+      continue;
+    }
+    if (live.status !== "deployed") {
+      drift.push({
+        kind: "helm-release",
+        resource: `${namespace}/${spec.release}`,
+        field: "status",
+        expected: "deployed",
+        actual: live.status,
+        reconcile: `helm rollback ${spec.release} -n ${namespace}, or ${restore}`,
+      });
+    }
+
+    // Held to the version install pinned; nothing pinned, nothing to hold it to
+    const version = pinned[spec.release];
+    const chart = version ? `${basename(spec.chart)}-${version}` : null;
+    if (chart && live.chart !== chart) {
+      drift.push({
+        kind: "helm-release",
+        resource: `${namespace}/${spec.release}`,
+        field: "chart",
+        expected: chart,
+        actual: live.chart,
+        reconcile: `${restore} --version ${version}`,
+      });
+    }
+
+    if (!spec.values) continue;
+    const got = await getValues(spec.release, namespace);
+    if (!got.ok) {
+      unreachable(`values of ${spec.release}`, got.error);
+      continue;
+    }
+    const expected = valueMap(spec.values(env));
+    const actual = valueMap(got.values ?? {});
+    for (const key of new Set([...expected.keys(), ...actual.keys()])) {
+      if (expected.get(key) === actual.get(key)) continue;
+      drift.push({
+        kind: "helm-values",
+        resource: `${namespace}/${spec.release}`,
+        field: key,
+        expected: expected.get(key) ?? null,
+        actual: actual.get(key) ?? null,
+        reconcile: `${restore} to restore it, or change the env file and re-run install to keep it.`,
+      });
+    }
+  }
+}
+
+// Flattened "a.b" -> JSON value, for a key-by-key comparison
+function valueMap(values: object): Map<string, string> {
+  return new Map(
+    flattenValues(values).map((line) => {
+      const i = line.indexOf("=");
+      return [line.slice(0, i), line.slice(i + 1)];
+    })
+  );
+}
+
+async function compareIngressCert(
+  env: Record<string, string>,
+  envFile: string,
+  drift: DriftItem[],
+  compared: DriftKind[],
+  unreachable: (what: string, error?: string) => void
+) {
+  const ing = await getJson(["ingress", "-n", env.NAMESPACE]);
+  compared.push("ingress-cert");
+  if (!ing.ok) {
+    unreachable("the ingress certificate", ing.error);
+    return;
+  }
+  const ingress = (ing.data?.items ?? []).find(
+    (i) => i.metadata.annotations?.["meta.helm.sh/release-name"] === "ingext-ingress"
+  );
+  if (!ingress) return; // A missing release is already reported with the Helm releases
+  const actual: string | null = ingress.metadata.annotations?.[CERT_ANNOTATION] || null;
+  const expected = env.CERT_ARN || null;
+  if (actual === expected) return;
+
+  const spec = RELEASES.find((r) => r.release === "ingext-ingress")!;
+  drift.push({
+    kind: "ingress-cert",
+    resource: `${env.NAMESPACE}/${ingress.metadata.name}`,
+    field: CERT_ANNOTATION,
+    expected,
+    actual,
+    reconcile: actual
+      ? `Set CERT_ARN=${actual} in ${envFile} to keep the new certificate, or restore it: ${helmUpgradeCommand(spec, env.NAMESPACE, envFile)}`
+      : helmUpgradeCommand(spec, env.NAMESPACE, envFile),
+  });
+}
+
+async function compareBucket(
+  env: Record<string, string>,
+  envFile: string,
+  managed: (phase: InstallPhaseId) => boolean,
+  drift: DriftItem[],
+  compared: DriftKind[],
+  unreachable: (what: string, error?: string) => void
+) {
+  const bucket = env.S3_BUCKET;
+  compared.push("s3-bucket");
+  const location = await getBucketRegion(bucket, env.AWS_REGION);
+  if (!location.ok) {
+    unreachable(`bucket ${bucket}`, location.error);
+    return;
+  }
+  if (!location.exists) {
+    drift.push({
+      kind: "s3-bucket",
+      resource: bucket,
+      field: "status",
+      expected: "present",
+      actual: null,
+      reconcile: `aws s3api create-bucket --bucket ${bucket} --region ${env.AWS_REGION}, or re-run install with --approve`,
+    });
+    return;
+  }
+  if (location.region !== env.AWS_REGION) {
+    drift.push({
+      kind: "s3-bucket",
+      resource: bucket,
+      field: "region",
+      expected: env.AWS_REGION,
+      actual: location.region!,
+      reconcile: `Buckets cannot move between regions: set S3_BUCKET to a bucket in ${env.AWS_REGION}, or recreate ${bucket} there.`,
+    });
+  }
+
+  // A bucket install adopted keeps whatever policy and lifecycle its owners gave it
+  if (!managed("s3")) return;
+
+  // Access is granted through the installer's IAM policy; a bucket policy was added by hand
+  const policy = await getBucketPolicy(bucket, env.AWS_REGION);
+  if (!policy.ok) {
+    unreachable(`the policy of bucket ${bucket}`, policy.error);
+  } else if (policy.policy) {
+    const statements = (policy.policy as { Statement?: unknown[] }).Statement?.length ?? 0;
+    drift.push({
+      kind: "s3-bucket",
+      resource: bucket,
+      field: "policy",
+      expected: null,
+      actual: `${statements} statement(s)`,
+      reconcile: `Check it does not deny ${iamNames(env.CLUSTER_NAME, env.NAMESPACE).appRole}; remove it with aws s3api delete-bucket-policy --bucket ${bucket} if it is not wanted.`,
+    });
+  }
+
+  // The lifecycle is the one bucket setting install applies, and only with BUCKET_POLICY
+  if (!env.BUCKET_POLICY) return;
+  const wanted = parseBucketPolicy(env.BUCKET_POLICY);
+  if (!wanted.ok) {
+    unreachable(`the lifecycle of bucket ${bucket}`, `BUCKET_POLICY "${env.BUCKET_POLICY}": ${wanted.error}`);
+    return;
+  }
+  const lifecycle = await getBucketLifecycle(bucket, env.AWS_REGION);
+  if (!lifecycle.ok) {
+    unreachable(`the lifecycle of bucket ${bucket}`, lifecycle.error);
+    return;
+  }
+  const expected = formatBucketPolicy(wanted.policy);
+  const live = policyFromRules(lifecycle.rules ?? []);
+  const actual = live ? formatBucketPolicy(live) : null;
+  if (actual !== expected) {
+    const configuration = JSON.stringify({ Rules: lifecycleRules(wanted.policy) });
+    drift.push({
+      kind: "s3-bucket",
+      resource: bucket,
+      field: "lifecycle",
+      expected,
+      actual,
+      reconcile: `aws s3api put-bucket-lifecycle-configuration --bucket ${bucket} --lifecycle-configuration '${configuration}' --region ${env.AWS_REGION}${actual ? `, or set BUCKET_POLICY=${actual} in ${envFile} to keep it` : ""}`,
+    });
+  }
+}
+
+/**
+ * Drift table appended to the text report
+ */
+export function formatDriftLines(result: DriftResult): string[] {
+  if (result.evidence.drift.length === 0) return [];
+  return [
+    "",
+    "Drift",
+    ...result.evidence.drift.flatMap((d) => [
+      `  ~ ${d.kind} ${d.resource} ${d.field}: ${d.expected ?? "(none)"} -> ${d.actual ?? "(none)"}`,
+      `      ${d.reconcile}`,
+    ]),
+  ];
+}
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { inputsHash, planInstall } from "./install.js";
+import { INSTALL_PHASES, PhaseContext } from "./install/phases.js";
+import { emptyState, InstallState } from "./install/state.js";
+import type { PreflightResult } from "./skill.js";
+
+const env = {
+  AWS_PROFILE: "default",
+  AWS_REGION: "us-east-2",
+  CLUSTER_NAME: "lake",
+  S3_BUCKET: "ingext-lakehouse-123456789012",
+  NAMESPACE: "ingext",
+  NODE_TYPE: "t3.large",
+  NODE_COUNT: "2",
+  SITE_DOMAIN: "lakehouse.k8.example.com",
+  CERT_ARN: "arn:aws:acm:us-east-2:123456789012:certificate/abc",
+};
+
+function context(evidence: PreflightResult["evidence"] = {}, overrides: Record<string, string> = {}): PhaseContext {
+  const preflight: PreflightResult = {
+    okToInstall: true,
+    blockers: [],
+    remediation: [],
+    env,
+    evidence,
+    next: { action: "install", reason: "" },
+  };
+  return { env: { ...env, ...overrides }, preflight, valuesDir: "/tmp/values" };
+}
+
+function completed(phaseId: (typeof INSTALL_PHASES)[number]["id"], hashEnv: Record<string, string>): InstallState {
+  const state = emptyState(env);
+  const phase = INSTALL_PHASES.find((p) => p.id === phaseId)!;
+  state.phases[phaseId] = {
+    status: "completed",
+    inputsHash: inputsHash(phase, hashEnv),
+    startedAt: "2026-01-01T00:00:00.000Z",
+    finishedAt: "2026-01-01T00:10:00.000Z",
+  };
+  return state;
+}
+
+const planned = (plan: ReturnType<typeof planInstall>, id: string) => plan.phases.find((p) => p.id === id)!;
+
+test("runs every phase without state or evidence", () => {
+  const plan = planInstall(null, context(), "state.json");
+  assert.ok(plan.phases.every((p) => p.action === "run" && p.reason === "Not yet run"));
+  assert.equal(plan.resuming, false);
+});
+
+test("skips a completed phase whose inputs are unchanged", () => {
+  const plan = planInstall(completed("cluster", env), context(), "state.json");
+  assert.equal(planned(plan, "cluster").action, "skip");
+  assert.match(planned(plan, "cluster").reason, /from state file/);
+  assert.equal(plan.resuming, true);
+  assert.equal(plan.stateMatches, true);
+});
+
+test("re-runs a completed phase whose inputs changed when nothing else skips it", () => {
+  const plan = planInstall(completed("cluster", env), context({}, { NODE_COUNT: "3" }), "state.json");
+  assert.equal(planned(plan, "cluster").action, "run");
+  assert.match(planned(plan, "cluster").reason, /Inputs changed/);
+});
+
+test("reports changed inputs on an existing cluster as a manual action instead of re-creating it", () => {
+  const plan = planInstall(
+    completed("cluster", env),
+    context({ eksClusterStatus: "ACTIVE" }, { NODE_TYPE: "m5.xlarge" }),
+    "state.json"
+  );
+  const cluster = planned(plan, "cluster");
+  assert.equal(cluster.action, "skip");
+  assert.match(cluster.reason, /Inputs changed.*cluster already exists/);
+  assert.ok(cluster.manualAction);
+});
+
+test("ignores a state file that belongs to another cluster", () => {
+  const state = completed("cluster", env);
+  state.clusterName = "other";
+  const plan = planInstall(state, context(), "state.json");
+  assert.equal(plan.stateMatches, false);
+  assert.equal(plan.notes.length, 1);
+  assert.equal(planned(plan, "cluster").action, "run");
+});
+
+test("retries a failed phase that reapplies even when its resource now exists", () => {
+  const state = emptyState(env);
+  state.phases.s3 = { status: "failed", inputsHash: "x", startedAt: "", finishedAt: "", error: "lifecycle failed" };
+  const plan = planInstall(state, context({ s3BucketExists: true }), "state.json");
+  assert.equal(planned(plan, "s3").action, "run");
+  assert.match(planned(plan, "s3").reason, /Failed on last run/);
+});
+
+test("re-runs the bucket phase to apply a changed bucket policy to the bucket it created", () => {
+  const plan = planInstall(
+    completed("s3", { ...env, BUCKET_POLICY: "retention=365" }),
+    context({ s3BucketExists: true }, { BUCKET_POLICY: "retention=730" }),
+    "state.json"
+  );
+  assert.equal(planned(plan, "s3").action, "run");
+  assert.match(planned(plan, "s3").reason, /Inputs changed/);
+});
@@ -0,0 +1,270 @@
+import { createHash } from "node:crypto";
+import { writeFile } from "node:fs/promises";
+import type { PreflightResult } from "./skill.js";
+import { updateKubeconfig } from "./tools/eks.js";
+import { INSTALL_PHASES, InstallPhase, InstallPhaseId, PhaseContext, PhaseOutcome } from "./install/phases.js";
+import {
+  InstallState,
+  emptyState,
+  loadState,
+  pinnedVersions,
+  planPathFor,
+  saveState,
+  statePathFor,
+} from "./install/state.js";
+import { CostEstimate, formatCostEstimate } from "./install/cost.js";
+import { RenderedRelease, flattenValues, renderReleaseValues, valuesDirFor } from "./install/values.js";
+import { log } from "./log.js";
+
+export type InstallOptions = {
+  approve: boolean;
+  env: Record<string, string>;
+  /** Path of the preflight env file; the install state file is kept next to it */
+  envPath?: string;
+};
+
+export type PlannedPhase = {
+  id: InstallPhaseId;
+  title: string;
+  action: "run" | "skip";
+  reason: string;
+  /** Set when inputs changed but re-running the phase cannot apply the change */
+  manualAction?: string;
+};
+
+export type InstallPlan = {
+  statePath: string;
+  resuming: boolean;
+  /** The state file exists and belongs to this cluster and region, so its records and pins apply */
+  stateMatches: boolean;
+  phases: PlannedPhase[];
+  notes: string[];
+  costEstimate?: CostEstimate;
+  /** Values each release will be installed with, as written for review */
+  releases?: RenderedRelease[];
+};
+
+export type InstallResult =
+  | { status: "needs_input"; reason: string; plan: InstallPlan }
+  | {
+      status: "completed_phase";
+      phase: InstallPhaseId | null;
+      completedPhases: InstallPhaseId[];
+      plan: InstallPlan;
+    }
+  | {
+      status: "error";
+      phase: InstallPhaseId | null;
+      error: string;
+      completedPhases: InstallPhaseId[];
+      plan: InstallPlan;
+      resume: string;
+    };
+
+export function inputsHash(phase: InstallPhase, env: Record<string, string>): string {
+  const values = phase.inputs.map((key) => [key, env[key] ?? ""]);
+  return createHash("sha256").update(JSON.stringify(values)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Decide for every phase whether it runs or is skipped, and why.
+ * A phase is skipped when the state file records it as completed with the
+ * same inputs, or when preflight evidence shows its work is already done;
+ * on an adopted cluster, the reason also names what a phase leaves in place.
+ * Changed inputs re-run a completed phase only when it can apply them to
+ * what already exists; otherwise the change is reported as a manual action.
+ */
+export function planInstall(state: InstallState | null, ctx: PhaseContext, statePath: string): InstallPlan {
+  const notes: string[] = [];
+  let usable = state;
+
+  if (state && (state.clusterName !== ctx.env.CLUSTER_NAME || state.awsRegion !== ctx.env.AWS_REGION)) {
+    notes.push(
+      `Ignoring ${statePath}: it belongs to cluster ${state.clusterName} in ${state.awsRegion}, not ${ctx.env.CLUSTER_NAME} in ${ctx.env.AWS_REGION}.`
+    );
+    usable = null;
+  }
+
+  const phases = INSTALL_PHASES.map((phase): PlannedPhase => {
+    const record = usable?.phases[phase.id];
+    const base = { id: phase.id, title: phase.title };
+
+    const skipReason = phase.skipWhen?.(ctx);
+
+    if (record?.status === "completed") {
+      if (record.inputsHash === inputsHash(phase, ctx.env)) {
+        return { ...base, action: "skip", reason: `Completed ${record.finishedAt} (from state file)` };
+      }
+      const changed = `Inputs changed since it completed (${phase.inputs.join(", ")})`;
+      // Re-running would only fail against what already exists (eksctl create cluster)
+      if (skipReason && !phase.reapplies) {
+        return {
+          ...base,
+          action: "skip",
+          reason: `${changed}, but ${skipReason.charAt(0).toLowerCase()}${skipReason.slice(1)}`,
+          manualAction: `Re-running ${phase.title} cannot apply the change; update the existing resources by hand.`,
+        };
+      }
+      return { ...base, action: "run", reason: changed };
+    }
+
+    if (skipReason && !(record?.status === "failed" && phase.reapplies)) {
+      return { ...base, action: "skip", reason: skipReason };
+    }
+
+    if (record?.status === "failed") {
+      return { ...base, action: "run", reason: `Failed on last run: ${record.error}` };
+    }
+    // On an adopted cluster only the missing pieces run
+    const partial = phase.partialWhen?.(ctx);
+    return { ...base, action: "run", reason: partial ? `Not yet run; ${partial}` : "Not yet run" };
+  });
+
+  return {
+    statePath,
+    resuming: phases.some((p) => p.action === "skip" && p.reason.endsWith("(from state file)")),
+    stateMatches: usable !== null,
+    phases,
+    notes,
+    ...(ctx.preflight.evidence.costEstimate ? { costEstimate: ctx.preflight.evidence.costEstimate } : {}),
+  };
+}
+
+function printPlan(plan: InstallPlan) {
+  log.info(`\n================ Install Plan ================`);
+  for (const note of plan.notes) log.warn(`⚠️  ${note}`);
+  for (const p of plan.phases) {
+    const mark = p.action === "run" ? "▶ RUN " : "✓ SKIP";
+    log.info(`${mark}  ${p.title.padEnd(42)} ${p.reason}`);
+    if (p.manualAction) log.warn(`        ⚠️  ${p.manualAction}`);
+  }
+  if (plan.costEstimate) {
+    log.info("");
+    for (const line of formatCostEstimate(plan.costEstimate)) log.info(line);
+  }
+  if (plan.releases?.length) {
+    log.info("\nHelm values:");
+    for (const r of plan.releases) {
+      log.info(`  ${r.release} (${r.namespace}) -f ${r.valuesFile}`);
+      for (const line of flattenValues(r.values)) log.info(`      ${line}`);
+      for (const issue of r.issues) log.warn(`    ❌ ${issue.path}: ${issue.message}`);
+    }
+  }
+  log.info(`State file: ${plan.statePath}`);
+  log.info(`==============================================\n`);
+}
+
+/**
+ * Run the install as ordered phases, persisting each phase result so a failed
+ * run resumes from the last good phase. Without approve, only the plan is returned.
+ */
+export async function runInstall(opts: InstallOptions, preflight: PreflightResult): Promise<InstallResult> {
+  const statePath = statePathFor(opts.envPath ?? "./lakehouse-aws.env");
+  const valuesDir = valuesDirFor(opts.envPath ?? "./lakehouse-aws.env");
+  const ctx: PhaseContext = { env: opts.env, preflight, valuesDir };
+
+  const loaded = await loadState(statePath);
+  if (!loaded.ok) {
+    const plan = planInstall(null, ctx, statePath);
+    return {
+      status: "error",
+      phase: null,
+      error: loaded.error,
+      completedPhases: [],
+      plan,
+      resume: `Fix or delete ${statePath} and re-run.`,
+    };
+  }
+
+  const plan = planInstall(loaded.state, ctx, statePath);
+  // Pins from a state file that belongs to another cluster were ignored along with it
+  ctx.chartVersions = pinnedVersions(plan.stateMatches ? loaded.state : null);
+  try {
+    plan.releases = await renderReleaseValues(opts.env, valuesDir);
+  } catch (err) {
+    log.warn(`⚠️  Could not write Helm values to ${valuesDir}: ${String(err)}`);
+  }
+  const invalid = (plan.releases ?? []).filter((r) => r.issues.length > 0);
+  printPlan(plan);
+  const planPath = planPathFor(opts.envPath ?? "./lakehouse-aws.env");
+  try {
+    await writeFile(planPath, JSON.stringify(plan, null, 2) + "\n", "utf8");
+  } catch (err) {
+    log.warn(`⚠️  Could not write ${planPath}: ${String(err)}`);
+  }
+
+  if (!opts.approve) {
+    return { status: "needs_input", reason: "Review the install plan and re-run with --approve to proceed.", plan };
+  }
+  if (invalid.length > 0) {
+    return {
+      status: "error",
+      phase: null,
+      error: `Helm values failed validation for ${invalid.map((r) => r.release).join(", ")}`,
+      completedPhases: [],
+      plan,
+      resume: `Fix the values reported in the plan (see ${valuesDir}) and re-run with --approve.`,
+    };
+  }
+
+  const state = plan.stateMatches && loaded.state ? loaded.state : emptyState(opts.env);
+  const completedPhases: InstallPhaseId[] = [];
+  let lastPhase: InstallPhaseId | null = null;
+  let kubeconfigReady = false;
+
+  for (const planned of plan.phases) {
+    if (planned.action === "skip") continue;
+    const phase = INSTALL_PHASES.find((p) => p.id === planned.id)!;
+
+    if (phase.usesKubernetes && !kubeconfigReady) {
+      const kc = await updateKubeconfig(opts.env.CLUSTER_NAME, opts.env.AWS_REGION);
+      if (!kc.ok) {
+        return {
+          status: "error",
+          phase: phase.id,
+          error: `Failed to update kubeconfig: ${kc.error}`,
+          completedPhases,
+          plan,
+          resume: "Check that the cluster exists and re-run with --approve.",
+        };
+      }
+      kubeconfigReady = true;
+    }
+
+    log.info(`\n==> Phase: ${phase.title}`);
+    const startedAt = new Date().toISOString();
+    let outcome: PhaseOutcome;
+    try {
+      outcome = await phase.run(ctx);
+    } catch (err) {
+      outcome = { ok: false, error: String(err) };
+    }
+
+    state.phases[phase.id] = {
+      status: outcome.ok ? "completed" : "failed",
+      inputsHash: inputsHash(phase, opts.env),
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ...(outcome.ok ? { outputs: outcome.outputs } : { error: outcome.error }),
+    };
+    await saveState(statePath, state);
+
+    if (!outcome.ok) {
+      log.error(`❌ Phase ${phase.id} failed: ${outcome.error}`);
+      return {
+        status: "error",
+        phase: phase.id,
+        error: outcome.error,
+        completedPhases,
+        plan,
+        resume: `Fix the error and re-run with --approve; completed phases are skipped using ${statePath}.`,
+      };
+    }
+
+    log.info(`✓ Phase ${phase.id} completed`);
+    completedPhases.push(phase.id);
+    lastPhase = phase.id;
+  }
+
+  return { status: "completed_phase", phase: lastPhase, completedPhases, plan };
+}
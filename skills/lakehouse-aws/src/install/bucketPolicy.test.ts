@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatBucketPolicy, lifecycleRules, parseBucketPolicy, policyFromRules } from "./bucketPolicy.js";
+
+test("parses days per key in any order, and formats them back in a fixed order", () => {
+  const parsed = parseBucketPolicy(" glacier=90, retention=365 ,ia=30");
+  assert.deepEqual(parsed, { ok: true, policy: { glacierDays: 90, retentionDays: 365, iaDays: 30 } });
+  assert.ok(parsed.ok);
+  assert.equal(formatBucketPolicy(parsed.policy), "retention=365,ia=30,glacier=90");
+});
+
+test("rejects specs S3 would refuse as a lifecycle", () => {
+  const error = (spec: string) => {
+    const r = parseBucketPolicy(spec);
+    return r.ok ? null : r.error;
+  };
+  assert.match(error("retain=365")!, /unknown key "retain"/);
+  assert.match(error("retention=0")!, /whole number of days/);
+  assert.match(error("ia=1.5")!, /whole number of days/);
+  assert.match(error("")!, /no retention, ia or glacier days/);
+  assert.match(error("ia=7")!, /ia must be at least 30 days/);
+  assert.match(error("ia=30,glacier=45")!, /glacier must be at least 30 days after ia/);
+  assert.match(error("glacier=90,retention=90")!, /retention must be longer/);
+});
+
+test("one bucket-wide rule carries the transitions and the expiration", () => {
+  const [rule] = lifecycleRules({ retentionDays: 365, iaDays: 30 });
+  assert.deepEqual(rule.Transitions, [{ Days: 30, StorageClass: "STANDARD_IA" }]);
+  assert.deepEqual(rule.Expiration, { Days: 365 });
+  assert.equal(rule.Status, "Enabled");
+});
+
+test("the policy is read back from the installer's enabled rule only", () => {
+  const rules = lifecycleRules({ retentionDays: 365, iaDays: 30, glacierDays: 90 });
+  assert.equal(formatBucketPolicy(policyFromRules(rules)!), "retention=365,ia=30,glacier=90");
+
+  const other = { ID: "team-archive", Status: "Enabled" as const, Filter: {}, Expiration: { Days: 30 } };
+  assert.equal(policyFromRules([other]), null);
+  assert.equal(policyFromRules([{ ...rules[0], Status: "Disabled" }]), null);
+});
@@ -0,0 +1,80 @@
+import type { LifecycleRule } from "../tools/s3.js";
+
+/**
+ * Lifecycle the installer puts on a bucket it creates, from --bucket-policy
+ * "retention=365,ia=30,glacier=90": days until objects move to Standard-IA and Glacier,
+ * and until they expire. Every part is optional.
+ */
+export type BucketPolicy = { retentionDays?: number; iaDays?: number; glacierDays?: number };
+
+// ID of the rule lifecycleRules writes, so the installer's rule can be told from others on the bucket
+const RULE_ID = "lakehouse-aws-bucket-policy";
+
+const KEYS: Record<string, keyof BucketPolicy> = { retention: "retentionDays", ia: "iaDays", glacier: "glacierDays" };
+
+// S3 rejects lifecycle rules that move objects to Standard-IA sooner, or out of it before this many days
+const MIN_IA_DAYS = 30;
+
+export function parseBucketPolicy(spec: string): { ok: true; policy: BucketPolicy } | { ok: false; error: string } {
+  const policy: BucketPolicy = {};
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [key, value] = part.split("=", 2).map((s) => s.trim());
+    const field = KEYS[key];
+    if (!field) return { ok: false, error: `unknown key "${key}" (expected ${Object.keys(KEYS).join(", ")})` };
+    if (!/^\d+$/.test(value ?? "") || Number(value) < 1) return { ok: false, error: `${key} must be a whole number of days` };
+    policy[field] = Number(value);
+  }
+  if (Object.keys(policy).length === 0) return { ok: false, error: "no retention, ia or glacier days given" };
+
+  const { retentionDays, iaDays, glacierDays } = policy;
+  if (iaDays !== undefined && iaDays < MIN_IA_DAYS) {
+    return { ok: false, error: `ia must be at least ${MIN_IA_DAYS} days` };
+  }
+  if (iaDays !== undefined && glacierDays !== undefined && glacierDays < iaDays + MIN_IA_DAYS) {
+    return { ok: false, error: `glacier must be at least ${MIN_IA_DAYS} days after ia` };
+  }
+  const lastTransition = Math.max(iaDays ?? 0, glacierDays ?? 0);
+  if (retentionDays !== undefined && retentionDays <= lastTransition) {
+    return { ok: false, error: "retention must be longer than the ia and glacier days" };
+  }
+  return { ok: true, policy };
+}
+
+/**
+ * The spec again in a fixed key order, as it is written to the env file
+ */
+export function formatBucketPolicy(policy: BucketPolicy): string {
+  return Object.entries(KEYS)
+    .filter(([, field]) => policy[field] !== undefined)
+    .map(([key, field]) => `${key}=${policy[field]}`)
+    .join(",");
+}
+
+/**
+ * One bucket-wide rule carrying the transitions and the expiration
+ */
+export function lifecycleRules(policy: BucketPolicy): LifecycleRule[] {
+  const transitions = [
+    ...(policy.iaDays !== undefined ? [{ Days: policy.iaDays, StorageClass: "STANDARD_IA" }] : []),
+    ...(policy.glacierDays !== undefined ? [{ Days: policy.glacierDays, StorageClass: "GLACIER" }] : []),
+  ];
+  return [
+    {
+      ID: RULE_ID,
+      Status: "Enabled",
+      Filter: { Prefix: "" },
+      ...(transitions.length > 0 ? { Transitions: transitions } : {}),
+      ...(policy.retentionDays !== undefined ? { Expiration: { Days: policy.retentionDays } } : {}),
+    },
+  ];
+}
+
+/**
+ * The policy the installer's enabled rule carries; null when the bucket has no such rule
+ */
+export function policyFromRules(rules: LifecycleRule[]): BucketPolicy | null {
+  const rule = rules.find((r) => r.ID === RULE_ID && r.Status === "Enabled");
+  if (!rule) return null;
+  const transition = (storageClass: string) => rule.Transitions?.find((t) => t.StorageClass === storageClass)?.Days;
+  return { retentionDays: rule.Expiration?.Days, iaDays: transition("STANDARD_IA"), glacierDays: transition("GLACIER") };
+}
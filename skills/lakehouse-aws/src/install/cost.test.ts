@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PriceTable, RegionPrices } from "./prices.js";
+import { estimateMonthlyCost, formatCostEstimate } from "./cost.js";
+
+const REGION_PRICES: RegionPrices = {
+  eksClusterHour: 0.1,
+  albHour: 0.02,
+  albLcuHour: 0.01,
+  natGatewayHour: 0.05,
+  natGatewayGb: 0.05,
+  gp3GbMonth: 0.1,
+  s3StandardGbMonth: 0.02,
+  onDemandHourly: {
+    "t3.medium": 0.05,
+    "m5.large": 0.1,
+    "m5.xlarge": 0.19,
+    "r5.large": 0.15,
+    // 8 vCPUs is outside the pools' instanceCpu, so never their ceiling
+    "c5.2xlarge": 1,
+  },
+};
+
+const TABLE: PriceTable = {
+  version: "test-1",
+  currency: "USD",
+  instances: {
+    "t3.medium": { vCpus: 2, memoryGiB: 4 },
+    "m5.large": { vCpus: 2, memoryGiB: 8 },
+    "m5.xlarge": { vCpus: 4, memoryGiB: 16 },
+    "r5.large": { vCpus: 2, memoryGiB: 16 },
+    "c5.2xlarge": { vCpus: 8, memoryGiB: 16 },
+  },
+  regions: { "us-east-1": REGION_PRICES },
+};
+
+const INPUT = {
+  awsRegion: "us-east-1",
+  clusterName: "lake",
+  nodeType: "t3.medium",
+  nodeCount: 2,
+  ingestGbPerDay: 10,
+  retentionDays: 30,
+};
+
+const byItem = (estimate: ReturnType<typeof estimateMonthlyCost>) =>
+  Object.fromEntries(estimate.lineItems.map((i) => [i.item, i.monthlyUsd]));
+
+test("prices every line item over 730 hours and sums the baseline and the pool ceilings", () => {
+  const estimate = estimateMonthlyCost(INPUT, TABLE);
+  assert.deepEqual(byItem(estimate), {
+    "EKS control plane": 73,
+    // 2 x 0.05 x 730
+    "Node group": 73,
+    // 8 vCPU / 64Gi: four r5.large hit both limits and cost more than any other fill
+    "Karpenter pool ingext-merge-pool (max)": 438,
+    // 128 vCPU / 512Gi: 64 m5.large
+    "Karpenter pool ingext-search-pool (max)": 4672,
+    // (0.02 + 1 LCU x 0.01) x 730
+    "Application Load Balancer": 21.9,
+    "NAT gateway": 36.5,
+    // 51 GiB of claims x 0.1
+    "gp3 volumes": 5.1,
+    // 10 GB/day x 30 days x 0.02
+    "S3 storage": 6,
+  });
+  assert.equal(estimate.lineItems.find((i) => i.item.endsWith("merge-pool (max)"))?.quantity, "4 x r5.large on demand (cpuLimit 8, memoryLimit 64Gi)");
+  assert.equal(estimate.baselineMonthlyUsd, 215.5);
+  assert.equal(estimate.maxMonthlyUsd, 5325.5);
+  assert.equal(estimate.priceTableVersion, "test-1");
+  assert.deepEqual(estimate.notes, []);
+});
+
+test("a region the table does not price gives no line items and a note to refresh it", () => {
+  const estimate = estimateMonthlyCost({ ...INPUT, awsRegion: "ap-south-1" }, TABLE);
+  assert.deepEqual(estimate.lineItems, []);
+  assert.equal(estimate.baselineMonthlyUsd, 0);
+  assert.equal(estimate.maxMonthlyUsd, 0);
+  assert.deepEqual(estimate.notes, ["Price table test-1 has no prices for ap-south-1; refresh it with --price-table <file>."]);
+});
+
+test("an unpriced node type and an unknown ingest volume are left out of the totals and noted", () => {
+  const estimate = estimateMonthlyCost({ ...INPUT, nodeType: "m7i.large", ingestGbPerDay: undefined }, TABLE);
+  const nodeGroup = estimate.lineItems.find((i) => i.item === "Node group");
+  assert.equal(nodeGroup?.monthlyUsd, null);
+  assert.equal(nodeGroup?.note, "No price for m7i.large in us-east-1");
+  assert.equal(byItem(estimate)["S3 storage"], null);
+  // 215.5 less the node group and S3
+  assert.equal(estimate.baselineMonthlyUsd, 136.5);
+  assert.equal(estimate.maxMonthlyUsd, 5246.5);
+  assert.deepEqual(estimate.notes, [
+    "S3 storage is not estimated; pass --ingest-gb-per-day <GB> to include it.",
+    "m7i.large is not in price table test-1; the node group is left out of the totals.",
+  ]);
+});
+
+test("a pool no priced instance type can fill has no ceiling, and shows as n/a", () => {
+  const table: PriceTable = { ...TABLE, regions: { "us-east-1": { ...REGION_PRICES, onDemandHourly: { "t3.medium": 0.05 } } } };
+  const estimate = estimateMonthlyCost(INPUT, table);
+  const pools = estimate.lineItems.filter((i) => i.ceiling);
+  assert.equal(pools.length, 2);
+  for (const pool of pools) {
+    assert.equal(pool.monthlyUsd, null);
+    assert.equal(pool.note, "No priced instance type matches the pool");
+  }
+  assert.equal(estimate.maxMonthlyUsd, estimate.baselineMonthlyUsd);
+
+  const lines = formatCostEstimate(estimate);
+  assert.equal(lines[0], "Estimated monthly cost (us-east-1, price table test-1)");
+  assert.match(lines.find((l) => l.includes("ingext-merge-pool"))!, /\s+n\/a {2}cpuLimit 8, memoryLimit 64Gi$/);
+  assert.match(lines.find((l) => l.includes("Baseline"))!, /\$215\.50$/);
+});
@@ -0,0 +1,176 @@
+import type { PreflightInput } from "../schema.js";
+import { poolLimits } from "../steps/capacity.js";
+import type { PriceTable, RegionPrices } from "./prices.js";
+
+const HOURS_PER_MONTH = 730;
+
+// instanceFamily and instanceCpu in charts/ingext-eks-pool/values.yaml
+const EKS_POOL_FAMILIES = ["m5", "c5", "r5", "m5a", "c5a", "r5a", "m6", "c6", "r6", "m6a", "c6a", "r6a"];
+const EKS_POOL_INSTANCE_CPUS = [2, 4];
+
+// gp3 claims made by the releases through the ingext-aws-gp3 default storage class
+const GP3_VOLUMES: { release: string; name: string; sizeGiB: number }[] = [
+  { release: "etcd-single", name: "etcd data", sizeGiB: 20 },
+  { release: "ingext-stack", name: "redis", sizeGiB: 2 },
+  { release: "ingext-stack", name: "victoria-metrics", sizeGiB: 8 },
+  { release: "ingext-community", name: "api geoip-db", sizeGiB: 3 },
+  { release: "ingext-community", name: "api remote-data", sizeGiB: 5 },
+  { release: "ingext-community", name: "platform geoip-db", sizeGiB: 3 },
+  { release: "ingext-community", name: "platform remote-data", sizeGiB: 10 },
+];
+
+// An idle ALB still bills for one LCU
+const ALB_BASELINE_LCUS = 1;
+
+export type CostLineItem = {
+  item: string;
+  quantity: string;
+  /** null when the price table has no price for it */
+  monthlyUsd: number | null;
+  /** Spend only reached if the pool scales to its limits */
+  ceiling?: boolean;
+  note?: string;
+};
+
+export type CostEstimate = {
+  currency: "USD";
+  region: string;
+  priceTableVersion: string;
+  hoursPerMonth: number;
+  lineItems: CostLineItem[];
+  /** Fixed spend: everything except the Karpenter pools */
+  baselineMonthlyUsd: number;
+  /** Baseline plus every pool running at its cpuLimit/memoryLimit on demand */
+  maxMonthlyUsd: number;
+  notes: string[];
+};
+
+const usd = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Most expensive on-demand fill of a pool: for each instance type the pool may pick,
+ * Karpenter launches nodes until either limit is met, so the count is bounded by both.
+ */
+function poolCeiling(limits: { vCpus: number; memoryGiB: number }, table: PriceTable, prices: RegionPrices) {
+  let best: { type: string; nodes: number; monthlyUsd: number } | null = null;
+  for (const [type, hourly] of Object.entries(prices.onDemandHourly)) {
+    const shape = table.instances[type];
+    if (!shape || !EKS_POOL_FAMILIES.includes(type.split(".")[0]) || !EKS_POOL_INSTANCE_CPUS.includes(shape.vCpus)) {
+      continue;
+    }
+    const nodes = Math.min(Math.ceil(limits.vCpus / shape.vCpus), Math.ceil(limits.memoryGiB / shape.memoryGiB));
+    const monthlyUsd = nodes * hourly * HOURS_PER_MONTH;
+    if (!best || monthlyUsd > best.monthlyUsd) best = { type, nodes, monthlyUsd };
+  }
+  return best;
+}
+
+/**
+ * Monthly cost of what the installer creates, by line item, from a price table
+ */
+export function estimateMonthlyCost(
+  input: Pick<PreflightInput, "awsRegion" | "clusterName" | "nodeType" | "nodeCount" | "ingestGbPerDay" | "retentionDays">,
+  table: PriceTable
+): CostEstimate {
+  const notes: string[] = [];
+  const lineItems: CostLineItem[] = [];
+  const estimate: CostEstimate = {
+    currency: "USD",
+    region: input.awsRegion,
+    priceTableVersion: table.version,
+    hoursPerMonth: HOURS_PER_MONTH,
+    lineItems,
+    baselineMonthlyUsd: 0,
+    maxMonthlyUsd: 0,
+    notes,
+  };
+
+  const prices = table.regions[input.awsRegion];
+  if (!prices) {
+    notes.push(`Price table ${table.version} has no prices for ${input.awsRegion}; refresh it with --price-table <file>.`);
+    return estimate;
+  }
+
+  lineItems.push({
+    item: "EKS control plane",
+    quantity: "1 cluster",
+    monthlyUsd: usd(prices.eksClusterHour * HOURS_PER_MONTH),
+  });
+
+  const nodeHourly = prices.onDemandHourly[input.nodeType];
+  lineItems.push({
+    item: "Node group",
+    quantity: `${input.nodeCount} x ${input.nodeType} on demand`,
+    monthlyUsd: nodeHourly === undefined ? null : usd(input.nodeCount * nodeHourly * HOURS_PER_MONTH),
+    ...(nodeHourly === undefined ? { note: `No price for ${input.nodeType} in ${input.awsRegion}` } : {}),
+  });
+
+  for (const [release, limits] of Object.entries(poolLimits(input.clusterName))) {
+    const ceiling = poolCeiling(limits, table, prices);
+    lineItems.push({
+      item: `Karpenter pool ${release} (max)`,
+      quantity: ceiling
+        ? `${ceiling.nodes} x ${ceiling.type} on demand (cpuLimit ${limits.vCpus}, memoryLimit ${limits.memoryGiB}Gi)`
+        : `cpuLimit ${limits.vCpus}, memoryLimit ${limits.memoryGiB}Gi`,
+      monthlyUsd: ceiling ? usd(ceiling.monthlyUsd) : null,
+      ceiling: true,
+      note: ceiling ? "Idle pools cost nothing; spot capacity is cheaper" : "No priced instance type matches the pool",
+    });
+  }
+
+  lineItems.push({
+    item: "Application Load Balancer",
+    quantity: `1 ALB, ${ALB_BASELINE_LCUS} LCU`,
+    monthlyUsd: usd((prices.albHour + ALB_BASELINE_LCUS * prices.albLcuHour) * HOURS_PER_MONTH),
+  });
+
+  lineItems.push({
+    item: "NAT gateway",
+    quantity: "1 gateway",
+    monthlyUsd: usd(prices.natGatewayHour * HOURS_PER_MONTH),
+    note: `Plus $${prices.natGatewayGb}/GB processed`,
+  });
+
+  const gp3GiB = GP3_VOLUMES.reduce((sum, v) => sum + v.sizeGiB, 0);
+  lineItems.push({
+    item: "gp3 volumes",
+    quantity: `${gp3GiB} GiB across ${GP3_VOLUMES.length} claims`,
+    monthlyUsd: usd(gp3GiB * prices.gp3GbMonth),
+  });
+
+  if (input.ingestGbPerDay === undefined) {
+    lineItems.push({ item: "S3 storage", quantity: "unknown ingest volume", monthlyUsd: null });
+    notes.push("S3 storage is not estimated; pass --ingest-gb-per-day <GB> to include it.");
+  } else {
+    const storedGb = input.ingestGbPerDay * input.retentionDays;
+    lineItems.push({
+      item: "S3 storage",
+      quantity: `${storedGb} GB (${input.ingestGbPerDay} GB/day x ${input.retentionDays} days)`,
+      monthlyUsd: usd(storedGb * prices.s3StandardGbMonth),
+      note: "S3 Standard at steady state, before compression",
+    });
+  }
+
+  if (nodeHourly === undefined) {
+    notes.push(`${input.nodeType} is not in price table ${table.version}; the node group is left out of the totals.`);
+  }
+
+  const sum = (items: CostLineItem[]) => usd(items.reduce((total, i) => total + (i.monthlyUsd ?? 0), 0));
+  estimate.baselineMonthlyUsd = sum(lineItems.filter((i) => !i.ceiling));
+  estimate.maxMonthlyUsd = sum(lineItems);
+  return estimate;
+}
+
+/**
+ * The estimate as aligned text lines, for the install plan and the env file header
+ */
+export function formatCostEstimate(estimate: CostEstimate): string[] {
+  const money = (n: number | null) => (n === null ? "n/a" : `$${n.toFixed(2)}`);
+  return [
+    `Estimated monthly cost (${estimate.region}, price table ${estimate.priceTableVersion})`,
+    ...estimate.lineItems.map((i) => `  ${i.item.padEnd(40)} ${money(i.monthlyUsd).padStart(10)}  ${i.quantity}`),
+    `  ${"Baseline".padEnd(40)} ${money(estimate.baselineMonthlyUsd).padStart(10)}`,
+    `  ${"Maximum (pools at their limits)".padEnd(40)} ${money(estimate.maxMonthlyUsd).padStart(10)}`,
+    ...estimate.notes.map((n) => `  ${n}`),
+  ];
+}
@@ -0,0 +1,24 @@
+/**
+ * Names of the IAM resources the installer (and setup_karpenter.sh) creates for a cluster
+ */
+export function iamNames(clusterName: string, namespace: string) {
+  const saName = `${namespace}-sa`;
+  return {
+    appServiceAccount: saName,
+    appRole: `ingext_${saName}_${clusterName}`,
+    appPolicy: `ingext_${saName}_S3_Policy_${clusterName}`,
+    ebsCsiRole: `AmazonEKS_EBS_CSI_DriverRole_${clusterName}`,
+    lbcRole: `AWSLoadBalancerControllerRole_${clusterName}`,
+    lbcPolicy: `AWSLoadBalancerControllerIAMPolicy_${clusterName}`,
+    karpenterControllerRole: `KarpenterControllerRole-${clusterName}`,
+    karpenterControllerPolicy: `KarpenterControllerPolicy-${clusterName}`,
+    karpenterNodeRole: `KarpenterNodeRole-${clusterName}`,
+  };
+}
+
+/**
+ * Name of the ALB the ingext-ingress release provisions through the Load Balancer Controller
+ */
+export function albName(clusterName: string): string {
+  return `albingext${clusterName}ingress`;
+}
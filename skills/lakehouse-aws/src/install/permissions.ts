@@ -0,0 +1,56 @@
+import type { InstallPhaseId } from "./phases.js";
+
+/**
+ * IAM actions the caller needs for each install phase: the AWS calls made by
+ * the phase itself plus those made on its behalf by eksctl and setup_karpenter.sh
+ * (CloudFormation stacks). Controllers running under their own roles are not included.
+ */
+export const PHASE_ACTIONS: Record<InstallPhaseId, string[]> = {
+  cluster: [
+    "eks:CreateCluster",
+    "eks:DescribeCluster",
+    "eks:CreateNodegroup",
+    "eks:CreateAccessEntry",
+    "cloudformation:CreateStack",
+    "cloudformation:DescribeStacks",
+    "ec2:CreateVpc",
+    "ec2:CreateSubnet",
+    "ec2:CreateInternetGateway",
+    "ec2:CreateNatGateway",
+    "ec2:AllocateAddress",
+    "ec2:CreateRouteTable",
+    "ec2:CreateSecurityGroup",
+    "ec2:AuthorizeSecurityGroupIngress",
+    "ec2:CreateLaunchTemplate",
+    "iam:CreateRole",
+    "iam:AttachRolePolicy",
+    "iam:PassRole",
+    "iam:CreateServiceLinkedRole",
+  ],
+  addons: ["eks:CreateAddon", "eks:DescribeAddon"],
+  "pod-identity": ["eks:CreatePodIdentityAssociation", "eks:ListPodIdentityAssociations", "iam:CreateRole", "iam:PassRole"],
+  s3: ["s3:CreateBucket", "s3:PutBucketPolicy", "s3:PutLifecycleConfiguration", "s3:ListBucket"],
+  iam: ["iam:CreatePolicy", "iam:GetPolicy", "iam:CreateRole", "iam:AttachRolePolicy"],
+  helm: [
+    "ecr-public:GetAuthorizationToken",
+    "sts:GetServiceBearerToken",
+    "cloudformation:CreateStack",
+    "iam:CreateRole",
+    "iam:CreateInstanceProfile",
+    "iam:AddRoleToInstanceProfile",
+    "ec2:CreateTags",
+  ],
+  "load-balancer-controller": [
+    "iam:CreatePolicy",
+    "eks:CreatePodIdentityAssociation",
+    "ec2:DescribeVpcs",
+    "elasticloadbalancing:DescribeLoadBalancers",
+  ],
+  ingress: [
+    "acm:ListCertificates",
+    "acm:DescribeCertificate",
+    "acm:RequestCertificate",
+    "route53:ListHostedZones",
+    "route53:ChangeResourceRecordSets",
+  ],
+};
@@ -0,0 +1,349 @@
+import { randomBytes } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import type { PreflightResult } from "../skill.js";
+import { run } from "../tools/shell.js";
+import {
+  createAddon,
+  createCluster,
+  createPodIdentityAssociation,
+  getClusterVpcId,
+} from "../tools/eks.js";
+import { ensurePolicy } from "../tools/iam.js";
+import { createBucket, putBucketLifecycle } from "../tools/s3.js";
+import { addRepo, refreshEcrPublicLogin, upgradeInstall } from "../tools/helm.js";
+import { ensureNamespace, ensureSecret, rolloutRestart, rolloutStatus, waitForPodsReady } from "../tools/kubectl.js";
+import { iamNames } from "./names.js";
+import { EKS_CHART_REPO, ReleaseSpec, releaseNamespace, releasesForPhase } from "./releases.js";
+import { renderReleaseValues } from "./values.js";
+import { lifecycleRules, parseBucketPolicy } from "./bucketPolicy.js";
+import { log } from "../log.js";
+
+export type InstallPhaseId =
+  | "cluster"
+  | "addons"
+  | "pod-identity"
+  | "s3"
+  | "iam"
+  | "helm"
+  | "load-balancer-controller"
+  | "ingress";
+
+export type PhaseContext = {
+  env: Record<string, string>;
+  preflight: PreflightResult;
+  /** Where each release's values file is written before helm runs */
+  valuesDir: string;
+  /** Chart versions pinned by upgrade; unpinned releases get the latest chart */
+  chartVersions?: Record<string, string>;
+};
+
+export type PhaseOutcome = { ok: true; outputs?: Record<string, string> } | { ok: false; error: string };
+
+export type InstallPhase = {
+  id: InstallPhaseId;
+  title: string;
+  /** Env keys the phase depends on; a change in any of them forces a re-run on resume */
+  inputs: string[];
+  /** Phase talks to the cluster API, so kubeconfig must be current before it runs */
+  usesKubernetes: boolean;
+  /** Reason to skip the phase based on preflight evidence, or null to run it */
+  skipWhen?: (ctx: PhaseContext) => string | null;
+  /**
+   * Safe to run again over what it created, so a failed run or changed inputs re-run it even
+   * when skipWhen matches; without it, changed inputs on an existing resource need manual action
+   */
+  reapplies?: boolean;
+  /** What an adopted cluster already has, so the phase only adds the rest; null when it does everything */
+  partialWhen?: (ctx: PhaseContext) => string | null;
+  run: (ctx: PhaseContext) => Promise<PhaseOutcome>;
+};
+
+export const EKS_VERSION = "1.34";
+export const EKS_ADDONS = ["eks-pod-identity-agent", "aws-ebs-csi-driver", "aws-mountpoint-s3-csi-driver"];
+const LBC_POLICY_URL =
+  "https://raw.githubusercontent.com/kubernetes-sigs/aws-load-balancer-controller/main/docs/install/iam_policy.json";
+const KARPENTER_SCRIPT = fileURLToPath(new URL("../../../../datalake/aws/setup_karpenter.sh", import.meta.url));
+
+// Add-ons an adopted cluster already has installed; none for a cluster this install creates
+function installedAddons({ preflight }: PhaseContext): string[] {
+  return (preflight.evidence.existingCluster?.addons ?? []).filter((a) => a.installed).map((a) => a.name);
+}
+
+function existingAssociation({ preflight }: PhaseContext, namespace: string, serviceAccount: string) {
+  return preflight.evidence.existingCluster?.podIdentityAssociations.find(
+    (a) => a.namespace === namespace && a.serviceAccount === serviceAccount
+  );
+}
+
+async function installReleases(
+  releases: ReleaseSpec[],
+  env: Record<string, string>,
+  valuesDir: string,
+  chartVersions: Record<string, string> = {}
+): Promise<PhaseOutcome> {
+  // Rendered again with this phase's env, which may carry values found during install (VPC_ID)
+  const rendered = await renderReleaseValues(env, valuesDir, releases);
+  for (const spec of releases) {
+    const namespace = releaseNamespace(spec, env);
+    const values = rendered.find((r) => r.release === spec.release);
+    if (values && values.issues.length > 0) {
+      return {
+        ok: false,
+        error: `Values for ${spec.release} are invalid: ${values.issues.map((i) => `${i.path} ${i.message}`).join("; ")}`,
+      };
+    }
+    log.info(`  ⏳ helm upgrade --install ${spec.release} (${namespace})`);
+    const r = await upgradeInstall({
+      release: spec.release,
+      chart: spec.chart,
+      namespace,
+      valuesFiles: values ? [values.valuesFile] : [],
+      version: chartVersions[spec.release],
+    });
+    if (!r.ok) {
+      return { ok: false, error: `Release ${spec.release} failed: ${r.error}` };
+    }
+    if (spec.waitAfter) {
+      log.info(`  ⏳ Waiting for pods in ${env.NAMESPACE} to be Ready (timeout ${spec.waitAfter})`);
+      const w = await waitForPodsReady(env.NAMESPACE, spec.waitAfter);
+      if (!w.ok) log.warn(`  ⚠️  Not all pods are Ready yet; continuing`);
+    }
+  }
+  return { ok: true };
+}
+
+export const INSTALL_PHASES: InstallPhase[] = [
+  {
+    id: "cluster",
+    title: "EKS cluster",
+    inputs: ["CLUSTER_NAME", "AWS_REGION", "NODE_TYPE", "NODE_COUNT"],
+    usesKubernetes: false,
+    skipWhen: ({ preflight }) => {
+      if (preflight.evidence.eksClusterStatus !== "ACTIVE") return null;
+      const existing = preflight.evidence.existingCluster;
+      return existing
+        ? `Adopting existing cluster (Kubernetes ${existing.version})`
+        : "Cluster already exists and is ACTIVE";
+    },
+    run: async ({ env }) => {
+      const r = await createCluster({
+        name: env.CLUSTER_NAME,
+        region: env.AWS_REGION,
+        version: EKS_VERSION,
+        nodeType: env.NODE_TYPE,
+        nodeCount: Number(env.NODE_COUNT),
+      });
+      // Recorded so drift compares the cluster with the version it was created at
+      return r.ok
+        ? { ok: true, outputs: { KUBERNETES_VERSION: EKS_VERSION } }
+        : { ok: false, error: `eksctl create cluster failed: ${r.error}` };
+    },
+  },
+  {
+    id: "addons",
+    title: "EKS add-ons and gp3 StorageClass",
+    inputs: ["CLUSTER_NAME", "AWS_REGION"],
+    usesKubernetes: true,
+    partialWhen: (ctx) => {
+      const installed = installedAddons(ctx);
+      return installed.length > 0 ? `already installed: ${installed.join(", ")}` : null;
+    },
+    run: async (ctx) => {
+      const { env, valuesDir, chartVersions } = ctx;
+      const installed = installedAddons(ctx);
+      for (const addon of EKS_ADDONS.filter((a) => !installed.includes(a))) {
+        const r = await createAddon(env.CLUSTER_NAME, addon, env.AWS_REGION);
+        if (!r.ok) return { ok: false, error: `Addon ${addon} failed: ${r.error}` };
+      }
+      return installReleases(releasesForPhase("addons"), env, valuesDir, chartVersions);
+    },
+  },
+  {
+    id: "pod-identity",
+    title: "EBS CSI pod identity",
+    inputs: ["CLUSTER_NAME", "AWS_REGION"],
+    usesKubernetes: true,
+    // Any role works here as long as the controller has one; the install does not attach to it
+    skipWhen: (ctx) => {
+      const existing = existingAssociation(ctx, "kube-system", "ebs-csi-controller-sa");
+      return existing ? `EBS CSI controller already bound to ${existing.roleArn}` : null;
+    },
+    run: async ({ env }) => {
+      const r = await createPodIdentityAssociation({
+        cluster: env.CLUSTER_NAME,
+        region: env.AWS_REGION,
+        namespace: "kube-system",
+        serviceAccount: "ebs-csi-controller-sa",
+        roleName: iamNames(env.CLUSTER_NAME, env.NAMESPACE).ebsCsiRole,
+        policyArns: ["arn:aws:iam::aws:policy/service-role/AmazonEBSCSIDriverPolicy"],
+      });
+      if (!r.ok) return { ok: false, error: `EBS CSI pod identity association failed: ${r.error}` };
+
+      // Credentials are injected at pod start, so the controller must restart to pick up the new role
+      if (r.created) await rolloutRestart("kube-system", "ebs-csi-controller");
+      return { ok: true };
+    },
+  },
+  {
+    id: "s3",
+    title: "S3 bucket",
+    inputs: ["S3_BUCKET", "AWS_REGION", "BUCKET_POLICY"],
+    usesKubernetes: false,
+    skipWhen: ({ preflight, env }) =>
+      preflight.evidence.s3BucketExists ? `Bucket ${env.S3_BUCKET} already exists` : null,
+    // Creating a bucket we own is a no-op and the lifecycle is replaced as a whole
+    reapplies: true,
+    run: async ({ env }) => {
+      const r = await createBucket(env.S3_BUCKET, env.AWS_REGION);
+      if (!r.ok) return { ok: false, error: `Bucket creation failed: ${r.error}` };
+      if (!r.created) log.info(`  ✓ Bucket ${env.S3_BUCKET} already exists`);
+
+      if (!env.BUCKET_POLICY) return { ok: true };
+      const policy = parseBucketPolicy(env.BUCKET_POLICY);
+      if (!policy.ok) return { ok: false, error: `BUCKET_POLICY "${env.BUCKET_POLICY}": ${policy.error}` };
+      log.info(`  ⏳ Applying bucket policy ${env.BUCKET_POLICY}`);
+      const lifecycle = await putBucketLifecycle(env.S3_BUCKET, env.AWS_REGION, lifecycleRules(policy.policy));
+      return lifecycle.ok ? { ok: true } : { ok: false, error: `Bucket lifecycle failed: ${lifecycle.error}` };
+    },
+  },
+  {
+    id: "iam",
+    title: "IAM policy and application pod identity",
+    inputs: ["S3_BUCKET", "NAMESPACE", "CLUSTER_NAME", "AWS_REGION"],
+    usesKubernetes: false,
+    run: async ({ env }) => {
+      const names = iamNames(env.CLUSTER_NAME, env.NAMESPACE);
+      const policy = await ensurePolicy(names.appPolicy, {
+        Version: "2012-10-17",
+        Statement: [
+          { Effect: "Allow", Action: ["s3:ListBucket"], Resource: `arn:aws:s3:::${env.S3_BUCKET}` },
+          {
+            Effect: "Allow",
+            Action: ["s3:PutObject", "s3:GetObject", "s3:DeleteObject", "s3:AbortMultipartUpload"],
+            Resource: `arn:aws:s3:::${env.S3_BUCKET}/*`,
+          },
+        ],
+      });
+      if (!policy.ok || !policy.arn) return { ok: false, error: `S3 policy failed: ${policy.error}` };
+
+      const assoc = await createPodIdentityAssociation({
+        cluster: env.CLUSTER_NAME,
+        region: env.AWS_REGION,
+        namespace: env.NAMESPACE,
+        serviceAccount: names.appServiceAccount,
+        roleName: names.appRole,
+        policyArns: [policy.arn],
+      });
+      if (!assoc.ok) return { ok: false, error: `Application pod identity association failed: ${assoc.error}` };
+      return { ok: true, outputs: { S3_POLICY_ARN: policy.arn } };
+    },
+  },
+  {
+    id: "helm",
+    title: "Karpenter and Ingext Helm charts",
+    inputs: ["AWS_PROFILE", "AWS_REGION", "CLUSTER_NAME", "NAMESPACE", "SITE_DOMAIN", "S3_BUCKET"],
+    usesKubernetes: true,
+    partialWhen: ({ preflight }) =>
+      preflight.evidence.existingCluster?.karpenter.present ? "Karpenter is already installed; its setup is skipped" : null,
+    run: async ({ env, valuesDir, chartVersions, preflight }) => {
+      const login = await refreshEcrPublicLogin();
+      if (!login.ok) log.warn(`  ⚠️  ECR Public login failed; falling back to anonymous pulls`);
+
+      if (preflight.evidence.existingCluster?.karpenter.present) {
+        log.info(`  ✓ Karpenter already installed; skipping setup`);
+      } else {
+        log.info(`  ⏳ Setting up Karpenter`);
+        const karpenter = await run("bash", [KARPENTER_SCRIPT, env.AWS_PROFILE, env.AWS_REGION, env.CLUSTER_NAME]);
+        if (!karpenter.ok) return { ok: false, error: `Karpenter setup failed: ${karpenter.stderr}` };
+      }
+
+      const ns = await ensureNamespace(env.NAMESPACE);
+      if (!ns.ok) return { ok: false, error: `Namespace ${env.NAMESPACE} failed: ${ns.error}` };
+
+      // Token in app-secret for shell cli access
+      const secret = await ensureSecret(env.NAMESPACE, "app-secret", {
+        token: `tok_${randomBytes(12).toString("base64url").replace(/[^A-Za-z0-9]/g, "").slice(0, 15)}`,
+      });
+      if (!secret.ok) return { ok: false, error: `app-secret failed: ${secret.error}` };
+
+      const installed = await installReleases(releasesForPhase("helm"), env, valuesDir, chartVersions);
+      if (!installed.ok) return installed;
+      // Teardown removes Karpenter only when this phase set it up
+      return { ok: true, outputs: { KARPENTER_INSTALLED: String(!preflight.evidence.existingCluster?.karpenter.present) } };
+    },
+  },
+  {
+    id: "load-balancer-controller",
+    title: "AWS Load Balancer Controller",
+    inputs: ["CLUSTER_NAME", "AWS_REGION"],
+    usesKubernetes: true,
+    run: async ({ env, valuesDir, chartVersions }) => {
+      let document: object;
+      try {
+        const res = await fetch(LBC_POLICY_URL);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        document = await res.json();
+      } catch (err) {
+        return { ok: false, error: `Failed to download Load Balancer Controller IAM policy: ${String(err)}` };
+      }
+
+      const names = iamNames(env.CLUSTER_NAME, env.NAMESPACE);
+      const policy = await ensurePolicy(names.lbcPolicy, document);
+      if (!policy.ok || !policy.arn) return { ok: false, error: `LBC policy failed: ${policy.error}` };
+
+      const assoc = await createPodIdentityAssociation({
+        cluster: env.CLUSTER_NAME,
+        region: env.AWS_REGION,
+        namespace: "kube-system",
+        serviceAccount: "aws-load-balancer-controller",
+        roleName: names.lbcRole,
+        policyArns: [policy.arn],
+      });
+      if (!assoc.ok) return { ok: false, error: `LBC pod identity association failed: ${assoc.error}` };
+
+      const repo = await addRepo(EKS_CHART_REPO.name, EKS_CHART_REPO.url);
+      if (!repo.ok) return { ok: false, error: `helm repo add eks failed: ${repo.error}` };
+
+      const vpc = await getClusterVpcId(env.CLUSTER_NAME, env.AWS_REGION);
+      if (!vpc.ok || !vpc.vpcId) return { ok: false, error: `Could not read cluster VPC: ${vpc.error}` };
+
+      const installed = await installReleases(
+        releasesForPhase("load-balancer-controller"),
+        { ...env, VPC_ID: vpc.vpcId },
+        valuesDir,
+        chartVersions
+      );
+      if (!installed.ok) return installed;
+
+      const rollout = await rolloutStatus("kube-system", "aws-load-balancer-controller");
+      if (!rollout.ok) return { ok: false, error: `Load Balancer Controller did not become ready: ${rollout.error}` };
+      return { ok: true, outputs: { LBC_POLICY_ARN: policy.arn, VPC_ID: vpc.vpcId } };
+    },
+  },
+  {
+    id: "ingress",
+    title: "Ingext ingress (ALB)",
+    inputs: ["CLUSTER_NAME", "NAMESPACE", "SITE_DOMAIN", "CERT_ARN"],
+    usesKubernetes: true,
+    run: async ({ env, valuesDir, chartVersions }) => {
+      const installed = await installReleases(releasesForPhase("ingress"), env, valuesDir, chartVersions);
+      if (!installed.ok) return installed;
+
+      // Save kubectl context for the ingext cli; optional tooling, so failures are not fatal
+      const cli = await run("ingext", [
+        "config",
+        "set",
+        "--cluster",
+        env.CLUSTER_NAME,
+        "--context",
+        env.CLUSTER_NAME,
+        "--provider",
+        "eks",
+        "--namespace",
+        env.NAMESPACE,
+      ]).catch(() => null);
+      if (!cli?.ok) log.warn(`  ⚠️  Could not save ingext cli context (is the ingext cli installed?)`);
+      return { ok: true };
+    },
+  },
+];
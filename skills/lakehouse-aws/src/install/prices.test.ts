@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BUNDLED_PRICE_TABLE, PriceTableSchema, loadPriceTable } from "./prices.js";
+
+const dir = mkdtempSync(join(tmpdir(), "prices-"));
+
+test("the bundled table is valid and prices every instance type it lists a shape for", () => {
+  assert.ok(PriceTableSchema.safeParse(BUNDLED_PRICE_TABLE).success);
+  for (const [region, prices] of Object.entries(BUNDLED_PRICE_TABLE.regions)) {
+    for (const type of Object.keys(BUNDLED_PRICE_TABLE.instances)) {
+      assert.equal(typeof prices.onDemandHourly[type], "number", `${type} in ${region}`);
+    }
+  }
+});
+
+test("without a path the bundled table is used, and a refreshed file replaces it", async () => {
+  assert.deepEqual(await loadPriceTable(), { ok: true, table: BUNDLED_PRICE_TABLE });
+
+  const path = join(dir, "refreshed.json");
+  writeFileSync(path, JSON.stringify({ ...BUNDLED_PRICE_TABLE, version: "2027-01-01" }));
+  const loaded = await loadPriceTable(path);
+  assert.ok(loaded.ok);
+  assert.equal(loaded.table.version, "2027-01-01");
+});
+
+test("an unreadable, malformed or incomplete table is an error naming the file", async () => {
+  const missing = await loadPriceTable(join(dir, "missing.json"));
+  assert.ok(!missing.ok);
+  assert.match(missing.error, /^Failed to read price table .*missing\.json/);
+
+  const garbled = join(dir, "garbled.json");
+  writeFileSync(garbled, "{ not json");
+  assert.deepEqual(await loadPriceTable(garbled), { ok: false, error: `Price table ${garbled} is not valid JSON` });
+
+  const incomplete = join(dir, "incomplete.json");
+  const { gp3GbMonth: _dropped, ...prices } = BUNDLED_PRICE_TABLE.regions["us-east-1"];
+  writeFileSync(incomplete, JSON.stringify({ ...BUNDLED_PRICE_TABLE, regions: { "us-east-1": prices } }));
+  const invalid = await loadPriceTable(incomplete);
+  assert.ok(!invalid.ok);
+  assert.equal(invalid.error, `Price table ${incomplete} is invalid: regions.us-east-1.gp3GbMonth: Required`);
+});
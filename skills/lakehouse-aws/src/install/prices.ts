@@ -0,0 +1,158 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+const RegionPricesSchema = z.object({
+  eksClusterHour: z.number(),
+  albHour: z.number(),
+  albLcuHour: z.number(),
+  natGatewayHour: z.number(),
+  natGatewayGb: z.number(),
+  gp3GbMonth: z.number(),
+  s3StandardGbMonth: z.number(),
+  /** Linux on-demand price per instance type */
+  onDemandHourly: z.record(z.number()),
+});
+
+export const PriceTableSchema = z.object({
+  version: z.string(),
+  currency: z.literal("USD"),
+  /** Shape of every instance type priced in the regions below */
+  instances: z.record(z.object({ vCpus: z.number(), memoryGiB: z.number() })),
+  regions: z.record(RegionPricesSchema),
+});
+
+export type RegionPrices = z.infer<typeof RegionPricesSchema>;
+export type PriceTable = z.infer<typeof PriceTableSchema>;
+
+// The US regions share list prices for everything the installer creates
+const US_ON_DEMAND: Record<string, number> = {
+  "t3.medium": 0.0416,
+  "t3.large": 0.0832,
+  "t3.xlarge": 0.1664,
+  "m5.large": 0.096,
+  "m5.xlarge": 0.192,
+  "m5a.large": 0.086,
+  "m5a.xlarge": 0.172,
+  "m6a.large": 0.0864,
+  "m6a.xlarge": 0.1728,
+  "c5.large": 0.085,
+  "c5.xlarge": 0.17,
+  "c5a.large": 0.077,
+  "c5a.xlarge": 0.154,
+  "c6a.large": 0.0765,
+  "c6a.xlarge": 0.153,
+  "r5.large": 0.126,
+  "r5.xlarge": 0.252,
+  "r5a.large": 0.113,
+  "r5a.xlarge": 0.226,
+  "r6a.large": 0.1134,
+  "r6a.xlarge": 0.2268,
+};
+
+const US_PRICES: RegionPrices = {
+  eksClusterHour: 0.1,
+  albHour: 0.0225,
+  albLcuHour: 0.008,
+  natGatewayHour: 0.045,
+  natGatewayGb: 0.045,
+  gp3GbMonth: 0.08,
+  s3StandardGbMonth: 0.023,
+  onDemandHourly: US_ON_DEMAND,
+};
+
+/**
+ * Public list prices bundled with the skill. Bump version whenever a price changes;
+ * it is reported with every estimate so a stale table is easy to spot.
+ */
+export const BUNDLED_PRICE_TABLE: PriceTable = {
+  version: "2026-10-01",
+  currency: "USD",
+  instances: {
+    "t3.medium": { vCpus: 2, memoryGiB: 4 },
+    "t3.large": { vCpus: 2, memoryGiB: 8 },
+    "t3.xlarge": { vCpus: 4, memoryGiB: 16 },
+    "m5.large": { vCpus: 2, memoryGiB: 8 },
+    "m5.xlarge": { vCpus: 4, memoryGiB: 16 },
+    "m5a.large": { vCpus: 2, memoryGiB: 8 },
+    "m5a.xlarge": { vCpus: 4, memoryGiB: 16 },
+    "m6a.large": { vCpus: 2, memoryGiB: 8 },
+    "m6a.xlarge": { vCpus: 4, memoryGiB: 16 },
+    "c5.large": { vCpus: 2, memoryGiB: 4 },
+    "c5.xlarge": { vCpus: 4, memoryGiB: 8 },
+    "c5a.large": { vCpus: 2, memoryGiB: 4 },
+    "c5a.xlarge": { vCpus: 4, memoryGiB: 8 },
+    "c6a.large": { vCpus: 2, memoryGiB: 4 },
+    "c6a.xlarge": { vCpus: 4, memoryGiB: 8 },
+    "r5.large": { vCpus: 2, memoryGiB: 16 },
+    "r5.xlarge": { vCpus: 4, memoryGiB: 32 },
+    "r5a.large": { vCpus: 2, memoryGiB: 16 },
+    "r5a.xlarge": { vCpus: 4, memoryGiB: 32 },
+    "r6a.large": { vCpus: 2, memoryGiB: 16 },
+    "r6a.xlarge": { vCpus: 4, memoryGiB: 32 },
+  },
+  regions: {
+    "us-east-1": US_PRICES,
+    "us-east-2": US_PRICES,
+    "us-west-2": US_PRICES,
+    "eu-west-1": {
+      eksClusterHour: 0.1,
+      albHour: 0.0252,
+      albLcuHour: 0.008,
+      natGatewayHour: 0.048,
+      natGatewayGb: 0.048,
+      gp3GbMonth: 0.088,
+      s3StandardGbMonth: 0.023,
+      onDemandHourly: {
+        "t3.medium": 0.0456,
+        "t3.large": 0.0912,
+        "t3.xlarge": 0.1824,
+        "m5.large": 0.107,
+        "m5.xlarge": 0.214,
+        "m5a.large": 0.096,
+        "m5a.xlarge": 0.192,
+        "m6a.large": 0.0963,
+        "m6a.xlarge": 0.1926,
+        "c5.large": 0.096,
+        "c5.xlarge": 0.192,
+        "c5a.large": 0.086,
+        "c5a.xlarge": 0.172,
+        "c6a.large": 0.0855,
+        "c6a.xlarge": 0.171,
+        "r5.large": 0.141,
+        "r5.xlarge": 0.282,
+        "r5a.large": 0.126,
+        "r5a.xlarge": 0.252,
+        "r6a.large": 0.1269,
+        "r6a.xlarge": 0.2538,
+      },
+    },
+  },
+};
+
+/**
+ * The bundled price table, or one refreshed offline into a JSON file of the same shape
+ */
+export async function loadPriceTable(
+  path?: string
+): Promise<{ ok: true; table: PriceTable } | { ok: false; error: string }> {
+  if (!path) return { ok: true, table: BUNDLED_PRICE_TABLE };
+
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (err) {
+    return { ok: false, error: `Failed to read price table ${path}: ${String(err)}` };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: `Price table ${path} is not valid JSON` };
+  }
+  const parsed = PriceTableSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    return { ok: false, error: `Price table ${path} is invalid: ${issues}` };
+  }
+  return { ok: true, table: parsed.data };
+}
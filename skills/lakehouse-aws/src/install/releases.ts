@@ -0,0 +1,158 @@
+import type { InstallPhaseId } from "./phases.js";
+import { albName } from "./names.js";
+
+export const INGEXT_CHART_REGISTRY = "oci://public.ecr.aws/ingext";
+export const EKS_CHART_REPO = { name: "eks", url: "https://aws.github.io/eks-charts" };
+
+/** charts/ingext-community-config/values.yaml */
+export type CommunityConfigValues = { siteDomain: string };
+
+/** charts/ingext-lake-config/values.yaml */
+export type LakeConfigValues = { storageType: "s3"; s3: { bucket: string; region: string } };
+
+/** charts/ingext-eks-pool/values.yaml */
+export type EksPoolValues = { poolName: string; clusterName: string; cpuLimit?: number; memoryLimit?: string };
+
+/** charts/ingext-s3-lake/values.yaml */
+export type S3LakeValues = { bucket: { name: string; region: string } };
+
+/** eks/aws-load-balancer-controller; vpcId is only known once the cluster exists */
+export type LoadBalancerControllerValues = {
+  clusterName: string;
+  region: string;
+  vpcId?: string;
+  serviceAccount: { create: boolean; name: string };
+};
+
+/** charts/ingext-community-ingress-aws/values.yaml */
+export type IngressAwsValues = { siteDomain: string; certArn: string; loadBalancerName: string };
+
+export type ReleaseSpec = {
+  release: string;
+  chart: string;
+  /** "app" resolves to the NAMESPACE from the env file */
+  namespace: "app" | "kube-system" | "default";
+  phase: InstallPhaseId;
+  /** Values file contents, derived from the preflight env */
+  values?: (env: Record<string, string>) => object;
+  /** Dotted value paths the chart cannot work without */
+  required?: string[];
+  /** Wait for all pods in the app namespace to be Ready after this release */
+  waitAfter?: string;
+};
+
+const ingext = (chart: string) => `${INGEXT_CHART_REGISTRY}/${chart}`;
+
+/**
+ * Every Helm release the installer deploys, in install order, which is also the order
+ * they depend on each other. Mirrors the helm calls in lakehouse-aws/install-lakehouse.sh.
+ */
+export const RELEASES: ReleaseSpec[] = [
+  // Foundation
+  { release: "ingext-aws-gp3", chart: ingext("ingext-aws-gp3"), namespace: "kube-system", phase: "addons" },
+
+  // Core services
+  { release: "ingext-serviceaccount", chart: ingext("ingext-serviceaccount"), namespace: "app", phase: "helm" },
+  { release: "ingext-stack", chart: ingext("ingext-stack"), namespace: "app", phase: "helm" },
+  { release: "etcd-single", chart: ingext("etcd-single"), namespace: "app", phase: "helm" },
+  {
+    release: "etcd-single-cronjob",
+    chart: ingext("etcd-single-cronjob"),
+    namespace: "app",
+    phase: "helm",
+    waitAfter: "600s",
+  },
+
+  // Application (Stream)
+  { release: "ingext-manager-role", chart: ingext("ingext-manager-role"), namespace: "app", phase: "helm" },
+  {
+    release: "ingext-community-config",
+    chart: ingext("ingext-community-config"),
+    namespace: "app",
+    phase: "helm",
+    values: (env): CommunityConfigValues => ({ siteDomain: env.SITE_DOMAIN }),
+    required: ["siteDomain"],
+  },
+  { release: "ingext-community-init", chart: ingext("ingext-community-init"), namespace: "app", phase: "helm" },
+  {
+    release: "ingext-community",
+    chart: ingext("ingext-community"),
+    namespace: "app",
+    phase: "helm",
+    waitAfter: "900s",
+  },
+
+  // Application (Datalake)
+  {
+    release: "ingext-lake-config",
+    chart: ingext("ingext-lake-config"),
+    namespace: "app",
+    phase: "helm",
+    values: (env): LakeConfigValues => ({ storageType: "s3", s3: { bucket: env.S3_BUCKET, region: env.AWS_REGION } }),
+    required: ["s3.bucket", "s3.region"],
+  },
+  {
+    release: "ingext-merge-pool",
+    chart: ingext("ingext-eks-pool"),
+    namespace: "default",
+    phase: "helm",
+    values: (env): EksPoolValues => ({ poolName: "pool-merge", clusterName: env.CLUSTER_NAME }),
+    required: ["poolName", "clusterName"],
+  },
+  {
+    release: "ingext-search-pool",
+    chart: ingext("ingext-eks-pool"),
+    namespace: "default",
+    phase: "helm",
+    values: (env): EksPoolValues => ({
+      poolName: "pool-search",
+      clusterName: env.CLUSTER_NAME,
+      cpuLimit: 128,
+      memoryLimit: "512Gi",
+    }),
+    required: ["poolName", "clusterName"],
+  },
+  {
+    release: "ingext-s3-lake",
+    chart: ingext("ingext-s3-lake"),
+    namespace: "app",
+    phase: "helm",
+    values: (env): S3LakeValues => ({ bucket: { name: env.S3_BUCKET, region: env.AWS_REGION } }),
+    required: ["bucket.name", "bucket.region"],
+  },
+  { release: "ingext-lake", chart: ingext("ingext-lake"), namespace: "app", phase: "helm" },
+
+  // Ingress
+  {
+    release: "aws-load-balancer-controller",
+    chart: `${EKS_CHART_REPO.name}/aws-load-balancer-controller`,
+    namespace: "kube-system",
+    phase: "load-balancer-controller",
+    values: (env): LoadBalancerControllerValues => ({
+      clusterName: env.CLUSTER_NAME,
+      region: env.AWS_REGION,
+      vpcId: env.VPC_ID,
+      serviceAccount: { create: true, name: "aws-load-balancer-controller" },
+    }),
+  },
+  {
+    release: "ingext-ingress",
+    chart: ingext("ingext-community-ingress-aws"),
+    namespace: "app",
+    phase: "ingress",
+    values: (env): IngressAwsValues => ({
+      siteDomain: env.SITE_DOMAIN,
+      certArn: env.CERT_ARN,
+      loadBalancerName: albName(env.CLUSTER_NAME),
+    }),
+    required: ["siteDomain", "certArn", "loadBalancerName"],
+  },
+];
+
+export function releaseNamespace(spec: ReleaseSpec, env: Record<string, string>): string {
+  return spec.namespace === "app" ? env.NAMESPACE : spec.namespace;
+}
+
+export function releasesForPhase(phase: InstallPhaseId): ReleaseSpec[] {
+  return RELEASES.filter((r) => r.phase === phase);
+}
@@ -0,0 +1,112 @@
+import { readFile, writeFile, rename } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import type { InstallPhaseId } from "./phases.js";
+
+export type PhaseRecord = {
+  status: "completed" | "failed";
+  /** Hash of the env values the phase consumed, used to detect changed inputs on resume */
+  inputsHash: string;
+  startedAt: string;
+  finishedAt: string;
+  outputs?: Record<string, string>;
+  error?: string;
+};
+
+export type ChartPin = {
+  version: string;
+  /** Helm revision the release was at once pinned; an upgrade that fails rolls back to it */
+  revision: number;
+  pinnedAt: string;
+};
+
+export type InstallState = {
+  version: 1;
+  clusterName: string;
+  awsRegion: string;
+  updatedAt: string;
+  phases: Partial<Record<InstallPhaseId, PhaseRecord>>;
+  /** Chart version per release, set by upgrade; install deploys these instead of the latest */
+  charts?: Record<string, ChartPin>;
+};
+
+/**
+ * The state file lives next to the env file: ./lakehouse-aws.env -> ./lakehouse-aws.state.json
+ */
+export function statePathFor(envPath: string): string {
+  const name = basename(envPath).replace(/\.env$/, "");
+  return join(dirname(envPath), `${name}.state.json`);
+}
+
+/**
+ * The reviewed plan is written next to the env file as well: ./lakehouse-aws.env -> ./lakehouse-aws.plan.json
+ */
+export function planPathFor(envPath: string): string {
+  const name = basename(envPath).replace(/\.env$/, "");
+  return join(dirname(envPath), `${name}.plan.json`);
+}
+
+export function emptyState(env: Record<string, string>): InstallState {
+  return {
+    version: 1,
+    clusterName: env.CLUSTER_NAME,
+    awsRegion: env.AWS_REGION,
+    updatedAt: new Date().toISOString(),
+    phases: {},
+  };
+}
+
+/**
+ * Outputs every completed phase recorded (VPC_ID, policy ARNs), merged in phase order
+ */
+export function stateOutputs(state: InstallState | null): Record<string, string> {
+  return Object.values(state?.phases ?? {}).reduce<Record<string, string>>(
+    (acc, p) => ({ ...acc, ...(p?.outputs ?? {}) }),
+    {}
+  );
+}
+
+/**
+ * Pinned chart version per release
+ */
+export function pinnedVersions(state: InstallState | null): Record<string, string> {
+  return Object.fromEntries(Object.entries(state?.charts ?? {}).map(([release, pin]) => [release, pin.version]));
+}
+
+/**
+ * Whether what a phase deploys is the install's own: the phase completed, or there is no state
+ * file at all (an install by the bash scripts). A phase skipped over an existing resource left it as it was.
+ */
+export function managedByInstall(state: InstallState | null, phase: InstallPhaseId): boolean {
+  return !state || state.phases[phase]?.status === "completed";
+}
+
+export async function loadState(
+  path: string
+): Promise<{ ok: true; state: InstallState | null } | { ok: false; error: string }> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { ok: true, state: null };
+    return { ok: false, error: `Failed to read install state ${path}: ${String(err)}` };
+  }
+  try {
+    const state = JSON.parse(raw) as InstallState;
+    if (state.version !== 1 || typeof state.phases !== "object") {
+      return { ok: false, error: `Unsupported install state format in ${path}` };
+    }
+    return { ok: true, state };
+  } catch {
+    return { ok: false, error: `Install state ${path} is not valid JSON` };
+  }
+}
+
+/**
+ * Write the state atomically so an interrupted run never leaves a truncated file
+ */
+export async function saveState(path: string, state: InstallState): Promise<void> {
+  state.updatedAt = new Date().toISOString();
+  const tmp = `${path}.tmp`;
+  await writeFile(tmp, JSON.stringify(state, null, 2) + "\n", "utf8");
+  await rename(tmp, path);
+}
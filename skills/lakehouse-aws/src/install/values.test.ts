@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateValues } from "./values.js";
+
+const DEFAULTS = {
+  siteDomain: "",
+  replicaCount: 1,
+  ingress: { enabled: true, certArn: null, annotations: {} },
+  tolerations: [],
+};
+
+test("values that match the chart's keys and types pass", () => {
+  const values = { siteDomain: "lake.example.com", ingress: { enabled: false, certArn: "arn:aws:acm:x" }, tolerations: [] };
+  assert.deepEqual(validateValues(values, DEFAULTS, ["siteDomain"]), []);
+});
+
+test("unknown keys are reported with the closest chart key", () => {
+  assert.deepEqual(validateValues({ ingress: { enabeld: true } }, DEFAULTS), [
+    { path: "ingress.enabeld", message: "not a value of the chart; did you mean ingress.enabled?" },
+  ]);
+});
+
+test("a type the chart default does not have is an issue, unless the default is empty", () => {
+  const issues = validateValues({ replicaCount: "2", ingress: { certArn: 42, annotations: [] }, tolerations: undefined }, DEFAULTS);
+  assert.deepEqual(issues.map((i) => i.path), ["replicaCount", "ingress.annotations"]);
+  assert.match(issues[0].message, /expected number like the chart default 1, got string/);
+});
+
+test("required paths must be set and non-empty", () => {
+  assert.deepEqual(validateValues({ siteDomain: "" }, DEFAULTS, ["siteDomain", "ingress.certArn"]), [
+    { path: "siteDomain", message: "required but not set" },
+    { path: "ingress.certArn", message: "required but not set" },
+  ]);
+});
@@ -0,0 +1,146 @@
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { getPath, suggest } from "../config.js";
+import { RELEASES, ReleaseSpec, releaseNamespace } from "./releases.js";
+
+const CHARTS_DIR = fileURLToPath(new URL("../../../../charts/", import.meta.url));
+
+export type ValuesIssue = { path: string; message: string };
+
+export type RenderedRelease = {
+  release: string;
+  chart: string;
+  namespace: string;
+  valuesFile: string;
+  values: object;
+  /** Local chart the values were checked against, or null for charts not in this repo */
+  validatedAgainst: string | null;
+  issues: ValuesIssue[];
+};
+
+/**
+ * Values files are kept next to the env file: ./lakehouse-aws.env -> ./lakehouse-aws.values/<release>.yaml
+ */
+export function valuesDirFor(envPath: string): string {
+  const name = basename(envPath).replace(/\.env$/, "");
+  return join(dirname(envPath), `${name}.values`);
+}
+
+export function renderValuesYaml(release: string, values: object): string {
+  return `# Generated values for ${release}\n${stringifyYaml(values)}`;
+}
+
+// { a: { b: 1 } } -> ["a.b=1"], the way --set would spell it
+export function flattenValues(values: object, prefix = ""): string[] {
+  return Object.entries(values).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === "object" && !Array.isArray(value)) return flattenValues(value, path);
+    return value === undefined ? [] : [`${path}=${JSON.stringify(value)}`];
+  });
+}
+
+/**
+ * Version in charts/<name>/Chart.yaml for a release whose chart is one of ours, else null
+ */
+export async function localChartVersion(spec: ReleaseSpec): Promise<string | null> {
+  try {
+    const chart = parseYaml(await readFile(join(CHARTS_DIR, basename(spec.chart), "Chart.yaml"), "utf8"));
+    return chart?.version ? String(chart.version) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * charts/<name>/values.yaml for a release whose chart is one of ours, else null
+ */
+async function loadChartDefaults(spec: ReleaseSpec): Promise<{ path: string; values: Record<string, unknown> } | null> {
+  const path = join(CHARTS_DIR, basename(spec.chart), "values.yaml");
+  try {
+    await access(path);
+  } catch {
+    return null;
+  }
+  const values = parseYaml(await readFile(path, "utf8"));
+  return { path, values: values && typeof values === "object" ? (values as Record<string, unknown>) : {} };
+}
+
+const kind = (v: unknown) => (v === null || v === undefined ? "null" : Array.isArray(v) ? "array" : typeof v);
+
+/**
+ * Check values against the chart's defaults: every key must exist there, and carry the
+ * same type unless the chart leaves it empty. Required paths must be set and non-empty.
+ */
+export function validateValues(
+  values: object,
+  defaults: Record<string, unknown>,
+  required: string[] = []
+): ValuesIssue[] {
+  const issues: ValuesIssue[] = [];
+  const visit = (node: Record<string, unknown>, chart: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (value === undefined) continue;
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (!(key in chart)) {
+        const hints = suggest(key, Object.keys(chart));
+        issues.push({
+          path,
+          message: `not a value of the chart${hints.length ? `; did you mean ${hints.map((h) => (prefix ? `${prefix}.${h}` : h)).join(" or ")}?` : ""}`,
+        });
+        continue;
+      }
+      const expected = kind(chart[key]);
+      if (expected === "object" && kind(value) === "object") {
+        visit(value as Record<string, unknown>, chart[key] as Record<string, unknown>, path);
+      } else if (expected !== "null" && expected !== kind(value)) {
+        issues.push({ path, message: `expected ${expected} like the chart default ${JSON.stringify(chart[key])}, got ${kind(value)}` });
+      }
+    }
+  };
+  visit(values as Record<string, unknown>, defaults, "");
+
+  for (const path of required) {
+    const value = getPath(values, path);
+    if (value === undefined || value === null || value === "") {
+      issues.push({ path, message: "required but not set" });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Build and validate the values for the given releases (all of them by default) and write
+ * each to <dir>/<release>.yaml, so what helm receives can be reviewed before it runs.
+ */
+export async function renderReleaseValues(
+  env: Record<string, string>,
+  dir: string,
+  releases: ReleaseSpec[] = RELEASES
+): Promise<RenderedRelease[]> {
+  await mkdir(dir, { recursive: true });
+  const rendered: RenderedRelease[] = [];
+  for (const spec of releases) {
+    if (!spec.values) continue;
+    const values = spec.values(env);
+    const defaults = await loadChartDefaults(spec);
+    const issues = defaults ? validateValues(values, defaults.values, spec.required) : [];
+
+    const valuesFile = join(dir, `${spec.release}.yaml`);
+    const tmp = `${valuesFile}.tmp`;
+    await writeFile(tmp, renderValuesYaml(spec.release, values), "utf8");
+    await rename(tmp, valuesFile);
+
+    rendered.push({
+      release: spec.release,
+      chart: spec.chart,
+      namespace: releaseNamespace(spec, env),
+      valuesFile,
+      values,
+      validatedAgainst: defaults?.path ?? null,
+      issues,
+    });
+  }
+  return rendered;
+}
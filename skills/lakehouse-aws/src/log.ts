@@ -0,0 +1,48 @@
+/**
+ * Progress goes to stderr so stdout only ever carries the report.
+ * --quiet keeps errors only; --verbose adds debug lines such as every command run.
+ */
+export type LogLevel = "error" | "warn" | "info" | "debug";
+
+const RANK: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+let LEVEL: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel) {
+  LEVEL = level;
+}
+
+/**
+ * Level for the --quiet/--verbose flags; quiet wins when both are given
+ */
+export function logLevelFromArgs(args: Record<string, string>): LogLevel {
+  if (args["quiet"] !== undefined && args["quiet"] !== "false") return "error";
+  if (args["verbose"] !== undefined && args["verbose"] !== "false") return "debug";
+  return "info";
+}
+
+type LogListener = (level: LogLevel, message: string) => void;
+
+const listeners = new Set<LogListener>();
+
+/**
+ * Also hand every line that passes the level to listener (the tool server streams them
+ * as progress). Returns the function that removes it again.
+ */
+export function onLog(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function write(level: LogLevel, message: string) {
+  if (RANK[level] > RANK[LEVEL]) return;
+  process.stderr.write(`${message}\n`);
+  for (const listener of listeners) listener(level, message);
+}
+
+export const log = {
+  error: (message: string) => write("error", message),
+  warn: (message: string) => write("warn", message),
+  info: (message: string) => write("info", message),
+  debug: (message: string) => write("debug", message),
+};
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { APPROVAL_TTL_MS, issueApproval, redeemApproval } from "./approvals.js";
+
+const input = { clusterName: "lake", awsRegion: "us-east-1", readiness: { hasDns: true, hasBilling: true } };
+
+test("a token is redeemed once, for the tool and input it was issued for, in any key order", () => {
+  const { token, tool } = issueApproval("teardown", input);
+  assert.equal(tool, "teardown");
+  assert.match(token, /^apv_[0-9a-f]{32}$/);
+
+  const reordered = { readiness: { hasBilling: true, hasDns: true }, awsRegion: "us-east-1", clusterName: "lake" };
+  assert.equal(redeemApproval("teardown", { ...reordered, approvalToken: token }), null);
+  assert.equal(
+    redeemApproval("teardown", { ...input, approvalToken: token }),
+    "approvalToken is not a teardown approval issued by this server"
+  );
+});
+
+test("a token is refused for other input or another tool, and is spent by the attempt", () => {
+  const changed = issueApproval("install", input).token;
+  assert.equal(
+    redeemApproval("install", { ...input, clusterName: "other", approvalToken: changed }),
+    "approvalToken was issued for different input"
+  );
+  assert.match(redeemApproval("install", { ...input, approvalToken: changed })!, /is not a install approval/);
+
+  const forTeardown = issueApproval("teardown", input).token;
+  assert.match(redeemApproval("install", { ...input, approvalToken: forTeardown })!, /is not a install approval/);
+  assert.equal(redeemApproval("install", input), "approvalToken is not a install approval issued by this server");
+});
+
+test("a token expires 15 minutes after it was issued", (t) => {
+  const issuedAt = Date.now();
+  const now = t.mock.method(Date, "now", () => issuedAt);
+  const fresh = issueApproval("install", input).token;
+  const stale = issueApproval("install", input).token;
+
+  now.mock.mockImplementation(() => issuedAt + APPROVAL_TTL_MS);
+  assert.equal(redeemApproval("install", { ...input, approvalToken: fresh }), null);
+  now.mock.mockImplementation(() => issuedAt + APPROVAL_TTL_MS + 1);
+  assert.equal(redeemApproval("install", { ...input, approvalToken: stale }), "approvalToken has expired");
+  assert.equal(APPROVAL_TTL_MS, 15 * 60_000);
+});
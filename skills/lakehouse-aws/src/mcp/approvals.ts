@@ -0,0 +1,45 @@
+import { createHash, randomBytes } from "node:crypto";
+
+export const APPROVAL_TTL_MS = 15 * 60_000;
+
+type Approval = { tool: string; inputHash: string; expiresAt: number };
+
+const approvals = new Map<string, Approval>();
+
+// Key order must not change the hash, so objects are serialized with sorted keys
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function inputHash(input: Record<string, unknown>): string {
+  const { approvalToken: _, ...rest } = input;
+  return createHash("sha256").update(stableJson(rest)).digest("hex");
+}
+
+/**
+ * A one-time token that lets `tool` run with exactly this input within the TTL
+ */
+export function issueApproval(tool: string, input: Record<string, unknown>) {
+  const token = `apv_${randomBytes(16).toString("hex")}`;
+  const expiresAt = Date.now() + APPROVAL_TTL_MS;
+  approvals.set(token, { tool, inputHash: inputHash(input), expiresAt });
+  return { tool, token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Consume a token; the error says why it cannot be used, null when it is valid
+ */
+export function redeemApproval(tool: string, input: Record<string, unknown>): string | null {
+  const token = String(input.approvalToken ?? "");
+  const approval = approvals.get(token);
+  approvals.delete(token);
+  if (!approval || approval.tool !== tool) return `approvalToken is not a ${tool} approval issued by this server`;
+  if (approval.expiresAt < Date.now()) return "approvalToken has expired";
+  if (approval.inputHash !== inputHash(input)) return "approvalToken was issued for different input";
+  return null;
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+const Kind = z.ZodFirstPartyTypeKind;
+
+/**
+ * JSON Schema for the zod types the input schemas are built from. Transforms are
+ * described by their input side, which is what a caller sends; unknown types are
+ * left unconstrained.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName) {
+    case Kind.ZodString: {
+      const min = (def.checks as { kind: string; value?: number }[]).find((c) => c.kind === "min");
+      return { type: "string", ...(min ? { minLength: min.value } : {}) };
+    }
+    case Kind.ZodNumber:
+      return { type: "number" };
+    case Kind.ZodBoolean:
+      return { type: "boolean" };
+    case Kind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case Kind.ZodLiteral:
+      return { const: def.value };
+    case Kind.ZodArray:
+      return { type: "array", items: toJsonSchema(def.type) };
+    case Kind.ZodUnion:
+      return { anyOf: (def.options as z.ZodTypeAny[]).map(toJsonSchema) };
+    case Kind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case Kind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: "null" }] };
+    case Kind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case Kind.ZodEffects:
+      return toJsonSchema(def.schema);
+    case Kind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.entries(shape)
+        .filter(([, field]) => !field.isOptional())
+        .map(([key]) => key);
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+        ...(required.length > 0 ? { required } : {}),
+        // Only strict objects reject unknown keys; the others strip them
+        ...(def.unknownKeys === "strict" ? { additionalProperties: false } : {}),
+      };
+    }
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { log } from "../log.js";
+import type { ToolDefinition } from "./tools.js";
+import { PROTOCOL_VERSION, serveLines } from "./rpc.js";
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "echo",
+    description: "Echo the text",
+    schema: z
+      .object({ text: z.string(), options: z.object({ loud: z.boolean().default(false) }).default({}) })
+      .strict(),
+    destructive: false,
+    run: async (input) => {
+      log.info(`echoing ${input.text}`);
+      return { echoed: input.options.loud ? input.text.toUpperCase() : input.text };
+    },
+  },
+  {
+    name: "explode",
+    description: "Always fails",
+    schema: z.object({}).strict(),
+    destructive: true,
+    run: async () => {
+      throw new Error("boom");
+    },
+  },
+];
+
+type Reply = { id?: number | null; method?: string; result?: Record<string, unknown>; error?: { code: number; message: string }; params?: Record<string, unknown> };
+
+// Serves the requests (objects are sent as JSON, strings as they are) and returns every reply
+async function serve(requests: Array<object | string>): Promise<Reply[]> {
+  const lines = (async function* () {
+    for (const r of requests) yield typeof r === "string" ? r : JSON.stringify(r);
+  })();
+  const out: string[] = [];
+  await serveLines(lines, TOOLS, (line) => out.push(line));
+  assert.ok(out.every((line) => line.endsWith("\n")));
+  return out.map((line) => JSON.parse(line));
+}
+
+const call = (id: number, name: string, args: object, meta?: object) => ({
+  jsonrpc: "2.0",
+  id,
+  method: "tools/call",
+  params: { name, arguments: args, ...(meta ? { _meta: meta } : {}) },
+});
+
+test("answers requests, stays silent on notifications and reports protocol errors", async () => {
+  const replies = await serve([
+    { jsonrpc: "2.0", id: 1, method: "initialize", params: {} },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { jsonrpc: "2.0", id: 2, method: "ping" },
+    { jsonrpc: "2.0", id: 3, method: "resources/list" },
+    "{ not json",
+    { jsonrpc: "2.0", id: 4 },
+    "",
+  ]);
+  assert.deepEqual(
+    replies.map((r) => [r.id, r.error?.code ?? null]),
+    [
+      [1, null],
+      [2, null],
+      [3, -32601],
+      [null, -32700],
+      [4, -32600],
+    ]
+  );
+  assert.equal(replies[0].result?.protocolVersion, PROTOCOL_VERSION);
+  assert.deepEqual(replies[1].result, {});
+  assert.ok(replies.every((r) => (r as { jsonrpc?: string }).jsonrpc === "2.0"));
+});
+
+test("lists each tool with its input schema; only strict objects forbid other keys", async () => {
+  const [reply] = await serve([{ jsonrpc: "2.0", id: 1, method: "tools/list" }]);
+  const tools = reply.result?.tools as { name: string; inputSchema: object; annotations: object }[];
+  assert.deepEqual(
+    tools.map((t) => t.name),
+    ["echo", "explode"]
+  );
+  assert.deepEqual(tools[0].inputSchema, {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      options: { type: "object", properties: { loud: { type: "boolean", default: false } }, default: {} },
+    },
+    required: ["text"],
+    additionalProperties: false,
+  });
+  assert.deepEqual(tools[1].annotations, { destructiveHint: true, readOnlyHint: false });
+});
+
+test("a tool call streams log lines as progress and returns the result", async () => {
+  const replies = await serve([call(1, "echo", { text: "hi", options: { loud: true } }, { progressToken: "p1" })]);
+  assert.deepEqual(replies[0], {
+    jsonrpc: "2.0",
+    method: "notifications/progress",
+    params: { progressToken: "p1", progress: 1, message: "echoing hi" },
+  });
+  assert.deepEqual(replies[1].result?.structuredContent, { echoed: "HI" });
+  assert.equal(replies.length, 2);
+});
+
+test("keys the schema does not have, failures and unknown tools are errors", async () => {
+  const replies = await serve([call(1, "echo", { text: "hi", approve: true }), call(2, "explode", {}), call(3, "nope", {})]);
+  const text = (r: Reply) => (r.result?.content as { text: string }[])[0].text;
+
+  assert.equal(replies[0].result?.isError, true);
+  assert.match(text(replies[0]), /^Invalid input:\n\(input\): Unrecognized key\(s\) in object: 'approve'/);
+  assert.equal(replies[1].result?.isError, true);
+  assert.equal(text(replies[1]), "boom");
+  assert.deepEqual(replies[2].error, { code: -32602, message: 'Unknown tool "nope"' });
+});
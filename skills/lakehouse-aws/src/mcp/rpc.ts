@@ -0,0 +1,132 @@
+import { onLog } from "../log.js";
+import { toJsonSchema } from "./jsonSchema.js";
+import type { ToolDefinition } from "./tools.js";
+
+export const PROTOCOL_VERSION = "2025-06-18";
+const SERVER_INFO = { name: "lakehouse-aws", version: "0.1.0" };
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+type ToolCallParams = { name?: string; arguments?: unknown; _meta?: { progressToken?: string | number } };
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+const rpcError = (code: number, message: string) => Object.assign(new Error(message), { rpcCode: code });
+
+/** Writes one newline-terminated message */
+export type WriteLine = (line: string) => void;
+
+type Send = (message: object) => void;
+
+function listTools(tools: ToolDefinition[]) {
+  return {
+    tools: tools.map((t) => ({
+      name: t.name,
+      description: t.description,
+      inputSchema: toJsonSchema(t.schema),
+      annotations: { destructiveHint: t.destructive, readOnlyHint: t.name === "status" },
+    })),
+  };
+}
+
+/**
+ * Run one tool. Every log line it produces is sent as a progress notification when the
+ * caller passed a progressToken; bad input and failures come back as isError results.
+ */
+async function callTool(tools: ToolDefinition[], params: ToolCallParams, send: Send) {
+  const tool = tools.find((t) => t.name === params.name);
+  if (!tool) throw rpcError(INVALID_PARAMS, `Unknown tool "${params.name}"`);
+
+  const parsed = tool.schema.safeParse(params.arguments ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(input)"}: ${i.message}`);
+    return { content: [{ type: "text", text: `Invalid input:\n${issues.join("\n")}` }], isError: true };
+  }
+
+  const progressToken = params._meta?.progressToken;
+  let progress = 0;
+  const stop =
+    progressToken === undefined
+      ? () => {}
+      : onLog((_, message) =>
+          send({ method: "notifications/progress", params: { progressToken, progress: ++progress, message } })
+        );
+  try {
+    const result = await tool.run(parsed.data);
+    return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }], structuredContent: result };
+  } catch (err) {
+    return { content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }], isError: true };
+  } finally {
+    stop();
+  }
+}
+
+async function dispatch(tools: ToolDefinition[], request: JsonRpcRequest, send: Send): Promise<object> {
+  switch (request.method) {
+    case "initialize":
+      return {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+      };
+    case "ping":
+      return {};
+    case "tools/list":
+      return listTools(tools);
+    case "tools/call":
+      return callTool(tools, (request.params ?? {}) as ToolCallParams, send);
+    default:
+      throw rpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+  }
+}
+
+async function handle(tools: ToolDefinition[], request: JsonRpcRequest, send: Send) {
+  // Notifications (initialized, cancelled) need no reply
+  if (request.id === undefined) return;
+  try {
+    send({ id: request.id, result: await dispatch(tools, request, send) });
+  } catch (err) {
+    const code = err instanceof Error && "rpcCode" in err ? Number(err.rpcCode) : INVALID_REQUEST;
+    send({ id: request.id, error: { code, message: err instanceof Error ? err.message : String(err) } });
+  }
+}
+
+/**
+ * Answer newline-delimited JSON-RPC 2.0 requests until the lines end.
+ * Tool calls share the exec mode and log hooks, so they run one at a time in arrival order.
+ */
+export async function serveLines(lines: AsyncIterable<string>, tools: ToolDefinition[], write: WriteLine): Promise<void> {
+  const send: Send = (message) => write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+  let toolQueue: Promise<void> = Promise.resolve();
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      send({ id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+      continue;
+    }
+    if (typeof request?.method !== "string") {
+      send({ id: request?.id ?? null, error: { code: INVALID_REQUEST, message: "Invalid request" } });
+      continue;
+    }
+    if (request.method === "tools/call") {
+      toolQueue = toolQueue.then(() => handle(tools, request, send));
+    } else {
+      await handle(tools, request, send);
+    }
+  }
+  await toolQueue;
+}
@@ -0,0 +1,11 @@
+import { createInterface } from "node:readline";
+import { serveLines } from "./rpc.js";
+import { TOOLS } from "./tools.js";
+
+/**
+ * Serve the tools over stdio until stdin closes. One message per line on stdout;
+ * everything human-readable goes to stderr through log.
+ */
+export async function runServer(): Promise<void> {
+  await serveLines(createInterface({ input: process.stdin }), TOOLS, (line) => process.stdout.write(line));
+}
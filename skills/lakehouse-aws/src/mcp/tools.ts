@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { ClusterInputSchema, PreflightInputSchema } from "../schema.js";
+import { runPreflight } from "../skill.js";
+import { runInstall } from "../install.js";
+import { runStatus } from "../status.js";
+import { runTeardown } from "../teardown.js";
+import { setExecMode } from "../tools/shell.js";
+import { issueApproval, redeemApproval } from "./approvals.js";
+
+export type ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> = {
+  name: string;
+  description: string;
+  schema: S;
+  /** Changes or deletes resources, so it only acts with an approval token from its dry run */
+  destructive: boolean;
+  run(input: z.infer<S>): Promise<object>;
+};
+
+// Types each tool's run input from its own schema
+const tool = <S extends z.AnyZodObject>(definition: ToolDefinition<S>) => definition;
+
+// approve is replaced by the approval token, so it is not part of any tool input; unknown keys are rejected
+const PreflightToolInput = PreflightInputSchema.omit({ approve: true }).strict();
+const ClusterToolInput = ClusterInputSchema.omit({ approve: true }).strict();
+const approvalToken = z.string().min(1);
+
+export const TOOLS: ToolDefinition[] = [
+  tool({
+    name: "preflight",
+    description:
+      "Check AWS readiness for a lakehouse install and write the env file. " +
+      "Returns blockers, remediation, env and next.action.",
+    schema: PreflightToolInput,
+    destructive: false,
+    run: async (input) => {
+      setExecMode(input.execMode, input.cassette, input.dockerImage);
+      return { preflight: await runPreflight(input) };
+    },
+  }),
+  tool({
+    name: "install-plan",
+    description:
+      "Run preflight and return the install plan without changing anything. When the plan can proceed, " +
+      "the result carries the approvalToken the install tool needs, valid for the same input.",
+    schema: PreflightToolInput,
+    destructive: false,
+    run: async (input) => {
+      setExecMode(input.execMode, input.cassette, input.dockerImage);
+      const preflight = await runPreflight(input);
+      if (!preflight.okToInstall) return { preflight };
+      const install = await runInstall({ approve: false, env: preflight.env, envPath: input.outputEnvPath }, preflight);
+      return {
+        preflight,
+        install,
+        ...(install.status === "needs_input" ? { approval: issueApproval("install", input) } : {}),
+      };
+    },
+  }),
+  tool({
+    name: "install",
+    description: "Run preflight, then execute the install plan. Requires the approvalToken from install-plan.",
+    schema: PreflightToolInput.extend({ approvalToken }),
+    destructive: true,
+    run: async (input) => {
+      const denied = redeemApproval("install", input);
+      if (denied) throw new Error(`${denied}. Call install-plan with the same input for a new token.`);
+      setExecMode(input.execMode, input.cassette, input.dockerImage);
+      const preflight = await runPreflight(input);
+      if (!preflight.okToInstall) return { preflight };
+      const install = await runInstall({ approve: true, env: preflight.env, envPath: input.outputEnvPath }, preflight);
+      return { preflight, install };
+    },
+  }),
+  tool({
+    name: "status",
+    description: "Report the health of the cluster, bucket, Helm releases, load balancer and certificate.",
+    schema: ClusterToolInput,
+    destructive: false,
+    run: async (input) => {
+      setExecMode(input.execMode, input.cassette, input.dockerImage);
+      return { status: await runStatus(input) };
+    },
+  }),
+  tool({
+    name: "teardown",
+    description:
+      "Without approvalToken, list what teardown would delete and return an approvalToken for that input. " +
+      "With it, delete every lakehouse resource.",
+    schema: ClusterToolInput.extend({ approvalToken: approvalToken.optional() }),
+    destructive: true,
+    run: async (input) => {
+      setExecMode(input.execMode, input.cassette, input.dockerImage);
+      if (input.approvalToken === undefined) {
+        const teardown = await runTeardown({ ...input, approve: false });
+        return { teardown, approval: issueApproval("teardown", input) };
+      }
+      const denied = redeemApproval("teardown", input);
+      if (denied) throw new Error(`${denied}. Call teardown without a token for a new one.`);
+      return { teardown: await runTeardown({ ...input, approve: true }) };
+    },
+  }),
+];
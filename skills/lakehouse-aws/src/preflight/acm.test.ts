@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CassetteInteraction, unusedInteractions } from "../tools/cassette.js";
+import { setAuditLog } from "../tools/audit.js";
+import { setExecMode } from "../tools/shell.js";
+import { PreflightInputSchema } from "../schema.js";
+import type { AwsCheckContext } from "./aws.js";
+import { ACM_CHECKS } from "./acm.js";
+
+setAuditLog(null);
+
+const REGION = "us-east-1";
+const ENV = { AWS_REGION: REGION };
+const SITE = "lake.example.com";
+const ARN = `arn:aws:acm:${REGION}:123456789012:certificate/abc`;
+const RECORD = { Name: "_x1.lake.example.com.", Type: "CNAME", Value: "_y1.acm-validations.aws." };
+
+const requestCheck = ACM_CHECKS.find((c) => c.id === "acm-request")!;
+const ok = (stdout = "") => ({ code: 0, stdout, stderr: "" });
+
+function replay(interactions: CassetteInteraction[]) {
+  const path = join(mkdtempSync(join(tmpdir(), "acm-")), "cassette.json");
+  writeFileSync(path, JSON.stringify({ version: 1, recordedAt: "", interactions }));
+  setExecMode("replay", path);
+}
+
+function context(flags: Record<string, unknown>, zone?: { id: string; name: string }): AwsCheckContext {
+  const input = PreflightInputSchema.parse({ rootDomain: "example.com", siteDomain: SITE, awsRegion: REGION, requestCert: true, ...flags });
+  return { input, siteDomain: SITE, evidence: zone ? { route53ZoneId: zone.id, route53ZoneName: zone.name } : {} };
+}
+
+const request = (sans: string[]) => ({
+  cmd: "aws",
+  args: [
+    "acm",
+    "request-certificate",
+    "--domain-name",
+    SITE,
+    "--validation-method",
+    "DNS",
+    ...(sans.length > 0 ? ["--subject-alternative-names", SITE, ...sans] : []),
+    "--idempotency-token",
+    createHash("sha256").update([SITE, ...sans].join(",")).digest("hex").slice(0, 32),
+    "--region",
+    REGION,
+    "--output",
+    "json",
+  ],
+  env: ENV,
+  result: ok(JSON.stringify({ CertificateArn: ARN })),
+});
+const describe = (certificate: Record<string, unknown>): CassetteInteraction => ({
+  cmd: "aws",
+  args: ["acm", "describe-certificate", "--certificate-arn", ARN, "--region", REGION, "--output", "json"],
+  env: ENV,
+  result: ok(JSON.stringify({ Certificate: { CertificateArn: ARN, DomainName: SITE, ...certificate } })),
+});
+const pending = (names: string[]) =>
+  describe({ Status: "PENDING_VALIDATION", DomainValidationOptions: names.map((DomainName) => ({ DomainName, ResourceRecord: RECORD })) });
+const upsert = {
+  cmd: "aws",
+  args: [
+    "route53",
+    "change-resource-record-sets",
+    "--hosted-zone-id",
+    "Z1",
+    "--change-batch",
+    JSON.stringify({
+      Comment: "lakehouse-aws preflight",
+      Changes: [{ Action: "UPSERT", ResourceRecordSet: { Name: RECORD.Name, Type: RECORD.Type, TTL: 300, ResourceRecords: [{ Value: RECORD.Value }] } }],
+    }),
+    "--output",
+    "json",
+  ],
+  env: {},
+  result: ok("{}"),
+};
+
+test("skipped without --request-cert or when a certificate was found", () => {
+  assert.equal(requestCheck.skipWhen!(context({ requestCert: false })), "--request-cert not set");
+  assert.equal(requestCheck.skipWhen!({ ...context({}), certArn: ARN }), "certificate already available");
+  assert.equal(requestCheck.skipWhen!(context({})), null);
+});
+
+test("requests the certificate, writes its validation record once into the zone and waits for ISSUED", async () => {
+  replay([
+    request([`*.${SITE}`]),
+    // The apex and the wildcard share one validation record
+    pending([SITE, `*.${SITE}`]),
+    upsert,
+    describe({ Status: "ISSUED" }),
+  ]);
+  const ctx = context({ requestCertWildcard: true }, { id: "Z1", name: "example.com" });
+
+  const outcome = await requestCheck.run(ctx);
+  assert.deepEqual(outcome, { ok: true });
+  assert.equal(ctx.certArn, ARN);
+  assert.equal(ctx.evidence.certArn, ARN);
+  assert.deepEqual(ctx.evidence.certRequest, {
+    arn: ARN,
+    status: "ISSUED",
+    validationRecords: [{ name: RECORD.Name, type: RECORD.Type, value: RECORD.Value }],
+    route53Upserted: true,
+  });
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("without a Route53 zone the certificate stays pending and the records to create are listed", async () => {
+  replay([request([]), pending([SITE])]);
+  const ctx = context({});
+
+  const outcome = await requestCheck.run(ctx);
+  assert.equal(outcome.ok, false);
+  assert.deepEqual(outcome.blockers?.map((b) => b.code), ["CERT_PENDING_VALIDATION"]);
+  assert.deepEqual(outcome.remediation, [
+    { message: `Create these DNS records with your DNS provider, then re-run with --cert-arn ${ARN}:` },
+    { message: `CNAME ${RECORD.Name} -> ${RECORD.Value}` },
+  ]);
+  assert.equal(ctx.certArn, undefined);
+  assert.equal(ctx.evidence.certRequest?.status, "PENDING_VALIDATION");
+  assert.equal(ctx.evidence.certRequest?.route53Upserted, false);
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a certificate ACM fails to issue blocks with the reason it gave", async () => {
+  replay([request([]), pending([SITE]), upsert, describe({ Status: "FAILED", FailureReason: "CAA_ERROR" })]);
+  const ctx = context({}, { id: "Z1", name: "example.com" });
+
+  const outcome = await requestCheck.run(ctx);
+  assert.deepEqual(outcome.blockers, [{ code: "CERT_REQUEST_FAILED", message: `Certificate ${ARN} is FAILED (CAA_ERROR).` }]);
+  assert.equal(ctx.certArn, undefined);
+  assert.equal(ctx.evidence.certRequest?.status, "FAILED");
+  assert.deepEqual(unusedInteractions(), []);
+});
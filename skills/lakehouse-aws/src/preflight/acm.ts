@@ -0,0 +1,168 @@
+import type { AwsCheckContext } from "./aws.js";
+import type { PreflightCheck } from "./registry.js";
+import {
+  CertificateEvaluation,
+  evaluateCertificate,
+  findCertificatesForDomain,
+  requestCertificate,
+  waitForCertificateIssued,
+  waitForValidationRecords,
+} from "../tools/acm.js";
+import { upsertRecords } from "../tools/route53.js";
+import { log } from "../log.js";
+
+function expiryWarnings(e: CertificateEvaluation) {
+  return e.reasons.filter((r) => r.startsWith("warning:")).map((r) => ({ message: `⚠️  Certificate ${e.arn} ${r.slice(9)}` }));
+}
+
+/** Find (or with --request-cert, request) the certificate the ALB will serve */
+export const ACM_CHECKS: PreflightCheck<AwsCheckContext>[] = [
+  {
+    id: "acm",
+    title: "ACM certificate",
+    dependsOn: ["auth", "inputs"],
+    severity: "blocker",
+    run: async (ctx) => {
+      const { input, siteDomain, evidence } = ctx;
+      if (input.certArn) {
+        // An explicit ARN is still checked, so the ALB never serves a cert browsers reject
+        const e = await evaluateCertificate(input.certArn, siteDomain, input.awsRegion, input.certExpiryWarnDays);
+        if (!e.ok || !e.evaluation) {
+          return { ok: false, blockers: [{ code: "ACM_CHECK_FAILED", message: `Failed to describe ${input.certArn}: ${e.error}` }] };
+        }
+        evidence.certCandidates = [e.evaluation];
+        if (!e.evaluation.accepted) {
+          return {
+            ok: false,
+            blockers: [{ code: "CERT_NOT_USABLE", message: `Certificate ${input.certArn} cannot serve ${siteDomain}: ${e.evaluation.reasons.join("; ")}` }],
+            remediation: [{ message: "Pass a different --cert-arn, or omit it to auto-discover one." }],
+          };
+        }
+        ctx.certArn = input.certArn;
+        evidence.certArn = input.certArn;
+        evidence.certDomain = e.evaluation.matchedName!;
+        evidence.certIsWildcard = e.evaluation.wildcard;
+        evidence.certExpiresAt = e.evaluation.notAfter ?? undefined;
+        evidence.certAutoDiscovered = false;
+        log.info(`\n✓ Using provided certificate: ${input.certArn}`);
+        return { ok: true, remediation: expiryWarnings(e.evaluation) };
+      }
+
+      log.info(`\n⏳ Searching for ACM certificate covering: ${siteDomain}...`);
+      const certSearch = await findCertificatesForDomain(siteDomain, input.awsRegion, input.certExpiryWarnDays);
+      if (!certSearch.ok) {
+        return { ok: false, blockers: [{ code: "ACM_CHECK_FAILED", message: `Failed to query ACM: ${certSearch.error}` }] };
+      }
+      evidence.certCandidates = certSearch.evaluations;
+      for (const rejected of (certSearch.evaluations ?? []).filter((e) => !e.accepted)) {
+        log.info(`  ✗ ${rejected.domain}: ${rejected.reasons.join("; ")}`);
+      }
+      if (!certSearch.matches || certSearch.matches.length === 0) {
+        if (input.requestCert) {
+          log.info(`  No certificate found; one will be requested (--request-cert)`);
+          return { ok: true };
+        }
+        return {
+          ok: false,
+          blockers: [{ code: "NO_CERTIFICATE", message: `No ACM certificate found covering ${siteDomain} in ${input.awsRegion}` }],
+          remediation: [
+            { message: `Create an ACM certificate for ${siteDomain}, use --cert-arn to specify one, or pass --request-cert` },
+            { message: `Certificates must be in ${input.awsRegion} and in ISSUED status` },
+            { message: `A wildcard covers one label only: *.example.com does not cover ${siteDomain} unless it is one level below` },
+          ],
+        };
+      }
+
+      // Matches are ranked: exact over wildcard, then furthest from expiry
+      const selectedCert = certSearch.matches[0];
+
+      ctx.certArn = selectedCert.arn;
+      evidence.certArn = selectedCert.arn;
+      evidence.certDomain = selectedCert.domain;
+      evidence.certIsWildcard = selectedCert.wildcard;
+      evidence.certExpiresAt = selectedCert.evaluation.notAfter ?? undefined;
+      evidence.certAutoDiscovered = true;
+
+      log.info(`✓ Found certificate: ${selectedCert.domain}`);
+      log.info(`  ARN: ${selectedCert.arn}`);
+      if (selectedCert.wildcard) {
+        log.info(`  Type: Wildcard certificate`);
+      }
+      if (certSearch.matches.length > 1) {
+        log.info(`  (${certSearch.matches.length} matching certificates found, selected best ranked)`);
+      }
+      return { ok: true, remediation: expiryWarnings(selectedCert.evaluation) };
+    },
+  },
+  {
+    // Runs after acm found nothing; validation records go into the zone the route53 check found
+    id: "acm-request",
+    title: "ACM certificate request",
+    dependsOn: ["acm", "route53"],
+    severity: "blocker",
+    skipWhen: (ctx) =>
+      !ctx.input.requestCert ? "--request-cert not set" : ctx.certArn ? "certificate already available" : null,
+    run: async (ctx) => {
+      const { input, siteDomain, evidence } = ctx;
+      const sans = input.requestCertWildcard ? [`*.${siteDomain}`] : [];
+      log.info(`\n⏳ Requesting ACM certificate for ${[siteDomain, ...sans].join(", ")}...`);
+      const req = await requestCertificate(siteDomain, input.awsRegion, sans);
+      if (!req.ok || !req.arn) {
+        return { ok: false, blockers: [{ code: "CERT_REQUEST_FAILED", message: `ACM request-certificate failed: ${req.error}` }] };
+      }
+
+      const v = await waitForValidationRecords(req.arn, input.awsRegion);
+      if (!v.ok) {
+        return { ok: false, blockers: [{ code: "CERT_REQUEST_FAILED", message: `Certificate ${req.arn}: ${v.error}` }] };
+      }
+      evidence.certRequest = { arn: req.arn, status: "PENDING_VALIDATION", validationRecords: v.records, route53Upserted: false };
+
+      const manualRecords = v.records.map((r) => ({ message: `${r.type} ${r.name} -> ${r.value}` }));
+      if (!evidence.route53ZoneId) {
+        return {
+          ok: false,
+          blockers: [{ code: "CERT_PENDING_VALIDATION", message: `Certificate ${req.arn} requested; no Route53 zone to validate it in.` }],
+          remediation: [
+            { message: `Create these DNS records with your DNS provider, then re-run with --cert-arn ${req.arn}:` },
+            ...manualRecords,
+          ],
+        };
+      }
+
+      const up = await upsertRecords(evidence.route53ZoneId, v.records);
+      if (!up.ok) {
+        return {
+          ok: false,
+          blockers: [{ code: "CERT_VALIDATION_DNS_FAILED", message: `Failed to write validation records to ${evidence.route53ZoneName}: ${up.error}` }],
+          remediation: [{ message: "Create these records manually:" }, ...manualRecords],
+        };
+      }
+      evidence.certRequest.route53Upserted = true;
+      log.info(`✓ Validation records written to ${evidence.route53ZoneName}`);
+
+      log.info(`⏳ Waiting up to ${input.certWaitSeconds}s for ${req.arn} to be ISSUED...`);
+      const issued = await waitForCertificateIssued(req.arn, input.awsRegion, input.certWaitSeconds * 1000);
+      evidence.certRequest.status = issued.status;
+      if (!issued.ok) {
+        return {
+          ok: false,
+          blockers: [
+            {
+              code: issued.status === "PENDING_VALIDATION" ? "CERT_PENDING_VALIDATION" : "CERT_REQUEST_FAILED",
+              message: `Certificate ${req.arn} is ${issued.status}${issued.reason ? ` (${issued.reason})` : ""}.`,
+            },
+          ],
+          remediation: [{ message: `DNS validation can take up to 30 minutes. Re-run with --cert-arn ${req.arn} once it is ISSUED.` }],
+        };
+      }
+
+      ctx.certArn = req.arn;
+      evidence.certArn = req.arn;
+      evidence.certDomain = siteDomain;
+      evidence.certIsWildcard = false;
+      evidence.certAutoDiscovered = false;
+      log.info(`✓ Certificate issued: ${req.arn}`);
+      return { ok: true };
+    },
+  },
+];
@@ -0,0 +1,307 @@
+import { PreflightInput, resolveS3Bucket } from "../schema.js";
+import type { AwsPreflightEvidence } from "../skill.js";
+import { describeCluster } from "../tools/aws.js";
+import { digA } from "../tools/dns.js";
+import { validateAwsAuth } from "../steps/auth.js";
+import { validateRequiredVariables } from "../steps/collect.js";
+import { confirmDomains } from "../steps/confirm.js";
+import { checkCapacity } from "../steps/capacity.js";
+import { simulateInstallPermissions } from "../steps/permissions.js";
+import { formatExistingCluster, inspectExistingCluster } from "../steps/cluster.js";
+import { formatBucketEvidence, inspectBucket } from "../steps/bucket.js";
+import { parseBucketPolicy } from "../install/bucketPolicy.js";
+import { loadState, statePathFor } from "../install/state.js";
+import { checkDockerAvailable, checkToolboxImage } from "../steps/checks.js";
+import { TOOLBOX_IMAGE } from "../tools/docker.js";
+import { findHostedZoneForDomain } from "../tools/route53.js";
+import { ACM_CHECKS } from "./acm.js";
+import type { Blocker, PreflightCheck } from "./registry.js";
+import { log } from "../log.js";
+
+export type AwsCheckContext = {
+  input: PreflightInput;
+  siteDomain: string;
+  evidence: AwsPreflightEvidence;
+  /** Set by the auth check */
+  accountId?: string;
+  /** Provided with --cert-arn or discovered by the acm check */
+  certArn?: string;
+};
+
+export const AWS_CHECKS: PreflightCheck<AwsCheckContext>[] = [
+  {
+    id: "docker",
+    title: "Docker",
+    dependsOn: [],
+    severity: "blocker",
+    skipWhen: ({ input }) => (input.execMode === "docker" ? null : `${input.execMode} execution mode`),
+    run: async ({ input, evidence }) => {
+      const dockerCheck = await checkDockerAvailable();
+      if (!dockerCheck.ok) {
+        return {
+          ok: false,
+          blockers: [{ code: "DOCKER_NOT_READY", message: "Docker is required in docker execution mode but is not available." }],
+          remediation: [
+            { message: "Install Docker Desktop and ensure it's running." },
+            { message: "Verify with: docker version" },
+            { message: "Or use --exec local to run tools from your local system." },
+          ],
+        };
+      }
+      evidence.dockerVersion = dockerCheck.version;
+
+      const image = input.dockerImage ?? TOOLBOX_IMAGE;
+      evidence.dockerImage = image;
+      const imageCheck = await checkToolboxImage(image);
+      if (!imageCheck.ok) {
+        return {
+          ok: false,
+          blockers: [{ code: "DOCKER_IMAGE_MISSING", message: `Toolbox image ${image} is not available locally.` }],
+          remediation: [
+            { message: `Pull it with: docker pull ${image}` },
+            { message: "Or pin another toolbox image with --docker-image <repo:tag|repo@sha256:...>." },
+          ],
+        };
+      }
+      evidence.dockerImageDigest = imageCheck.digest;
+      return { ok: true };
+    },
+  },
+  {
+    // Every AWS call below needs valid credentials
+    id: "auth",
+    title: "AWS authentication",
+    dependsOn: ["docker"],
+    severity: "blocker",
+    run: async (ctx) => {
+      const authResult = await validateAwsAuth(ctx.input.awsProfile, ctx.input.awsRegion);
+      if (!authResult.ok) {
+        return { ok: false, blockers: authResult.blockers, remediation: authResult.remediation };
+      }
+      ctx.accountId = authResult.accountId;
+      ctx.evidence.awsAccountId = authResult.accountId;
+      ctx.evidence.awsArn = authResult.arn;
+      return { ok: true };
+    },
+  },
+  {
+    id: "inputs",
+    title: "Required variables",
+    dependsOn: [],
+    severity: "blocker",
+    run: async ({ input, siteDomain }) => validateRequiredVariables({ ...input, siteDomain }),
+  },
+  {
+    id: "domain",
+    title: "Domain confirmation",
+    dependsOn: [],
+    severity: "blocker",
+    run: async ({ input, siteDomain, evidence }) => {
+      const domainConfirmation = confirmDomains(input, siteDomain);
+      evidence.domainConfirmation = {
+        rootDomain: domainConfirmation.rootDomain,
+        siteDomain: domainConfirmation.siteDomain,
+        siteDomainWasConstructed: domainConfirmation.siteDomainWasConstructed,
+      };
+      log.info(domainConfirmation.message);
+      return { ok: domainConfirmation.warnings.length === 0, blockers: domainConfirmation.warnings };
+    },
+  },
+  {
+    id: "route53",
+    title: "Route53 hosted zone",
+    dependsOn: ["auth", "inputs"],
+    severity: "warning",
+    run: async ({ siteDomain, evidence }) => {
+      // Resolve the zone for the site domain itself, which may be delegated below the root domain
+      const route53Check = await findHostedZoneForDomain(siteDomain);
+      if (!route53Check.ok) {
+        return { ok: false, blockers: [{ code: "ROUTE53_CHECK_FAILED", message: `Failed to query Route53: ${route53Check.error}` }] };
+      }
+      if (route53Check.zoneId && route53Check.isPrivate) {
+        evidence.route53PrivateZoneName = route53Check.zoneName!;
+        return {
+          ok: false,
+          blockers: [
+            {
+              code: "ROUTE53_PRIVATE_ZONE_ONLY",
+              message: `Only a private hosted zone (${route53Check.zoneName}) covers ${siteDomain}; public DNS and certificate validation need a public zone.`,
+            },
+          ],
+        };
+      }
+      if (route53Check.zoneId) {
+        evidence.route53ZoneId = route53Check.zoneId;
+        evidence.route53ZoneName = route53Check.zoneName!;
+        log.info(`\n✓ Route53 hosted zone found: ${route53Check.zoneName} (${route53Check.zoneId})`);
+      } else {
+        log.warn(`\n⚠️  No Route53 hosted zone found for ${siteDomain}`);
+        log.info(`   You'll need to manually configure DNS records.`);
+      }
+      if (route53Check.shadowingPrivateZone) {
+        evidence.route53PrivateZoneName = route53Check.shadowingPrivateZone;
+        return {
+          ok: false,
+          blockers: [
+            {
+              code: "ROUTE53_PRIVATE_ZONE_SHADOWS",
+              message: `Private zone ${route53Check.shadowingPrivateZone} also covers ${siteDomain}; clients in its VPCs will not see the public record.`,
+            },
+          ],
+        };
+      }
+      return { ok: true };
+    },
+  },
+  ...ACM_CHECKS,
+  {
+    // Evidence for admin rights; --has-admin true still overrides it where SCPs make simulation unreliable
+    id: "iam",
+    title: "IAM permission simulation",
+    // An adopted cluster takes phases out of the plan, so their actions are not needed
+    dependsOn: ["auth", "existing-cluster"],
+    severity: "blocker",
+    run: async ({ input, evidence }) => {
+      log.info(`\n⏳ Simulating installer IAM permissions for ${evidence.awsArn}...`);
+      const sim = await simulateInstallPermissions(evidence.awsArn!, evidence.existingCluster);
+      const override = input.readiness.hasAdmin === true;
+      evidence.iamSimulation = { ...sim, overridden: override };
+
+      if (sim.inconclusive) {
+        if (override) return { ok: true, remediation: [{ message: `⚠️  IAM simulation unavailable (${sim.inconclusive}); relying on --has-admin true.` }] };
+        return {
+          ok: false,
+          blockers: [{ code: "IAM_SIMULATION_UNAVAILABLE", message: `Could not simulate IAM permissions: ${sim.inconclusive}` }],
+          remediation: [
+            { message: "Grant iam:SimulatePrincipalPolicy (and iam:GetRole for assumed roles) to the caller," },
+            { message: "or pass --has-admin true if you know the caller has AdministratorAccess." },
+          ],
+        };
+      }
+
+      const denied = Object.entries(sim.deniedByPhase).map(([phase, actions]) => ({
+        code: "IAM_ACTIONS_DENIED",
+        message: `Install phase "${phase}" needs: ${actions!.join(", ")}`,
+      }));
+      if (denied.length === 0) {
+        log.info(`✓ All ${sim.checkedActions} installer actions allowed`);
+        return { ok: true };
+      }
+      if (override) {
+        return { ok: true, remediation: denied.map((d) => ({ message: `⚠️  Simulated deny overridden by --has-admin true: ${d.message}` })) };
+      }
+      return {
+        ok: false,
+        blockers: denied,
+        remediation: [
+          { message: `Attach AdministratorAccess (or the listed actions) to ${sim.principalArn}.` },
+          { message: "Actions marked (org) are denied by an Organizations SCP; if simulation misreads your SCPs, pass --has-admin true." },
+        ],
+      };
+    },
+  },
+  {
+    id: "readiness",
+    title: "Readiness answers",
+    dependsOn: [],
+    severity: "blocker",
+    run: async ({ input, siteDomain }) => {
+      const blockers: Blocker[] = [];
+      if (!input.readiness.hasBilling) blockers.push({ code: "NO_BILLING", message: "Billing must be enabled to create EKS/S3 resources." });
+      if (input.readiness.hasAdmin === false) blockers.push({ code: "NO_ADMIN", message: "Admin permissions are required (IAM/VPC/EKS)." });
+      if (!input.readiness.hasDns) blockers.push({ code: "NO_DNS", message: `You must control DNS for ${siteDomain}.` });
+      return { ok: blockers.length === 0, blockers };
+    },
+  },
+  {
+    id: "s3",
+    title: "S3 bucket",
+    dependsOn: ["auth", "inputs"],
+    severity: "blocker",
+    run: async ({ input, accountId, evidence }) => {
+      const policy = input.bucketPolicy === undefined ? null : parseBucketPolicy(input.bucketPolicy);
+      if (policy && !policy.ok) {
+        return {
+          ok: false,
+          blockers: [{ code: "BUCKET_POLICY_INVALID", message: `--bucket-policy "${input.bucketPolicy}": ${policy.error}.` }],
+          remediation: [{ message: 'Give days per key, for example --bucket-policy "retention=365,ia=30,glacier=90".' }],
+        };
+      }
+
+      const inspection = await inspectBucket(resolveS3Bucket(input, accountId), accountId!, input.awsRegion);
+      if (inspection.evidence) {
+        evidence.s3Bucket = inspection.evidence;
+        evidence.s3BucketExists = inspection.evidence.ownership === "owned";
+        for (const line of formatBucketEvidence(inspection.evidence)) log.info(`  ${line}`);
+      }
+      // A bucket an earlier run's s3 phase created gets the changed policy when that phase reapplies;
+      // only one that was there before install keeps its lifecycle
+      const loaded = policy && evidence.s3BucketExists ? await loadState(statePathFor(input.outputEnvPath)) : null;
+      if (loaded && !(loaded.ok && loaded.state?.phases.s3?.status === "completed")) {
+        inspection.remediation.push({
+          message: `⚠️  --bucket-policy is only applied to a bucket the installer creates; ${evidence.s3Bucket!.name} already exists and keeps its lifecycle.`,
+        });
+      }
+      return inspection;
+    },
+  },
+  {
+    id: "eks",
+    title: "EKS cluster",
+    dependsOn: ["auth", "inputs"],
+    severity: "warning",
+    run: async ({ input, evidence }) => {
+      const c = await describeCluster(input.clusterName, input.awsProfile, input.awsRegion);
+      evidence.eksClusterStatus = c.status;
+      return { ok: true };
+    },
+  },
+  {
+    // An existing cluster is adopted: the install plan only adds what it lacks
+    id: "existing-cluster",
+    title: "Existing cluster compatibility",
+    dependsOn: ["eks"],
+    severity: "blocker",
+    skipWhen: ({ evidence }) =>
+      !evidence.eksClusterStatus || /not.?found/i.test(evidence.eksClusterStatus) ? "No existing cluster" : null,
+    run: async ({ input, evidence }) => {
+      log.info(`\n⏳ Inspecting existing cluster ${input.clusterName}...`);
+      const inspection = await inspectExistingCluster(input);
+      if (inspection.evidence) {
+        evidence.existingCluster = inspection.evidence;
+        for (const line of formatExistingCluster(inspection.evidence)) log.info(`  ${line}`);
+      }
+      return inspection;
+    },
+  },
+  {
+    id: "capacity",
+    title: "Instance availability and quotas",
+    dependsOn: ["auth", "inputs", "existing-cluster"],
+    severity: "blocker",
+    run: async ({ input, evidence }) => {
+      const adopted = !!evidence.existingCluster;
+      log.info(
+        adopted
+          ? `\n⏳ Checking capacity for the Karpenter pools in ${input.awsRegion} (node group and network already exist)...`
+          : `\n⏳ Checking capacity for ${input.nodeCount} x ${input.nodeType} plus Karpenter pools in ${input.awsRegion}...`
+      );
+      const capacity = await checkCapacity(input, adopted);
+      evidence.capacity = capacity.evidence;
+      if (capacity.ok) log.info(`✓ Capacity and quotas sufficient`);
+      return capacity;
+    },
+  },
+  {
+    id: "dns",
+    title: "Site domain A record",
+    dependsOn: ["inputs"],
+    severity: "warning",
+    skipWhen: ({ input }) => (input.dnsCheck ? null : "--dns-check false"),
+    run: async ({ siteDomain, evidence }) => {
+      const d = await digA(siteDomain);
+      if (d.ok) evidence.dnsARecord = d.ip;
+      return { ok: true };
+    },
+  },
+];
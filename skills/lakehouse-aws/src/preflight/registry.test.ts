@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CheckOutcome, CheckSeverity, PreflightCheck, runChecks } from "./registry.js";
+
+type Ctx = { ran: string[] };
+
+function check(
+  id: string,
+  outcome: CheckOutcome,
+  opts: { dependsOn?: string[]; severity?: CheckSeverity; skipWhen?: string } = {}
+): PreflightCheck<Ctx> {
+  return {
+    id,
+    title: id,
+    dependsOn: opts.dependsOn ?? [],
+    severity: opts.severity ?? "blocker",
+    ...(opts.skipWhen ? { skipWhen: () => opts.skipWhen! } : {}),
+    run: async (ctx) => {
+      ctx.ran.push(id);
+      return outcome;
+    },
+  };
+}
+
+const statuses = (records: { id: string; status: string }[]) => Object.fromEntries(records.map((r) => [r.id, r.status]));
+
+test("a failed blocker skips its dependents; a failed warning does not", async () => {
+  const ctx: Ctx = { ran: [] };
+  const run = await runChecks(
+    [
+      check("auth", { ok: false, blockers: [{ code: "NO_AUTH", message: "not logged in" }] }),
+      check("bucket", { ok: true }, { dependsOn: ["auth"] }),
+      check("dns", { ok: false, blockers: [{ code: "NO_ZONE", message: "no zone" }] }, { severity: "warning" }),
+      check("cert", { ok: true }, { dependsOn: ["dns"] }),
+    ],
+    ctx
+  );
+  assert.deepEqual(statuses(run.records), { auth: "failed", bucket: "skipped", dns: "failed", cert: "passed" });
+  assert.equal(run.records.find((r) => r.id === "bucket")?.reason, "dependency auth failed");
+  assert.deepEqual(run.blockers, [{ code: "NO_AUTH", message: "not logged in" }]);
+  assert.deepEqual(run.remediation, [{ message: "⚠️  no zone" }]);
+  assert.equal(run.partial, true);
+  assert.deepEqual(ctx.ran.sort(), ["auth", "cert", "dns"]);
+});
+
+test("a not-applicable check lets its dependents run; a skipped one holds them back", async () => {
+  const run = await runChecks(
+    [
+      check("cluster", { ok: true }, { skipWhen: "No existing cluster" }),
+      check("addons", { ok: true }, { dependsOn: ["cluster"] }),
+      check("quota", { ok: true }),
+      check("capacity", { ok: true }, { dependsOn: ["quota"] }),
+    ],
+    { ran: [] },
+    { skip: ["quota"] }
+  );
+  assert.deepEqual(statuses(run.records), {
+    cluster: "not-applicable",
+    addons: "passed",
+    quota: "skipped",
+    capacity: "skipped",
+  });
+  assert.equal(run.records.find((r) => r.id === "cluster")?.reason, "No existing cluster");
+  assert.equal(run.records.find((r) => r.id === "capacity")?.reason, "dependency quota was skipped");
+  assert.equal(run.partial, true);
+});
+
+test("--only selects the named checks and everything they depend on", async () => {
+  const ctx: Ctx = { ran: [] };
+  const run = await runChecks(
+    [check("auth", { ok: true }), check("bucket", { ok: true }, { dependsOn: ["auth"] }), check("dns", { ok: true })],
+    ctx,
+    { only: ["bucket"] }
+  );
+  assert.deepEqual(statuses(run.records), { auth: "passed", bucket: "passed", dns: "skipped" });
+  assert.deepEqual(ctx.ran.sort(), ["auth", "bucket"]);
+});
+
+test("unknown check ids are a blocker and nothing runs", async () => {
+  const ctx: Ctx = { ran: [] };
+  const run = await runChecks([check("auth", { ok: true })], ctx, { skip: ["autth"] });
+  assert.equal(run.blockers[0].code, "UNKNOWN_CHECK");
+  assert.deepEqual(run.records, []);
+  assert.deepEqual(ctx.ran, []);
+});
+
+test("a check that throws fails with CHECK_ERROR", async () => {
+  const throwing: PreflightCheck<Ctx> = {
+    ...check("auth", { ok: true }),
+    run: async () => {
+      throw new Error("boom");
+    },
+  };
+  const run = await runChecks([throwing], { ran: [] });
+  assert.equal(run.records[0].status, "failed");
+  assert.equal(run.blockers[0].code, "CHECK_ERROR");
+  assert.match(run.blockers[0].message, /boom/);
+});
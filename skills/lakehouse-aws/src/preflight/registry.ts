@@ -0,0 +1,154 @@
+export type Blocker = { code: string; message: string };
+export type Remediation = { message: string };
+
+/**
+ * blocker: a failure fails the preflight and skips dependents.
+ * warning: findings are reported as remediation only and dependents still run.
+ */
+export type CheckSeverity = "blocker" | "warning";
+
+export type CheckOutcome = {
+  ok: boolean;
+  blockers?: Blocker[];
+  remediation?: Remediation[];
+};
+
+export type PreflightCheck<Ctx> = {
+  id: string;
+  title: string;
+  dependsOn: string[];
+  severity: CheckSeverity;
+  /** Reason the check does not apply to these inputs, or null to run it */
+  skipWhen?: (ctx: Ctx) => string | null;
+  run: (ctx: Ctx) => Promise<CheckOutcome>;
+};
+
+export type CheckRecord = {
+  id: string;
+  title: string;
+  /** not-applicable checks (skipWhen) do not hold back their dependents; skipped ones do */
+  status: "passed" | "failed" | "skipped" | "not-applicable";
+  severity: CheckSeverity;
+  durationMs: number;
+  reason?: string;
+  /** What the check reported, so reports can attribute findings to it */
+  blockers?: Blocker[];
+  remediation?: Remediation[];
+};
+
+export type CheckSelection = { only?: string[]; skip?: string[] };
+
+export type CheckRun = {
+  records: CheckRecord[];
+  blockers: Blocker[];
+  remediation: Remediation[];
+  /** True when a blocker-severity check did not run (--only/--skip or a skipped dependency) */
+  partial: boolean;
+};
+
+/**
+ * Ids selected by --only (plus everything they depend on) minus --skip
+ */
+function selectChecks<Ctx>(checks: PreflightCheck<Ctx>[], selection: CheckSelection): Set<string> {
+  const byId = new Map(checks.map((c) => [c.id, c]));
+  const selected = new Set<string>();
+  const add = (id: string) => {
+    if (selected.has(id)) return;
+    selected.add(id);
+    byId.get(id)?.dependsOn.forEach(add);
+  };
+  (selection.only?.length ? selection.only : checks.map((c) => c.id)).forEach(add);
+  selection.skip?.forEach((id) => selected.delete(id));
+  return selected;
+}
+
+/**
+ * Run checks concurrently, each as soon as its dependencies have finished.
+ * A check whose blocker dependency failed, or whose dependency was skipped,
+ * is skipped with the reason.
+ */
+export async function runChecks<Ctx>(
+  checks: PreflightCheck<Ctx>[],
+  ctx: Ctx,
+  selection: CheckSelection = {}
+): Promise<CheckRun> {
+  const blockers: Blocker[] = [];
+  const remediation: Remediation[] = [];
+  const outcomes = new Map<string, CheckOutcome>();
+
+  const known = new Set(checks.map((c) => c.id));
+  const unknown = [...(selection.only ?? []), ...(selection.skip ?? [])].filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    blockers.push({
+      code: "UNKNOWN_CHECK",
+      message: `Unknown check id(s): ${unknown.join(", ")}. Known checks: ${[...known].join(", ")}`,
+    });
+    return { records: [], blockers, remediation, partial: true };
+  }
+
+  const selected = selectChecks(checks, selection);
+  const byId = new Map(checks.map((c) => [c.id, c]));
+  const pending = new Map<string, Promise<CheckRecord>>();
+
+  const runOne = (check: PreflightCheck<Ctx>): Promise<CheckRecord> => {
+    let p = pending.get(check.id);
+    if (p) return p;
+    p = (async (): Promise<CheckRecord> => {
+      const skipped = (reason: string): CheckRecord => ({
+        id: check.id,
+        title: check.title,
+        status: "skipped",
+        severity: check.severity,
+        durationMs: 0,
+        reason,
+      });
+      if (!selected.has(check.id)) return skipped("not selected (--only/--skip)");
+
+      const deps = await Promise.all(check.dependsOn.map((id) => runOne(byId.get(id)!)));
+      const blocking = deps.find((d) => d.status === "failed" && d.severity === "blocker");
+      if (blocking) return skipped(`dependency ${blocking.id} failed`);
+      const missing = deps.find((d) => d.status === "skipped");
+      if (missing) return skipped(`dependency ${missing.id} was skipped`);
+
+      const notApplicable = check.skipWhen?.(ctx);
+      if (notApplicable) return { ...skipped(notApplicable), status: "not-applicable" };
+
+      const started = Date.now();
+      let outcome: CheckOutcome;
+      try {
+        outcome = await check.run(ctx);
+      } catch (err) {
+        outcome = { ok: false, blockers: [{ code: "CHECK_ERROR", message: `${check.title} check threw: ${String(err)}` }] };
+      }
+      const durationMs = Date.now() - started;
+      outcomes.set(check.id, outcome);
+      return {
+        id: check.id,
+        title: check.title,
+        status: outcome.ok ? "passed" : "failed",
+        severity: check.severity,
+        durationMs,
+        ...(outcome.blockers?.length ? { blockers: outcome.blockers } : {}),
+        ...(outcome.remediation?.length ? { remediation: outcome.remediation } : {}),
+      };
+    })();
+    pending.set(check.id, p);
+    return p;
+  };
+
+  const records = await Promise.all(checks.map(runOne));
+
+  // Merge findings in registry order so output does not depend on timing
+  for (const check of checks) {
+    const outcome = outcomes.get(check.id);
+    if (!outcome) continue;
+    if (check.severity === "blocker") {
+      blockers.push(...(outcome.blockers ?? []));
+    } else {
+      remediation.push(...(outcome.blockers ?? []).map((b) => ({ message: `⚠️  ${b.message}` })));
+    }
+    remediation.push(...(outcome.remediation ?? []));
+  }
+  const partial = records.some((r) => r.severity === "blocker" && r.status === "skipped");
+  return { records, blockers, remediation, partial };
+}
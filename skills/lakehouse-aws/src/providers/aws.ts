@@ -0,0 +1,61 @@
+import { PreflightInput, PreflightInputSchema, execModeFromArg } from "../schema.js";
+import { AwsPreflightEvidence, runPreflight } from "../skill.js";
+import { OptionSpec, inputFromFlags } from "../config.js";
+import type { PreflightProvider } from "./index.js";
+
+/**
+ * Every PreflightInput field with its CLI flag and env key (the env file's, or LAKEHOUSE_<key>)
+ */
+export const AWS_OPTIONS: OptionSpec[] = [
+  { flag: "profile", field: "awsProfile", envKey: "AWS_PROFILE", kind: "string" },
+  { flag: "region", field: "awsRegion", envKey: "AWS_REGION", kind: "string" },
+  { flag: "cluster", field: "clusterName", envKey: "CLUSTER_NAME", kind: "string" },
+  { flag: "bucket", field: "s3Bucket", envKey: "S3_BUCKET", kind: "string" },
+  { flag: "bucket-policy", field: "bucketPolicy", envKey: "BUCKET_POLICY", kind: "string" },
+  { flag: "root-domain", field: "rootDomain", envKey: "ROOT_DOMAIN", kind: "string" },
+  // optional - will be constructed from rootDomain if not provided
+  { flag: "domain", field: "siteDomain", envKey: "SITE_DOMAIN", kind: "string" },
+  { flag: "cert-arn", field: "certArn", envKey: "CERT_ARN", kind: "string" },
+  { flag: "request-cert", field: "requestCert", envKey: "REQUEST_CERT", kind: "boolean" },
+  { flag: "request-cert-wildcard", field: "requestCertWildcard", envKey: "REQUEST_CERT_WILDCARD", kind: "boolean" },
+  { flag: "cert-wait", field: "certWaitSeconds", envKey: "CERT_WAIT_SECONDS", kind: "string" },
+  { flag: "cert-expiry-days", field: "certExpiryWarnDays", envKey: "CERT_EXPIRY_WARN_DAYS", kind: "string" },
+  { flag: "namespace", field: "namespace", envKey: "NAMESPACE", kind: "string" },
+  { flag: "node-type", field: "nodeType", envKey: "NODE_TYPE", kind: "string" },
+  { flag: "node-count", field: "nodeCount", envKey: "NODE_COUNT", kind: "string" },
+  { flag: "ingest-gb-per-day", field: "ingestGbPerDay", envKey: "INGEST_GB_PER_DAY", kind: "string" },
+  { flag: "retention-days", field: "retentionDays", envKey: "RETENTION_DAYS", kind: "string" },
+  { flag: "price-table", field: "priceTable", envKey: "PRICE_TABLE", kind: "string" },
+  { flag: "output-env", field: "outputEnvPath", envKey: "OUTPUT_ENV", kind: "string" },
+  { flag: "write-env", field: "writeEnvFile", envKey: "WRITE_ENV", kind: "boolean" },
+  { flag: "overwrite-env", field: "overwriteEnv", envKey: "OVERWRITE_ENV", kind: "boolean" },
+  { flag: "env-format", field: "envFormats", envKey: "ENV_FORMATS", kind: "list" },
+  { flag: "dns-check", field: "dnsCheck", envKey: "DNS_CHECK", kind: "boolean" },
+  { flag: "approve", field: "approve", envKey: "APPROVE", kind: "boolean", cliOnly: true },
+  { flag: "exec", field: "execMode", envKey: "EXEC_MODE", kind: "string", parse: execModeFromArg },
+  { flag: "cassette", field: "cassette", envKey: "CASSETTE", kind: "string" },
+  { flag: "docker-image", field: "dockerImage", envKey: "DOCKER_IMAGE", kind: "string" },
+  { flag: "chart-source", field: "chartSource", envKey: "CHART_SOURCE", kind: "string" },
+  { flag: "only", field: "only", envKey: "ONLY", kind: "list" },
+  { flag: "skip", field: "skip", envKey: "SKIP", kind: "list" },
+  { flag: "has-billing", field: "readiness.hasBilling", envKey: "PREFLIGHT_HAS_BILLING", kind: "boolean" },
+  // Unset unless given so IAM simulation decides; the env file's PREFLIGHT_HAS_ADMIN is that result, not read back
+  { flag: "has-admin", field: "readiness.hasAdmin", envKey: "HAS_ADMIN", kind: "boolean" },
+  { flag: "has-dns", field: "readiness.hasDns", envKey: "PREFLIGHT_HAS_DNS", kind: "boolean" },
+];
+
+/**
+ * Map CLI args -> PreflightInputSchema fields
+ */
+export function awsInputFromArgs(args: Record<string, string>) {
+  return inputFromFlags(AWS_OPTIONS, args);
+}
+
+export const awsProvider: PreflightProvider<PreflightInput, AwsPreflightEvidence> = {
+  id: "aws",
+  schema: PreflightInputSchema,
+  options: AWS_OPTIONS,
+  defaultEnvFile: "./lakehouse-aws.env",
+  runPreflight,
+  supportsInstall: true,
+};
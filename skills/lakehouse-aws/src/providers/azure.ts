@@ -0,0 +1,295 @@
+import { AzurePreflightInput, AzurePreflightInputSchema } from "../schema.js";
+import type { PreflightResult } from "../skill.js";
+import type { PreflightProvider } from "./index.js";
+import { digA } from "../tools/dns.js";
+import { writeArtifacts } from "../artifacts.js";
+import { checkDockerAvailable } from "../steps/checks.js";
+import { longestSuffixZone } from "../steps/zones.js";
+import { AZURE_OPTIONS, azurePreflightEnv } from "./azureConfig.js";
+import {
+  checkStorageAccountName,
+  listDnsZones,
+  listVmSkus,
+  listVmUsage,
+  showAccount,
+  showAksCluster,
+  showProvider,
+  showResourceGroup,
+  showStorageAccount,
+} from "../tools/az.js";
+import { log } from "../log.js";
+
+export type AzurePreflightEvidence = {
+  subscriptionId?: string;
+  subscriptionName?: string;
+  tenantId?: string;
+  user?: string;
+  dockerVersion?: string;
+  providerRegistration?: Record<string, string>;
+  resourceGroupExists?: boolean;
+  resourceGroupLocation?: string;
+  aksClusterStatus?: string;
+  aksPowerState?: string;
+  storageAccountExists?: boolean;
+  storageAccountNameAvailable?: boolean;
+  dnsZoneName?: string;
+  dnsZoneResourceGroup?: string;
+  dnsARecord?: string | null;
+  vmSku?: { name: string; family: string; vCpus: number; available: boolean };
+  quota?: {
+    requiredVCpus: number;
+    regionalAvailable?: number;
+    familyAvailable?: number;
+  };
+};
+
+const REQUIRED_PROVIDERS = ["Microsoft.ContainerService", "Microsoft.Network", "Microsoft.Storage"];
+
+export async function runAzurePreflight(
+  input: AzurePreflightInput
+): Promise<PreflightResult<AzurePreflightEvidence>> {
+  const blockers: PreflightResult["blockers"] = [];
+  const remediation: PreflightResult["remediation"] = [];
+  const evidence: AzurePreflightEvidence = {};
+  const sub = input.subscription;
+
+  if (input.execMode === "docker") {
+    const dockerCheck = await checkDockerAvailable();
+    if (!dockerCheck.ok) {
+      blockers.push({
+        code: "DOCKER_NOT_READY",
+        message: "Docker is required in docker execution mode but is not available.",
+      });
+      remediation.push({ message: "Install Docker Desktop and ensure it's running, or use --exec local." });
+      return {
+        okToInstall: false,
+        blockers,
+        remediation,
+        env: {},
+        evidence,
+        next: { action: "stop", reason: "Docker is not available. Install Docker or use --exec local." },
+      };
+    }
+    evidence.dockerVersion = dockerCheck.version;
+  }
+
+  // Subscription auth gates everything else, like AWS auth does
+  const account = await showAccount(sub);
+  const tenantLevelOnly = account.ok && /tenant level account/i.test(account.data?.name ?? "");
+  if (!account.ok || tenantLevelOnly || account.data?.state !== "Enabled") {
+    if (!account.ok) {
+      blockers.push({ code: "AZ_NOT_LOGGED_IN", message: `Azure CLI is not logged in: ${account.error}` });
+      remediation.push({ message: "Run: az login" });
+    } else if (tenantLevelOnly) {
+      blockers.push({
+        code: "AZ_NO_SUBSCRIPTION",
+        message: "You are logged in with tenant-level access only; no subscription is available.",
+      });
+      remediation.push({ message: "Create a subscription or ask for Owner/Contributor on an existing one, then: az account set --subscription <name-or-id>" });
+    } else {
+      blockers.push({
+        code: "AZ_SUBSCRIPTION_DISABLED",
+        message: `Subscription ${account.data?.name} is ${account.data?.state}.`,
+      });
+      remediation.push({ message: "Select an enabled subscription: az account set --subscription <name-or-id>" });
+    }
+    return {
+      okToInstall: false,
+      blockers,
+      remediation,
+      env: {},
+      evidence,
+      next: { action: "stop", reason: "Azure authentication required. Run 'az login' and select a subscription first." },
+    };
+  }
+
+  evidence.subscriptionId = account.data.id;
+  evidence.subscriptionName = account.data.name;
+  evidence.tenantId = account.data.tenantId;
+  evidence.user = account.data.user?.name;
+  log.info(`\n✓ Azure subscription: ${account.data.name} (${account.data.id})`);
+
+  // Resource provider registration
+  evidence.providerRegistration = {};
+  for (const ns of REQUIRED_PROVIDERS) {
+    const p = await showProvider(ns, sub);
+    const state = p.ok ? p.data?.registrationState ?? "Unknown" : "Error";
+    evidence.providerRegistration[ns] = state;
+    if (state !== "Registered") {
+      blockers.push({ code: "AZ_PROVIDER_NOT_REGISTERED", message: `Resource provider ${ns} is ${state}.` });
+      remediation.push({ message: `az provider register -n ${ns} (registration takes 1-5 minutes)` });
+    }
+  }
+
+  // Resource group
+  const rg = await showResourceGroup(input.resourceGroup, sub);
+  evidence.resourceGroupExists = rg.ok;
+  if (rg.ok) {
+    evidence.resourceGroupLocation = rg.data?.location;
+    if (rg.data?.location && rg.data.location !== input.location) {
+      log.warn(
+        `\n⚠️  Resource group ${input.resourceGroup} is in ${rg.data.location}; resources will be created in ${input.location}`
+      );
+    }
+  } else if (!rg.notFound) {
+    blockers.push({ code: "AZ_RESOURCE_GROUP_CHECK_FAILED", message: `Failed to query resource group: ${rg.error}` });
+  }
+
+  // AKS cluster
+  if (rg.ok) {
+    const aks = await showAksCluster(input.resourceGroup, input.clusterName, sub);
+    if (aks.ok) {
+      evidence.aksClusterStatus = aks.data?.provisioningState;
+      evidence.aksPowerState = aks.data?.powerState?.code;
+      if (aks.data?.provisioningState === "Failed") {
+        blockers.push({
+          code: "AKS_CLUSTER_FAILED",
+          message: `AKS cluster ${input.clusterName} exists but is in Failed state.`,
+        });
+        remediation.push({ message: `Delete it (az aks delete -g ${input.resourceGroup} -n ${input.clusterName}) or choose another --cluster name.` });
+      }
+    } else if (aks.notFound) {
+      evidence.aksClusterStatus = "NOT_FOUND";
+    } else {
+      blockers.push({ code: "AKS_CHECK_FAILED", message: `Failed to query AKS: ${aks.error}` });
+    }
+  } else {
+    evidence.aksClusterStatus = "NOT_FOUND";
+  }
+
+  // Blob storage account: names are global, so "taken" only matters if it is not ours
+  if (!/^[a-z0-9]{3,24}$/.test(input.storageAccountName)) {
+    blockers.push({
+      code: "AZ_INVALID_STORAGE_ACCOUNT_NAME",
+      message: `Storage account name "${input.storageAccountName}" must be 3-24 lowercase letters and numbers.`,
+    });
+    remediation.push({ message: "Provide a valid name with: --storage-account <name>" });
+  } else {
+    const own = rg.ok ? await showStorageAccount(input.resourceGroup, input.storageAccountName, sub) : null;
+    evidence.storageAccountExists = !!own?.ok;
+    if (!own?.ok) {
+      const check = await checkStorageAccountName(input.storageAccountName, sub);
+      evidence.storageAccountNameAvailable = check.ok ? check.data?.nameAvailable : undefined;
+      if (check.ok && check.data?.nameAvailable === false) {
+        blockers.push({
+          code: "AZ_STORAGE_NAME_TAKEN",
+          message: `Storage account name "${input.storageAccountName}" is taken (${check.data?.reason ?? "unavailable"}) and not in ${input.resourceGroup}.`,
+        });
+        remediation.push({ message: "Storage account names are globally unique. Choose another with: --storage-account <name>" });
+      }
+    }
+  }
+
+  // Azure DNS zone for the site domain
+  if (input.siteDomain) {
+    const zones = await listDnsZones(sub);
+    const zone = zones.ok ? longestSuffixZone(input.siteDomain, zones.data ?? [], (z) => z.name) : null;
+    if (zone) {
+      evidence.dnsZoneName = zone.name;
+      evidence.dnsZoneResourceGroup = zone.resourceGroup;
+      log.info(`\n✓ Azure DNS zone found: ${zone.name} (resource group ${zone.resourceGroup})`);
+    } else if (zones.ok) {
+      log.warn(`\n⚠️  No Azure DNS zone found for ${input.siteDomain}`);
+      log.info(`   You'll need to manually configure DNS records (see lakehouse-azure/AZURE_DNS_SETUP.md).`);
+    }
+    if (input.dnsCheck) {
+      const d = await digA(input.siteDomain);
+      if (d.ok) evidence.dnsARecord = d.ip;
+    }
+  }
+
+  // VM SKU availability and vCPU quota (node count plus one node of surge buffer)
+  let hasQuota: "yes" | "no" | "unsure" = "unsure";
+  const skus = await listVmSkus(input.location, input.nodeVmSize, sub);
+  const sku = skus.ok
+    ? (skus.data ?? []).find((s) => String(s.name).toLowerCase() === input.nodeVmSize.toLowerCase())
+    : undefined;
+  if (skus.ok && !sku) {
+    blockers.push({
+      code: "AZ_VM_SIZE_UNAVAILABLE",
+      message: `VM size ${input.nodeVmSize} is not offered in ${input.location}.`,
+    });
+    remediation.push({ message: `List available sizes: az vm list-sizes --location ${input.location} -o table` });
+  } else if (sku) {
+    const vCpus = Number(sku.capabilities?.find((c) => c.name === "vCPUs")?.value ?? 2);
+    const restricted = (sku.restrictions ?? []).some((r) => r.type === "Location");
+    evidence.vmSku = { name: sku.name, family: sku.family, vCpus, available: !restricted };
+    if (restricted) {
+      blockers.push({
+        code: "AZ_VM_SIZE_RESTRICTED",
+        message: `VM size ${sku.name} is restricted for this subscription in ${input.location}.`,
+      });
+      remediation.push({ message: "Pick another --node-vm-size (e.g. standard_dc2ds_v3 or standard_dc4s_v3) or request access via a support ticket." });
+    }
+
+    const required = input.nodeCount * vCpus + vCpus;
+    evidence.quota = { requiredVCpus: required };
+    const usage = await listVmUsage(input.location, sub);
+    if (usage.ok) {
+      const available = (key: string) => {
+        const u = (usage.data ?? []).find((x) => x.name?.value === key);
+        return u ? Number(u.limit) - Number(u.currentValue) : undefined;
+      };
+      evidence.quota.regionalAvailable = available("cores");
+      evidence.quota.familyAvailable = available(sku.family);
+
+      const shortfalls = [
+        ["Total Regional vCPUs", evidence.quota.regionalAvailable],
+        [`${sku.family} vCPUs`, evidence.quota.familyAvailable],
+      ].filter(([, avail]) => avail !== undefined && (avail as number) < required);
+      hasQuota = shortfalls.length === 0 ? "yes" : "no";
+      for (const [name, avail] of shortfalls) {
+        blockers.push({
+          code: "AZ_INSUFFICIENT_QUOTA",
+          message: `${name}: ${avail} available in ${input.location}, ${required} required (${input.nodeCount} node(s) + surge buffer).`,
+        });
+      }
+      if (shortfalls.length > 0) {
+        remediation.push({ message: "Request a quota increase: https://portal.azure.com/#view/Microsoft_Azure_Capacity/QuotaMenuBlade/~/overview" });
+        remediation.push({ message: "Or free quota / use a different --location." });
+      }
+    } else {
+      log.warn(`\n⚠️  Unable to query vCPU quota (${usage.error}). Cluster creation may fail on quota.`);
+    }
+  }
+
+  if (!input.readiness.hasBilling) blockers.push({ code: "NO_BILLING", message: "Billing must be enabled to create AKS/Storage resources." });
+  if (!input.readiness.hasOwner) blockers.push({ code: "NO_OWNER", message: "Owner or Contributor permissions are required (AKS, Storage, Managed Identities)." });
+  if (input.siteDomain && !input.readiness.hasDns) blockers.push({ code: "NO_DNS", message: `You must control DNS for ${input.siteDomain}.` });
+
+  const env = azurePreflightEnv(input, evidence, hasQuota);
+
+  let okToInstall = blockers.length === 0;
+  if (input.writeEnvFile && okToInstall) {
+    const w = await writeArtifacts({
+      env,
+      envPath: input.outputEnvPath,
+      formats: ["bash"],
+      overwrite: input.overwriteEnv,
+      generator: "Lakehouse preflight skill (azure provider)",
+    });
+    blockers.push(...w.blockers);
+    remediation.push(...w.remediation);
+  }
+  okToInstall = blockers.length === 0;
+
+  return {
+    okToInstall,
+    blockers,
+    remediation,
+    env,
+    evidence,
+    next: okToInstall
+      ? { action: "install", reason: `Preflight passed. source ${input.outputEnvPath} and run the datalake/azure setup scripts.` }
+      : { action: "stop", reason: "Resolve blockers." },
+  };
+}
+
+export const azureProvider: PreflightProvider<AzurePreflightInput, AzurePreflightEvidence> = {
+  id: "azure",
+  schema: AzurePreflightInputSchema,
+  options: AZURE_OPTIONS,
+  defaultEnvFile: "./ingext-datalake-azure.env",
+  runPreflight: runAzurePreflight,
+  supportsInstall: false,
+};
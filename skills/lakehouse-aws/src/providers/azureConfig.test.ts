@@ -0,0 +1,128 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AzurePreflightInputSchema } from "../schema.js";
+import { parseArgv, resolveConfig } from "../config.js";
+import { AZURE_OPTIONS, azureInputFromArgs, azurePreflightEnv } from "./azureConfig.js";
+
+test("maps the azure flags onto the input schema", () => {
+  const input = AzurePreflightInputSchema.parse(
+    azureInputFromArgs({
+      subscription: "sub-1",
+      location: "westeurope",
+      "resource-group": "lake-rg",
+      cluster: "Lake-1",
+      "node-count": "3",
+      "node-vm-size": "Standard_D4s_v3",
+      "storage-account": "Lake_Store",
+      container: "logs",
+      "expire-days": "90",
+      domain: "lake.example.com",
+      "cert-email": "ops@example.com",
+      "write-env": "false",
+      "overwrite-env": "true",
+      exec: "replay",
+      cassette: "azure.json",
+      "has-owner": "false",
+    })
+  );
+  assert.equal(input.subscription, "sub-1");
+  assert.equal(input.location, "westeurope");
+  assert.equal(input.resourceGroup, "lake-rg");
+  assert.equal(input.clusterName, "Lake-1");
+  assert.equal(input.nodeCount, 3);
+  assert.equal(input.nodeVmSize, "Standard_D4s_v3");
+  assert.equal(input.storageAccountName, "lakestore");
+  assert.equal(input.containerName, "logs");
+  assert.equal(input.expireDays, 90);
+  assert.equal(input.siteDomain, "lake.example.com");
+  assert.equal(input.certEmail, "ops@example.com");
+  assert.equal(input.writeEnvFile, false);
+  assert.equal(input.overwriteEnv, true);
+  assert.equal(input.execMode, "replay");
+  assert.equal(input.cassette, "azure.json");
+  assert.deepEqual(input.readiness, { hasBilling: true, hasOwner: false, hasDns: true });
+});
+
+test("without flags the schema defaults apply", () => {
+  const input = AzurePreflightInputSchema.parse(azureInputFromArgs({}));
+  assert.equal(input.location, "eastus");
+  assert.equal(input.resourceGroup, "ingext-datalake-rg");
+  assert.equal(input.nodeVmSize, "standard_dc2s_v3");
+  assert.equal(input.writeEnvFile, true);
+  assert.equal(input.overwriteEnv, false);
+  assert.equal(input.execMode, "local");
+});
+
+test("writes the keys preflight-azure-datalake.sh exports, with its node pool sizes", () => {
+  const input = AzurePreflightInputSchema.parse(azureInputFromArgs({ cluster: "lake", "node-count": "2" }));
+  const env = azurePreflightEnv(input, { subscriptionId: "sub-1", tenantId: "tenant-1" }, "yes");
+  assert.deepEqual(env, {
+    SUBSCRIPTION_ID: "sub-1",
+    TENANT_ID: "tenant-1",
+    RESOURCE_GROUP: "ingext-datalake-rg",
+    LOCATION: "eastus",
+    CLUSTER_NAME: "lake",
+    NODE_COUNT: "2",
+    NODE_VM_SIZE: "standard_dc2s_v3",
+    STORAGE_ACCOUNT_NAME: "ingextdatalake",
+    CONTAINER_NAME: "datalake",
+    EXPIRE_DAYS: "30",
+    NAMESPACE: "ingext",
+    MERGE_VM_SIZE: "Standard_D4s_v3",
+    SEARCH_VM_SIZE: "Standard_D4s_v3",
+    PREFLIGHT_HAS_BILLING: "yes",
+    PREFLIGHT_HAS_OWNER: "yes",
+    PREFLIGHT_HAS_QUOTA: "yes",
+    PREFLIGHT_HAS_STORAGE: "yes",
+  });
+});
+
+test("the site domain and certificate email are only written when given", () => {
+  const input = AzurePreflightInputSchema.parse(
+    azureInputFromArgs({ domain: "lake.example.com", "cert-email": "ops@example.com", "has-billing": "false" })
+  );
+  const env = azurePreflightEnv(input, {}, "unsure");
+  assert.equal(env.SITE_DOMAIN, "lake.example.com");
+  assert.equal(env.CERT_EMAIL, "ops@example.com");
+  assert.equal(env.SUBSCRIPTION_ID, "");
+  assert.equal(env.PREFLIGHT_HAS_BILLING, "no");
+  assert.equal(env.PREFLIGHT_HAS_QUOTA, "unsure");
+});
+
+test("the env file preflight wrote is read back, yes/no answers included, and flags override it", async () => {
+  const envFile = join(mkdtempSync(join(tmpdir(), "azure-")), "ingext-datalake-azure.env");
+  const input = AzurePreflightInputSchema.parse(azureInputFromArgs({ cluster: "lake", "has-owner": "false" }));
+  const written = azurePreflightEnv(input, { subscriptionId: "sub-1" }, "yes");
+  writeFileSync(envFile, Object.entries(written).map(([k, v]) => `export ${k}="${v}"`).join("\n"));
+
+  const resolved = await resolveConfig({
+    options: AZURE_OPTIONS,
+    argv: parseArgv(["--provider", "azure", "--location", "westus2"]),
+    env: {},
+    defaultEnvFile: envFile,
+  });
+  assert.ok(resolved.ok);
+  const reread = AzurePreflightInputSchema.parse(resolved.raw);
+  assert.equal(reread.subscription, "sub-1");
+  assert.equal(reread.clusterName, "lake");
+  assert.equal(reread.location, "westus2");
+  assert.deepEqual(reread.readiness, { hasBilling: true, hasOwner: false, hasDns: true });
+  assert.deepEqual(resolved.sources.location, { layer: "cli", from: "--location" });
+});
+
+test("flags and LAKEHOUSE_ variables the azure input does not have are rejected", async () => {
+  const resolved = await resolveConfig({
+    options: AZURE_OPTIONS,
+    argv: parseArgv(["--provider", "azure", "--resource-grup", "rg"]),
+    env: { LAKEHOUSE_AWS_PROFILE: "dev" },
+    defaultEnvFile: "/nonexistent/ingext-datalake-azure.env",
+  });
+  assert.ok(!resolved.ok);
+  assert.deepEqual(resolved.errors, [
+    "Unknown environment variable LAKEHOUSE_AWS_PROFILE.",
+    "Unknown flag --resource-grup. Did you mean --resource-group?",
+  ]);
+});
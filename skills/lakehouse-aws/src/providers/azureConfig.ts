@@ -0,0 +1,73 @@
+import { AzurePreflightInput, execModeFromArg } from "../schema.js";
+import { OptionSpec, inputFromFlags, yesNo } from "../config.js";
+import type { AzurePreflightEvidence } from "./azure.js";
+
+// Node pool sizes preflight-azure-datalake.sh exports for setup_aks_nodepools.sh
+export const MERGE_VM_SIZE = "Standard_D4s_v3";
+export const SEARCH_VM_SIZE = "Standard_D4s_v3";
+
+/**
+ * Every AzurePreflightInput field with its CLI flag and env key (the env file's, or LAKEHOUSE_<key>)
+ */
+export const AZURE_OPTIONS: OptionSpec[] = [
+  // The env file records the subscription preflight resolved, so a re-run stays on it
+  { flag: "subscription", field: "subscription", envKey: "SUBSCRIPTION_ID", kind: "string" },
+  { flag: "location", field: "location", envKey: "LOCATION", kind: "string" },
+  { flag: "resource-group", field: "resourceGroup", envKey: "RESOURCE_GROUP", kind: "string" },
+  { flag: "cluster", field: "clusterName", envKey: "CLUSTER_NAME", kind: "string" },
+  { flag: "node-count", field: "nodeCount", envKey: "NODE_COUNT", kind: "string" },
+  { flag: "node-vm-size", field: "nodeVmSize", envKey: "NODE_VM_SIZE", kind: "string" },
+  { flag: "storage-account", field: "storageAccountName", envKey: "STORAGE_ACCOUNT_NAME", kind: "string" },
+  { flag: "container", field: "containerName", envKey: "CONTAINER_NAME", kind: "string" },
+  { flag: "expire-days", field: "expireDays", envKey: "EXPIRE_DAYS", kind: "string" },
+  { flag: "namespace", field: "namespace", envKey: "NAMESPACE", kind: "string" },
+  { flag: "domain", field: "siteDomain", envKey: "SITE_DOMAIN", kind: "string" },
+  { flag: "cert-email", field: "certEmail", envKey: "CERT_EMAIL", kind: "string" },
+  { flag: "output-env", field: "outputEnvPath", envKey: "OUTPUT_ENV", kind: "string" },
+  { flag: "write-env", field: "writeEnvFile", envKey: "WRITE_ENV", kind: "boolean" },
+  { flag: "overwrite-env", field: "overwriteEnv", envKey: "OVERWRITE_ENV", kind: "boolean" },
+  { flag: "dns-check", field: "dnsCheck", envKey: "DNS_CHECK", kind: "boolean" },
+  { flag: "exec", field: "execMode", envKey: "EXEC_MODE", kind: "string", parse: execModeFromArg },
+  { flag: "cassette", field: "cassette", envKey: "CASSETTE", kind: "string" },
+  { flag: "has-billing", field: "readiness.hasBilling", envKey: "PREFLIGHT_HAS_BILLING", kind: "boolean", parse: yesNo },
+  { flag: "has-owner", field: "readiness.hasOwner", envKey: "PREFLIGHT_HAS_OWNER", kind: "boolean", parse: yesNo },
+  { flag: "has-dns", field: "readiness.hasDns", envKey: "PREFLIGHT_HAS_DNS", kind: "boolean", parse: yesNo },
+];
+
+/**
+ * Map CLI args -> AzurePreflightInputSchema fields
+ */
+export function azureInputFromArgs(args: Record<string, string>) {
+  return inputFromFlags(AZURE_OPTIONS, args);
+}
+
+/**
+ * The env file the datalake/azure setup scripts source, with the keys preflight-azure-datalake.sh writes
+ */
+export function azurePreflightEnv(
+  input: AzurePreflightInput,
+  evidence: AzurePreflightEvidence,
+  hasQuota: "yes" | "no" | "unsure"
+): Record<string, string> {
+  return {
+    SUBSCRIPTION_ID: evidence.subscriptionId ?? "",
+    TENANT_ID: evidence.tenantId ?? "",
+    RESOURCE_GROUP: input.resourceGroup,
+    LOCATION: input.location,
+    CLUSTER_NAME: input.clusterName,
+    NODE_COUNT: String(input.nodeCount),
+    NODE_VM_SIZE: input.nodeVmSize,
+    STORAGE_ACCOUNT_NAME: input.storageAccountName,
+    CONTAINER_NAME: input.containerName,
+    EXPIRE_DAYS: String(input.expireDays),
+    NAMESPACE: input.namespace,
+    MERGE_VM_SIZE,
+    SEARCH_VM_SIZE,
+    ...(input.siteDomain ? { SITE_DOMAIN: input.siteDomain } : {}),
+    ...(input.certEmail ? { CERT_EMAIL: input.certEmail } : {}),
+    PREFLIGHT_HAS_BILLING: input.readiness.hasBilling ? "yes" : "no",
+    PREFLIGHT_HAS_OWNER: input.readiness.hasOwner ? "yes" : "no",
+    PREFLIGHT_HAS_QUOTA: hasQuota,
+    PREFLIGHT_HAS_STORAGE: "yes",
+  };
+}
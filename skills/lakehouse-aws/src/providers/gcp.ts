@@ -0,0 +1,335 @@
+import { GcpPreflightInput, GcpPreflightInputSchema } from "../schema.js";
+import type { PreflightResult } from "../skill.js";
+import type { PreflightProvider } from "./index.js";
+import { digA } from "../tools/dns.js";
+import { writeArtifacts } from "../artifacts.js";
+import { checkDockerAvailable } from "../steps/checks.js";
+import { longestSuffixZone } from "../steps/zones.js";
+import { GCP_OPTIONS } from "./gcpConfig.js";
+import {
+  describeBilling,
+  describeBucket,
+  describeGkeCluster,
+  describeMachineType,
+  describeProject,
+  describeRegion,
+  getConfiguredProject,
+  listActiveAccounts,
+  listEnabledServices,
+  listManagedSslCertificates,
+  listManagedZones,
+} from "../tools/gcloud.js";
+import { log } from "../log.js";
+
+export type GcpPreflightEvidence = {
+  account?: string;
+  projectId?: string;
+  projectNumber?: string;
+  dockerVersion?: string;
+  billingEnabled?: boolean;
+  billingAccount?: string;
+  enabledApis?: Record<string, boolean>;
+  gkeClusterStatus?: string;
+  gcsBucketExists?: boolean;
+  gcsBucketLocation?: string;
+  dnsZoneName?: string;
+  dnsZoneDnsName?: string;
+  dnsARecord?: string | null;
+  managedCertificate?: { name: string; status: string; domains: string[]; domainStatus: Record<string, string> };
+  machineType?: { name: string; zone: string; guestCpus: number; available: boolean };
+  quota?: { requiredVCpus: number; regionalAvailable?: number };
+};
+
+// APIs the GKE setup scripts rely on (check-apis.sh plus Cloud Storage for the lake bucket)
+const REQUIRED_APIS = [
+  "container.googleapis.com",
+  "compute.googleapis.com",
+  "cloudresourcemanager.googleapis.com",
+  "storage.googleapis.com",
+];
+
+const FAILED_CERT_DOMAIN_STATUS = /^FAILED/;
+
+export async function runGcpPreflight(input: GcpPreflightInput): Promise<PreflightResult<GcpPreflightEvidence>> {
+  const blockers: PreflightResult["blockers"] = [];
+  const remediation: PreflightResult["remediation"] = [];
+  const evidence: GcpPreflightEvidence = {};
+
+  if (input.execMode === "docker") {
+    const dockerCheck = await checkDockerAvailable();
+    if (!dockerCheck.ok) {
+      blockers.push({
+        code: "DOCKER_NOT_READY",
+        message: "Docker is required in docker execution mode but is not available.",
+      });
+      remediation.push({ message: "Install Docker Desktop and ensure it's running, or use --exec local." });
+      return {
+        okToInstall: false,
+        blockers,
+        remediation,
+        env: {},
+        evidence,
+        next: { action: "stop", reason: "Docker is not available. Install Docker or use --exec local." },
+      };
+    }
+    evidence.dockerVersion = dockerCheck.version;
+  }
+
+  // gcloud auth and an accessible project gate everything else
+  const accounts = await listActiveAccounts();
+  const account: string | undefined = accounts.ok ? accounts.data?.[0]?.account : undefined;
+  const projectId = input.project ?? (account ? await getConfiguredProject() : null);
+  const project = account && projectId ? await describeProject(projectId) : null;
+  if (!account || !projectId || !project?.ok || project.data?.lifecycleState !== "ACTIVE") {
+    if (!account) {
+      blockers.push({
+        code: "GCP_NOT_LOGGED_IN",
+        message: `gcloud has no active account${accounts.ok ? "" : `: ${accounts.error}`}`,
+      });
+      remediation.push({ message: "Run: gcloud auth login" });
+    } else if (!projectId) {
+      blockers.push({ code: "GCP_NO_PROJECT", message: "No GCP project selected." });
+      remediation.push({ message: "Pass --project <id> or run: gcloud config set project <id>" });
+    } else if (!project?.ok) {
+      blockers.push({
+        code: "GCP_PROJECT_NOT_ACCESSIBLE",
+        message: `Project ${projectId} ${project?.notFound ? "does not exist" : `is not accessible: ${project?.error}`}.`,
+      });
+      remediation.push({ message: "Check the project id (gcloud projects list) and that your account has access to it." });
+    } else {
+      blockers.push({
+        code: "GCP_PROJECT_INACTIVE",
+        message: `Project ${projectId} is ${project.data?.lifecycleState}.`,
+      });
+      remediation.push({ message: "Select an active project with --project <id>." });
+    }
+    return {
+      okToInstall: false,
+      blockers,
+      remediation,
+      env: {},
+      evidence: { ...evidence, account, projectId: projectId ?? undefined },
+      next: { action: "stop", reason: "GCP authentication required. Run 'gcloud auth login' and select a project first." },
+    };
+  }
+
+  evidence.account = account;
+  evidence.projectId = projectId;
+  evidence.projectNumber = project.data?.projectNumber;
+  log.info(`\n✓ GCP project: ${projectId} (${account})`);
+
+  // Billing
+  const billing = await describeBilling(projectId);
+  if (billing.ok) {
+    evidence.billingEnabled = !!billing.data?.billingEnabled;
+    evidence.billingAccount = billing.data?.billingAccountName || undefined;
+    if (!evidence.billingEnabled) {
+      blockers.push({ code: "GCP_BILLING_DISABLED", message: `Billing is not enabled for project ${projectId}.` });
+      remediation.push({ message: `Link a billing account: https://console.cloud.google.com/billing/linkedaccount?project=${projectId}` });
+    }
+  } else {
+    log.warn(`\n⚠️  Unable to check billing (${billing.error}). Continuing on --has-billing.`);
+  }
+
+  // Required APIs
+  const services = await listEnabledServices(projectId);
+  if (services.ok) {
+    const enabled = new Set<string>((services.data ?? []).map((s) => s.config?.name ?? s.name.slice(s.name.lastIndexOf("/") + 1)));
+    evidence.enabledApis = {};
+    for (const api of REQUIRED_APIS) {
+      evidence.enabledApis[api] = enabled.has(api);
+      if (!enabled.has(api)) {
+        blockers.push({ code: "GCP_API_DISABLED", message: `API ${api} is not enabled in ${projectId}.` });
+        remediation.push({ message: `gcloud services enable ${api} --project=${projectId}` });
+      }
+    }
+  } else {
+    blockers.push({ code: "GCP_API_CHECK_FAILED", message: `Failed to list enabled APIs: ${services.error}` });
+  }
+
+  // GKE cluster (regional)
+  const gke = await describeGkeCluster(input.clusterName, input.region, projectId);
+  if (gke.ok) {
+    evidence.gkeClusterStatus = gke.data?.status;
+    if (gke.data?.status === "ERROR" || gke.data?.status === "DEGRADED") {
+      blockers.push({
+        code: "GKE_CLUSTER_UNHEALTHY",
+        message: `GKE cluster ${input.clusterName} exists but is ${gke.data.status}${gke.data.statusMessage ? `: ${gke.data.statusMessage}` : ""}.`,
+      });
+      remediation.push({ message: `Delete it (gcloud container clusters delete ${input.clusterName} --region ${input.region}) or choose another --cluster name.` });
+    }
+  } else if (gke.notFound) {
+    evidence.gkeClusterStatus = "NOT_FOUND";
+  } else {
+    blockers.push({ code: "GKE_CHECK_FAILED", message: `Failed to query GKE: ${gke.error}` });
+  }
+
+  // GCS bucket: names are global, so a 403 means someone else owns it
+  const bucketName = gcsBucketName(input);
+  const bucket = await describeBucket(bucketName, projectId);
+  evidence.gcsBucketExists = bucket.ok;
+  if (bucket.ok) {
+    evidence.gcsBucketLocation = bucket.data?.location;
+  } else if (bucket.forbidden) {
+    blockers.push({
+      code: "GCS_BUCKET_NAME_TAKEN",
+      message: `Bucket gs://${bucketName} exists but is not accessible from ${projectId}.`,
+    });
+    remediation.push({ message: "Bucket names are globally unique. Choose another with: --bucket <name>" });
+  } else if (!bucket.notFound) {
+    log.warn(`\n⚠️  Unable to check bucket gs://${bucketName} (${bucket.error})`);
+  }
+
+  // Cloud DNS zone and Google-managed certificate for the site domain
+  if (input.siteDomain) {
+    const zones = await listManagedZones(projectId);
+    const publicZones = zones.ok ? (zones.data ?? []).filter((z) => z.visibility !== "private") : [];
+    const zone = longestSuffixZone(input.siteDomain, publicZones, (z) => z.dnsName);
+    if (zone) {
+      evidence.dnsZoneName = zone.name;
+      evidence.dnsZoneDnsName = zone.dnsName;
+      log.info(`\n✓ Cloud DNS zone found: ${zone.name} (${zone.dnsName})`);
+    } else if (zones.ok) {
+      log.warn(`\n⚠️  No public Cloud DNS zone found for ${input.siteDomain}`);
+      log.info(`   You'll need to point ${input.siteDomain} at the ingress IP with your DNS provider.`);
+    }
+
+    const certs = await listManagedSslCertificates(projectId);
+    const cert = certs.ok
+      ? (certs.data ?? []).find((c) =>
+          (c.managed?.domains ?? []).some((d: string) => d.toLowerCase() === input.siteDomain!.toLowerCase())
+        )
+      : undefined;
+    if (cert) {
+      evidence.managedCertificate = {
+        name: cert.name,
+        status: cert.managed?.status ?? "UNKNOWN",
+        domains: cert.managed?.domains ?? [],
+        domainStatus: cert.managed?.domainStatus ?? {},
+      };
+      const failed = Object.entries(evidence.managedCertificate.domainStatus).filter(([, s]) =>
+        FAILED_CERT_DOMAIN_STATUS.test(s)
+      );
+      if (failed.length > 0) {
+        blockers.push({
+          code: "GCP_MANAGED_CERT_FAILED",
+          message: `Managed certificate ${cert.name} failed provisioning: ${failed.map(([d, s]) => `${d}=${s}`).join(", ")}.`,
+        });
+        remediation.push({ message: `Point ${input.siteDomain} at the load balancer IP, then recreate the certificate: gcloud compute ssl-certificates delete ${cert.name}` });
+      } else if (evidence.managedCertificate.status === "ACTIVE") {
+        log.info(`\n✓ Managed certificate ${cert.name} is ACTIVE`);
+      } else {
+        log.info(`\n⏳ Managed certificate ${cert.name} is ${evidence.managedCertificate.status}`);
+      }
+    } else if (!input.certEmail) {
+      log.warn(`\n⚠️  No managed certificate for ${input.siteDomain} and no --cert-email for cert-manager.`);
+    }
+
+    if (input.dnsCheck) {
+      const d = await digA(input.siteDomain);
+      if (d.ok) evidence.dnsARecord = d.ip;
+    }
+  }
+
+  // Machine type in the zone and regional CPU quota (nodes are per zone in a regional cluster)
+  let hasQuota: "yes" | "no" | "unsure" = "unsure";
+  const zoneName = input.zone ?? `${input.region}-a`;
+  const mt = await describeMachineType(input.machineType, zoneName, projectId);
+  if (!mt.ok && mt.notFound) {
+    blockers.push({
+      code: "GCP_MACHINE_TYPE_UNAVAILABLE",
+      message: `Machine type ${input.machineType} is not offered in ${zoneName}.`,
+    });
+    remediation.push({ message: `List available types: gcloud compute machine-types list --zones=${zoneName}` });
+  } else if (mt.ok) {
+    const guestCpus = Number(mt.data?.guestCpus ?? 0);
+    evidence.machineType = { name: input.machineType, zone: zoneName, guestCpus, available: true };
+
+    const region = await describeRegion(input.region, projectId);
+    if (region.ok) {
+      const zoneCount = (region.data?.zones ?? []).length || 3;
+      const required = input.nodeCount * zoneCount * guestCpus;
+      const cpus = (region.data?.quotas ?? []).find((q) => q.metric === "CPUS");
+      evidence.quota = {
+        requiredVCpus: required,
+        regionalAvailable: cpus ? Number(cpus.limit) - Number(cpus.usage) : undefined,
+      };
+      if (evidence.quota.regionalAvailable !== undefined) {
+        hasQuota = evidence.quota.regionalAvailable >= required ? "yes" : "no";
+        if (hasQuota === "no") {
+          blockers.push({
+            code: "GCP_INSUFFICIENT_QUOTA",
+            message: `CPUS: ${evidence.quota.regionalAvailable} available in ${input.region}, ${required} required (${input.nodeCount} node(s) x ${zoneCount} zones).`,
+          });
+          remediation.push({ message: `Request a quota increase: https://console.cloud.google.com/iam-admin/quotas?project=${projectId}` });
+          remediation.push({ message: "Or lower --node-count / use a smaller --machine-type." });
+        }
+      }
+    } else {
+      log.warn(`\n⚠️  Unable to query CPU quota (${region.error}). Cluster creation may fail on quota.`);
+    }
+  } else {
+    log.warn(`\n⚠️  Unable to check machine type ${input.machineType} (${mt.error})`);
+  }
+
+  if (!input.readiness.hasBilling) blockers.push({ code: "NO_BILLING", message: "Billing must be enabled to create GKE/GCS resources." });
+  if (!input.readiness.hasOwner) blockers.push({ code: "NO_OWNER", message: "Owner or Editor permissions are required (GKE, GCS, service accounts)." });
+  if (input.siteDomain && !input.readiness.hasDns) blockers.push({ code: "NO_DNS", message: `You must control DNS for ${input.siteDomain}.` });
+
+  const env: Record<string, string> = {
+    PROJECT_ID: projectId,
+    REGION: input.region,
+    CLUSTER_NAME: input.clusterName,
+    NODE_COUNT: String(input.nodeCount),
+    MACHINE_TYPE: input.machineType,
+    DISK_SIZE: String(input.diskSize),
+    NAMESPACE: input.namespace,
+    GCS_BUCKET: bucketName,
+    GSA_NAME: input.gsaName ?? `${input.namespace}-gsa`,
+    SA_NAME: input.saName ?? `${input.namespace}-sa`,
+    ...(input.siteDomain ? { SITE_DOMAIN: input.siteDomain } : {}),
+    ...(input.certEmail ? { CERT_EMAIL: input.certEmail } : {}),
+    PREFLIGHT_HAS_BILLING: input.readiness.hasBilling ? "yes" : "no",
+    PREFLIGHT_HAS_OWNER: input.readiness.hasOwner ? "yes" : "no",
+    PREFLIGHT_HAS_QUOTA: hasQuota,
+    PREFLIGHT_HAS_DNS: input.readiness.hasDns ? "yes" : "no",
+  };
+
+  let okToInstall = blockers.length === 0;
+  if (input.writeEnvFile && okToInstall) {
+    const w = await writeArtifacts({
+      env,
+      envPath: input.outputEnvPath,
+      formats: ["bash"],
+      overwrite: input.overwriteEnv,
+      generator: "Lakehouse preflight skill (gcp provider)",
+    });
+    blockers.push(...w.blockers);
+    remediation.push(...w.remediation);
+  }
+  okToInstall = blockers.length === 0;
+
+  return {
+    okToInstall,
+    blockers,
+    remediation,
+    env,
+    evidence,
+    next: okToInstall
+      ? { action: "install", reason: `Preflight passed. source ${input.outputEnvPath} and run ingext-gke-helper/install-ingext-gke.sh.` }
+      : { action: "stop", reason: "Resolve blockers." },
+  };
+}
+
+function gcsBucketName(input: GcpPreflightInput) {
+  return input.gcsBucket ?? `ingext-${input.clusterName}`;
+}
+
+export const gcpProvider: PreflightProvider<GcpPreflightInput, GcpPreflightEvidence> = {
+  id: "gcp",
+  schema: GcpPreflightInputSchema,
+  options: GCP_OPTIONS,
+  defaultEnvFile: "./ingext-gke.env",
+  runPreflight: runGcpPreflight,
+  supportsInstall: false,
+};
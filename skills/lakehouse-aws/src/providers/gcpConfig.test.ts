@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GcpPreflightInputSchema } from "../schema.js";
+import { parseArgv, resolveConfig } from "../config.js";
+import { GCP_OPTIONS, gcpInputFromArgs } from "./gcpConfig.js";
+
+test("maps the gcp flags onto the input schema", () => {
+  const input = GcpPreflightInputSchema.parse(
+    gcpInputFromArgs({
+      project: "proj-1",
+      region: "europe-west1",
+      zone: "europe-west1-b",
+      cluster: "Lake",
+      "node-count": "2",
+      "machine-type": "e2-standard-8",
+      "disk-size": "100",
+      bucket: "team-lake",
+      "has-dns": "no",
+      exec: "replay",
+    })
+  );
+  assert.equal(input.project, "proj-1");
+  assert.equal(input.region, "europe-west1");
+  assert.equal(input.zone, "europe-west1-b");
+  assert.equal(input.clusterName, "lake");
+  assert.equal(input.nodeCount, 2);
+  assert.equal(input.machineType, "e2-standard-8");
+  assert.equal(input.diskSize, 100);
+  assert.equal(input.gcsBucket, "team-lake");
+  assert.equal(input.execMode, "replay");
+  assert.deepEqual(input.readiness, { hasBilling: true, hasOwner: true, hasDns: false });
+});
+
+test("gcp input comes through the config layers and unknown flags are rejected", async () => {
+  const layered = await resolveConfig({
+    options: GCP_OPTIONS,
+    argv: parseArgv(["--provider", "gcp", "--cluster", "lake"]),
+    env: { LAKEHOUSE_PROJECT_ID: "proj-1", LAKEHOUSE_PREFLIGHT_HAS_BILLING: "no" },
+    defaultEnvFile: "/nonexistent/ingext-gke.env",
+  });
+  assert.ok(layered.ok);
+  assert.deepEqual(layered.raw, { project: "proj-1", clusterName: "lake", readiness: { hasBilling: false } });
+
+  const unknown = await resolveConfig({
+    options: GCP_OPTIONS,
+    argv: parseArgv(["--provider", "gcp", "--node-type", "e2-standard-4"]),
+    env: {},
+    defaultEnvFile: "/nonexistent/ingext-gke.env",
+  });
+  assert.ok(!unknown.ok);
+  assert.match(unknown.errors[0], /^Unknown flag --node-type\./);
+});
@@ -0,0 +1,37 @@
+import { execModeFromArg } from "../schema.js";
+import { OptionSpec, inputFromFlags, yesNo } from "../config.js";
+
+/**
+ * Every GcpPreflightInput field with its CLI flag and env key (the env file's, or LAKEHOUSE_<key>)
+ */
+export const GCP_OPTIONS: OptionSpec[] = [
+  { flag: "project", field: "project", envKey: "PROJECT_ID", kind: "string" },
+  { flag: "region", field: "region", envKey: "REGION", kind: "string" },
+  { flag: "zone", field: "zone", envKey: "ZONE", kind: "string" },
+  { flag: "cluster", field: "clusterName", envKey: "CLUSTER_NAME", kind: "string" },
+  { flag: "node-count", field: "nodeCount", envKey: "NODE_COUNT", kind: "string" },
+  { flag: "machine-type", field: "machineType", envKey: "MACHINE_TYPE", kind: "string" },
+  { flag: "disk-size", field: "diskSize", envKey: "DISK_SIZE", kind: "string" },
+  { flag: "namespace", field: "namespace", envKey: "NAMESPACE", kind: "string" },
+  { flag: "domain", field: "siteDomain", envKey: "SITE_DOMAIN", kind: "string" },
+  { flag: "cert-email", field: "certEmail", envKey: "CERT_EMAIL", kind: "string" },
+  { flag: "bucket", field: "gcsBucket", envKey: "GCS_BUCKET", kind: "string" },
+  { flag: "gsa-name", field: "gsaName", envKey: "GSA_NAME", kind: "string" },
+  { flag: "sa-name", field: "saName", envKey: "SA_NAME", kind: "string" },
+  { flag: "output-env", field: "outputEnvPath", envKey: "OUTPUT_ENV", kind: "string" },
+  { flag: "write-env", field: "writeEnvFile", envKey: "WRITE_ENV", kind: "boolean" },
+  { flag: "overwrite-env", field: "overwriteEnv", envKey: "OVERWRITE_ENV", kind: "boolean" },
+  { flag: "dns-check", field: "dnsCheck", envKey: "DNS_CHECK", kind: "boolean" },
+  { flag: "exec", field: "execMode", envKey: "EXEC_MODE", kind: "string", parse: execModeFromArg },
+  { flag: "cassette", field: "cassette", envKey: "CASSETTE", kind: "string" },
+  { flag: "has-billing", field: "readiness.hasBilling", envKey: "PREFLIGHT_HAS_BILLING", kind: "boolean", parse: yesNo },
+  { flag: "has-owner", field: "readiness.hasOwner", envKey: "PREFLIGHT_HAS_OWNER", kind: "boolean", parse: yesNo },
+  { flag: "has-dns", field: "readiness.hasDns", envKey: "PREFLIGHT_HAS_DNS", kind: "boolean", parse: yesNo },
+];
+
+/**
+ * Map CLI args -> GcpPreflightInputSchema fields
+ */
+export function gcpInputFromArgs(args: Record<string, string>) {
+  return inputFromFlags(GCP_OPTIONS, args);
+}
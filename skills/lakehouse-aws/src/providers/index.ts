@@ -0,0 +1,38 @@
+import { z } from "zod";
+import type { PreflightResult } from "../skill.js";
+import type { ExecMode } from "../tools/exec.js";
+import type { OptionSpec } from "../config.js";
+import { awsProvider } from "./aws.js";
+import { azureProvider } from "./azure.js";
+import { gcpProvider } from "./gcp.js";
+
+export type ProviderId = "aws" | "azure" | "gcp";
+
+/** Fields every provider's input has, so a caller can set up exec before knowing the provider */
+export type ProviderInput = { execMode: ExecMode; cassette?: string; outputEnvPath: string };
+
+/**
+ * A cloud provider's preflight. Every provider returns the same PreflightResult
+ * contract (blockers, remediation, evidence, env, next); only inputs and evidence differ.
+ */
+export type PreflightProvider<Input extends ProviderInput = ProviderInput, Evidence extends object = object> = {
+  id: ProviderId;
+  schema: z.ZodType<Input, z.ZodTypeDef, unknown>;
+  /** Flags, env keys and config file fields, resolved through every config layer */
+  options: OptionSpec[];
+  /** The env file read back when no --output-env is given; the schema's outputEnvPath default */
+  defaultEnvFile: string;
+  runPreflight(input: Input): Promise<PreflightResult<Evidence>>;
+  /** Whether a passing preflight can be handed to runInstall */
+  supportsInstall: boolean;
+};
+
+export const PROVIDERS: Record<ProviderId, PreflightProvider> = {
+  aws: awsProvider,
+  azure: azureProvider,
+  gcp: gcpProvider,
+};
+
+export function getProvider(id: string): PreflightProvider | null {
+  return (PROVIDERS as Record<string, PreflightProvider>)[id] ?? null;
+}
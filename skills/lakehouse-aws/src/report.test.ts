@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatSarif } from "./report.js";
+
+test("every SARIF result points at the file its findings are fixed in", () => {
+  const sarif = JSON.parse(
+    formatSarif(
+      {
+        okToInstall: false,
+        blockers: [{ code: "NO_BUCKET", message: "Bucket is owned by another account" }],
+        remediation: [],
+        evidence: {},
+        next: { action: "fix", reason: "" },
+      },
+      "./lakehouse-aws.env"
+    )
+  );
+  const [result] = sarif.runs[0].results;
+  assert.equal(result.ruleId, "NO_BUCKET");
+  assert.deepEqual(result.locations, [{ physicalLocation: { artifactLocation: { uri: "lakehouse-aws.env" } } }]);
+});
@@ -0,0 +1,190 @@
+import { writeFile } from "node:fs/promises";
+import type { Blocker, CheckRecord, Remediation } from "./preflight/registry.js";
+import { log } from "./log.js";
+
+export const REPORT_FORMATS = ["json", "text", "junit", "sarif"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export function reportFormatFromArg(value: string | undefined): ReportFormat | null {
+  if (value === undefined) return "json";
+  return (REPORT_FORMATS as readonly string[]).includes(value) ? (value as ReportFormat) : null;
+}
+
+/**
+ * The parts every command result shares (preflight, dns, teardown)
+ */
+export type ReportResult = {
+  blockers: Blocker[];
+  remediation: Remediation[];
+  evidence?: object;
+  next: { action: string; reason: string };
+};
+
+type PreflightReport = ReportResult & { okToInstall: boolean; evidence: { checks?: CheckRecord[] } };
+
+const TOOL_NAME = "lakehouse-aws-preflight";
+
+function scalar(value: unknown): value is string | number | boolean {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function checkLine(c: CheckRecord): string {
+  const mark = { passed: "✓", failed: c.severity === "blocker" ? "✗" : "!", skipped: "-", "not-applicable": "-" }[c.status];
+  const detail = c.reason ?? c.blockers?.map((b) => b.code).join(", ") ?? "";
+  return `  ${mark} ${c.id.padEnd(12)} ${c.status.padEnd(15)} ${String(c.durationMs).padStart(6)}ms  ${detail}`;
+}
+
+/**
+ * Grouped human report: outcome, blockers, remediation, checks, then scalar evidence
+ */
+export function formatText(title: string, outcome: string, result: ReportResult, extra: string[] = []): string {
+  const lines = [`==================== ${title}: ${outcome} ====================`];
+  if (result.blockers.length > 0) {
+    lines.push("", `Blockers (${result.blockers.length})`, ...result.blockers.map((b) => `  ❌ ${b.code}: ${b.message}`));
+  }
+  if (result.remediation.length > 0) {
+    lines.push("", "Remediation", ...result.remediation.map((r) => `  - ${r.message.replace(/^⚠️\s+/, "⚠️  ")}`));
+  }
+  const evidence = (result.evidence ?? {}) as Record<string, unknown>;
+  const checks = evidence.checks as CheckRecord[] | undefined;
+  if (checks?.length) {
+    lines.push("", "Checks", ...checks.map(checkLine));
+  }
+  const facts = Object.entries(evidence).filter(([, v]) => scalar(v));
+  if (facts.length > 0) {
+    lines.push("", "Evidence", ...facts.map(([k, v]) => `  ${k}: ${v}`));
+  }
+  lines.push(...extra);
+  lines.push("", `Next: ${result.next.action} - ${result.next.reason}`);
+  return lines.join("\n") + "\n";
+}
+
+export function formatPreflightText(result: PreflightReport, extra: string[] = []): string {
+  return formatText("Preflight", result.okToInstall ? "PASSED" : "NOT READY", result, extra);
+}
+
+/**
+ * Install plan lines appended to the preflight text report
+ */
+export function formatInstallSummary(install: {
+  status: string;
+  plan: { phases: { id: string; action: string; reason: string }[] };
+}): string[] {
+  return [
+    "",
+    `Install: ${install.status}`,
+    ...install.plan.phases.map((p) => `  ${p.action === "run" ? "▶ RUN " : "✓ SKIP"}  ${p.id.padEnd(12)} ${p.reason}`),
+  ];
+}
+
+const xml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const sameBlocker = (a: Blocker, b: Blocker) => a.code === b.code && a.message === b.message;
+
+// Blockers no check claims: env file writes, unknown --only ids, providers without a check registry
+function unattributed(result: PreflightReport): Blocker[] {
+  const claimed = (result.evidence.checks ?? []).flatMap((c) => (c.severity === "blocker" ? c.blockers ?? [] : []));
+  return result.blockers.filter((b) => !claimed.some((c) => sameBlocker(b, c)));
+}
+
+/**
+ * One test case per check. Blocker checks that failed are failures, skipped and
+ * not-applicable checks are skipped, warning findings are passing output.
+ */
+export function formatJunit(result: PreflightReport, suite = "preflight"): string {
+  const checks = result.evidence.checks ?? [];
+  const cases: string[] = [];
+  for (const c of checks) {
+    const attrs = `classname="${suite}" name="${xml(`${c.id}: ${c.title}`)}" time="${(c.durationMs / 1000).toFixed(3)}"`;
+    const findings = [...(c.blockers ?? []).map((b) => `${b.code}: ${b.message}`), ...(c.remediation ?? []).map((r) => r.message)];
+    let body = "";
+    if (c.status === "failed" && c.severity === "blocker") {
+      const first = c.blockers?.[0];
+      body = `<failure type="${xml(first?.code ?? "FAILED")}" message="${xml(first?.message ?? "Check failed")}">${xml(findings.join("\n"))}</failure>`;
+    } else if (c.status === "skipped" || c.status === "not-applicable") {
+      body = `<skipped message="${xml(c.reason ?? c.status)}"/>`;
+    } else if (findings.length > 0) {
+      body = `<system-out>${xml(findings.join("\n"))}</system-out>`;
+    }
+    cases.push(body ? `    <testcase ${attrs}>\n      ${body}\n    </testcase>` : `    <testcase ${attrs}/>`);
+  }
+  const loose = unattributed(result);
+  if (loose.length > 0 || checks.length === 0) {
+    const failure = loose.length
+      ? `\n      <failure type="${xml(loose[0].code)}" message="${xml(loose[0].message)}">${xml(loose.map((b) => `${b.code}: ${b.message}`).join("\n"))}</failure>\n    `
+      : "";
+    cases.push(`    <testcase classname="${suite}" name="preflight">${failure}</testcase>`);
+  }
+
+  const failures = cases.filter((c) => c.includes("<failure")).length;
+  const skipped = cases.filter((c) => c.includes("<skipped")).length;
+  const time = (checks.reduce((t, c) => t + c.durationMs, 0) / 1000).toFixed(3);
+  const counts = `tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${time}"`;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${TOOL_NAME}" ${counts}>`,
+    `  <testsuite name="${suite}" ${counts}>`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * SARIF 2.1.0 log with one result per finding; rules are the blocker codes. Every result
+ * points at `artifact`, the file the findings are fixed in (the config file or env file).
+ */
+export function formatSarif(result: PreflightReport, artifact: string): string {
+  type SarifResult = {
+    ruleId: string;
+    level: "error" | "warning";
+    message: { text: string };
+    locations: object[];
+    properties: object;
+  };
+  const results: SarifResult[] = [];
+  const locations = [{ physicalLocation: { artifactLocation: { uri: artifact.replace(/^\.\//, "") } } }];
+  const rules = new Map<string, { id: string; shortDescription: { text: string } }>();
+  const add = (b: Blocker, level: SarifResult["level"], check: CheckRecord | null, remediation: Remediation[]) => {
+    if (!rules.has(b.code)) rules.set(b.code, { id: b.code, shortDescription: { text: check?.title ?? b.code } });
+    results.push({
+      ruleId: b.code,
+      level,
+      message: { text: b.message },
+      locations,
+      properties: { check: check?.id ?? null, remediation: remediation.map((r) => r.message) },
+    });
+  };
+
+  for (const c of result.evidence.checks ?? []) {
+    for (const b of c.blockers ?? []) add(b, c.severity === "blocker" ? "error" : "warning", c, c.remediation ?? []);
+  }
+  for (const b of unattributed(result)) add(b, "error", null, []);
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: TOOL_NAME, rules: [...rules.values()] } },
+        invocations: [{ executionSuccessful: true, properties: { okToInstall: result.okToInstall, next: result.next } }],
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+/**
+ * Write the rendered report to --output, or stdout when no file is given
+ */
+export async function writeReport(body: string, outputPath?: string): Promise<void> {
+  if (!outputPath) {
+    process.stdout.write(body.endsWith("\n") ? body : `${body}\n`);
+    return;
+  }
+  await writeFile(outputPath, body, "utf8");
+  log.info(`Report written to ${outputPath}`);
+}
@@ -2,32 +2,139 @@ import { z } from "zod";
 
 const lowerAlnum = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
 
+// docker/local run tools; record/replay capture to and serve from a cassette file (--cassette)
+export const ExecModeSchema = z.enum(["docker", "local", "record", "replay"]);
+
+/**
+ * Map the --exec flag to an exec mode, falling back to local like the flag always has
+ */
+export function execModeFromArg(value: string | undefined) {
+  const parsed = ExecModeSchema.safeParse(value);
+  return parsed.success ? parsed.data : "local";
+}
+
 export const PreflightInputSchema = z.object({
   awsProfile: z.string().default("default"),
   awsRegion: z.string().default("us-east-2"),
   clusterName: z.string().default("ingext-lakehouse").transform(lowerAlnum),
   s3Bucket: z.string().optional(), // if omitted, we template it after we know accountId
+  bucketPolicy: z.string().optional(), // Lifecycle for a bucket the installer creates, e.g. "retention=365,ia=30,glacier=90"
   rootDomain: z.string().min(3, "rootDomain is required (e.g., example.com or ingext.io)"),
   siteDomain: z.string().optional(), // if omitted, will be constructed as lakehouse.k8.{rootDomain}
   certArn: z.string().optional(), // Auto-discovered from ACM if not provided
+  requestCert: z.boolean().default(false), // Request and DNS-validate a certificate when none is found
+  requestCertWildcard: z.boolean().default(false), // Add *.{siteDomain} as a SAN on the requested certificate
+  certExpiryWarnDays: z.union([z.string(), z.number()]).default(30).transform((v) => Number(v)), // Warn when the cert expires sooner
+  certWaitSeconds: z.union([z.string(), z.number()]).default(600).transform((v) => Number(v)), // Bound on waiting for ISSUED
   namespace: z.string().default("ingext").transform(lowerAlnum),
   nodeType: z.string().default("t3.large"),
   nodeCount: z.union([z.string(), z.number()]).default(2).transform((v) => Number(v)),
+  ingestGbPerDay: z
+    .union([z.string(), z.number()])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : Number(v))), // Sizes the S3 line of the cost estimate
+  retentionDays: z.union([z.string(), z.number()]).default(30).transform((v) => Number(v)), // Days of ingest kept in S3
+  priceTable: z.string().optional(), // JSON price table replacing the bundled one
 
   readiness: z
     .object({
       hasBilling: z.boolean().default(true),
-      hasAdmin: z.boolean().default(true),
+      hasAdmin: z.boolean().optional(), // Overrides IAM simulation when set
       hasDns: z.boolean().default(true),
     })
-    .default({ hasBilling: true, hasAdmin: true, hasDns: true }),
+    .default({ hasBilling: true, hasDns: true }),
 
   outputEnvPath: z.string().default("./lakehouse-aws.env"),
   writeEnvFile: z.boolean().default(true),
   overwriteEnv: z.boolean().default(false),
+  // Artifacts written next to outputEnvPath: bash (the env file itself), dotenv, helm values overlays
+  envFormats: z.array(z.enum(["bash", "dotenv", "helm"])).default(["bash"]),
   dnsCheck: z.boolean().default(true),
   approve: z.boolean().optional(), // If true, proceed with installation after preflight
-  execMode: z.enum(["docker", "local"]).default("local"), // Execution mode: docker or local
+  execMode: ExecModeSchema.default("local"), // Execution mode: docker, local, record or replay
+  cassette: z.string().optional(), // Cassette file for record/replay exec modes
+  dockerImage: z.string().optional(), // Toolbox image for docker exec mode; a tag or repo@sha256:... digest
+  chartSource: z.enum(["registry", "local"]).default("registry"), // Where upgrade looks up chart versions
+  only: z.array(z.string()).optional(), // Run only these preflight checks (and their dependencies)
+  skip: z.array(z.string()).optional(), // Skip these preflight checks
+});
+
+export type PreflightInput = z.infer<typeof PreflightInputSchema>;
+
+// Inputs for commands that act on an existing deployment (teardown, status) and have no use for the domain
+export const ClusterInputSchema = PreflightInputSchema.partial({ rootDomain: true });
+
+export type ClusterInput = z.infer<typeof ClusterInputSchema>;
+
+/**
+ * The bucket the installer uses: the explicit s3Bucket, or a default templated from the account ID.
+ * Only lowercased; preflight reports a name that breaks the S3 naming rules instead of rewriting it.
+ */
+export function resolveS3Bucket(input: Pick<PreflightInput, "s3Bucket">, accountId: string | undefined): string {
+  return (input.s3Bucket ?? `ingext-lakehouse-${accountId}`).toLowerCase();
+}
+
+export const AzurePreflightInputSchema = z.object({
+  subscription: z.string().optional(), // name or ID; if omitted, the active az subscription is used
+  location: z.string().default("eastus"),
+  resourceGroup: z.string().default("ingext-datalake-rg"),
+  clusterName: z.string().default("ingext-lake"),
+  nodeCount: z.union([z.string(), z.number()]).default(1).transform((v) => Number(v)),
+  nodeVmSize: z.string().default("standard_dc2s_v3"),
+  storageAccountName: z.string().default("ingextdatalake").transform(lowerAlnum),
+  containerName: z.string().default("datalake"),
+  expireDays: z.union([z.string(), z.number()]).default(30).transform((v) => Number(v)),
+  namespace: z.string().default("ingext").transform(lowerAlnum),
+  siteDomain: z.string().optional(), // only needed for the lakehouse (ingress) install
+  certEmail: z.string().optional(), // Let's Encrypt contact for the lakehouse install
+
+  readiness: z
+    .object({
+      hasBilling: z.boolean().default(true),
+      hasOwner: z.boolean().default(true),
+      hasDns: z.boolean().default(true),
+    })
+    .default({ hasBilling: true, hasOwner: true, hasDns: true }),
+
+  outputEnvPath: z.string().default("./ingext-datalake-azure.env"),
+  writeEnvFile: z.boolean().default(true),
+  overwriteEnv: z.boolean().default(false),
+  dnsCheck: z.boolean().default(true),
+  execMode: ExecModeSchema.default("local"),
+  cassette: z.string().optional(),
+});
+
+export type AzurePreflightInput = z.infer<typeof AzurePreflightInputSchema>;
+
+export const GcpPreflightInputSchema = z.object({
+  project: z.string().optional(), // if omitted, the active gcloud project is used
+  region: z.string().default("us-east1"),
+  zone: z.string().optional(), // zone for machine-type availability; defaults to {region}-a
+  clusterName: z.string().default("ingextgke").transform(lowerAlnum),
+  nodeCount: z.union([z.string(), z.number()]).default(1).transform((v) => Number(v)), // per zone (regional cluster)
+  machineType: z.string().default("e2-standard-4"),
+  diskSize: z.union([z.string(), z.number()]).default(40).transform((v) => Number(v)),
+  namespace: z.string().default("ingext").transform(lowerAlnum),
+  siteDomain: z.string().optional(),
+  certEmail: z.string().optional(),
+  gcsBucket: z.string().optional(), // if omitted, ingext-{clusterName}
+  gsaName: z.string().optional(), // if omitted, {namespace}-gsa
+  saName: z.string().optional(), // if omitted, {namespace}-sa
+
+  readiness: z
+    .object({
+      hasBilling: z.boolean().default(true),
+      hasOwner: z.boolean().default(true),
+      hasDns: z.boolean().default(true),
+    })
+    .default({ hasBilling: true, hasOwner: true, hasDns: true }),
+
+  outputEnvPath: z.string().default("./ingext-gke.env"),
+  writeEnvFile: z.boolean().default(true),
+  overwriteEnv: z.boolean().default(false),
+  dnsCheck: z.boolean().default(true),
+  execMode: ExecModeSchema.default("local"),
+  cassette: z.string().optional(),
 });
 
-export type PreflightInput = z.infer<typeof PreflightInputSchema>;
\ No newline at end of file
+export type GcpPreflightInput = z.infer<typeof GcpPreflightInputSchema>;
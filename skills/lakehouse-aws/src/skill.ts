@@ -1,216 +1,109 @@
-import { PreflightInput } from "./schema.js";
-import { headBucket, describeCluster } from "./tools/aws.js";
-import { digA } from "./tools/dns.js";
-import { writeEnvFile } from "./tools/file.js";
-import { validateAwsAuth } from "./steps/auth.js";
-import { validateRequiredVariables } from "./steps/collect.js";
-import { confirmDomains } from "./steps/confirm.js";
-import { checkDockerAvailable } from "./steps/checks.js";
-import { findCertificatesForDomain } from "./tools/acm.js";
-import { findHostedZoneForDomain } from "./tools/route53.js";
-
-export type PreflightResult = {
+import { PreflightInput, resolveS3Bucket } from "./schema.js";
+import { writeArtifacts } from "./artifacts.js";
+import type { CertificateEvaluation } from "./tools/acm.js";
+import type { CapacityEvidence } from "./steps/capacity.js";
+import type { PermissionEvidence } from "./steps/permissions.js";
+import type { ExistingClusterEvidence } from "./steps/cluster.js";
+import type { BucketEvidence } from "./steps/bucket.js";
+import { formatBucketPolicy, parseBucketPolicy } from "./install/bucketPolicy.js";
+import { CostEstimate, estimateMonthlyCost, formatCostEstimate } from "./install/cost.js";
+import { loadPriceTable } from "./install/prices.js";
+import { CheckRecord, runChecks } from "./preflight/registry.js";
+import { AWS_CHECKS, AwsCheckContext } from "./preflight/aws.js";
+
+/**
+ * The contract every provider's preflight returns. Only the evidence shape is provider-specific.
+ */
+export type PreflightResult<Evidence = AwsPreflightEvidence> = {
   okToInstall: boolean;
   blockers: { code: string; message: string }[];
   remediation: { message: string }[];
   env: Record<string, string>;
-  evidence: {
-    awsAccountId?: string;
-    awsArn?: string;
-    s3BucketExists?: boolean;
-    eksClusterStatus?: string;
-    dnsARecord?: string | null;
-    dockerVersion?: string;
-    domainConfirmation?: {
-      rootDomain: string;
-      siteDomain: string;
-      siteDomainWasConstructed: boolean;
-    };
-    route53ZoneId?: string;
-    route53ZoneName?: string;
-    certArn?: string;
-    certDomain?: string;
-    certIsWildcard?: boolean;
-    certAutoDiscovered?: boolean;
-  };
+  evidence: Evidence;
   next: { action: "install" | "stop"; reason: string };
 };
 
+export type AwsPreflightEvidence = {
+  awsAccountId?: string;
+  awsArn?: string;
+  s3BucketExists?: boolean;
+  /** Ownership, region and configuration of the bucket, set once the name is valid */
+  s3Bucket?: BucketEvidence;
+  eksClusterStatus?: string;
+  /** Set when the cluster already exists and was inspected for adoption */
+  existingCluster?: ExistingClusterEvidence;
+  dnsARecord?: string | null;
+  dockerVersion?: string;
+  /** Toolbox image docker mode runs, and the digest of the local copy */
+  dockerImage?: string;
+  dockerImageDigest?: string;
+  domainConfirmation?: {
+    rootDomain: string;
+    siteDomain: string;
+    siteDomainWasConstructed: boolean;
+  };
+  route53ZoneId?: string;
+  route53ZoneName?: string;
+  /** Private zone that is the only match for, or shadows, the site domain */
+  route53PrivateZoneName?: string;
+  certArn?: string;
+  certDomain?: string;
+  certIsWildcard?: boolean;
+  certAutoDiscovered?: boolean;
+  certExpiresAt?: string;
+  /** Every certificate considered, with why it was accepted or rejected */
+  certCandidates?: CertificateEvaluation[];
+  /** Set when --request-cert requested the certificate in this run */
+  certRequest?: {
+    arn: string;
+    status: string;
+    validationRecords: { name: string; type: string; value: string }[];
+    route53Upserted: boolean;
+  };
+  capacity?: CapacityEvidence;
+  iamSimulation?: PermissionEvidence & { overridden: boolean };
+  costEstimate?: CostEstimate;
+  /** Outcome and duration of every registered check */
+  checks?: CheckRecord[];
+};
+
 export async function runPreflight(input: PreflightInput): Promise<PreflightResult> {
-  const blockers: PreflightResult["blockers"] = [];
-  const remediation: PreflightResult["remediation"] = [];
   const evidence: PreflightResult["evidence"] = {};
 
-  // If Docker mode, check Docker availability first
-  if (input.execMode === "docker") {
-    const dockerCheck = await checkDockerAvailable();
-    if (!dockerCheck.ok) {
-      blockers.push({
-        code: "DOCKER_NOT_READY",
-        message: "Docker is required in docker execution mode but is not available.",
-      });
-      remediation.push({
-        message: "Install Docker Desktop and ensure it's running.",
-      });
-      remediation.push({
-        message: "Verify with: docker version",
-      });
-      remediation.push({
-        message: "Or use --exec local to run tools from your local system.",
-      });
-
-      return {
-        okToInstall: false,
-        blockers,
-        remediation,
-        env: {},
-        evidence,
-        next: { action: "stop", reason: "Docker is not available. Install Docker or use --exec local." },
-      };
-    }
-    evidence.dockerVersion = dockerCheck.version;
-  }
-
-  // CRITICAL: Validate AWS authentication FIRST before any other checks
-  // We cannot proceed with any AWS operations without valid credentials
-  const authResult = await validateAwsAuth(input.awsProfile, input.awsRegion);
-  if (!authResult.ok) {
-    blockers.push(...authResult.blockers);
-    remediation.push(...authResult.remediation);
-
-    return {
-      okToInstall: false,
-      blockers,
-      remediation,
-      env: {},
-      evidence,
-      next: { action: "stop", reason: "AWS authentication required. Run 'aws sso login' or configure credentials first." },
-    };
-  }
-
-  // Store AWS identity evidence
-  evidence.awsAccountId = authResult.accountId;
-  evidence.awsArn = authResult.arn;
-
   // Construct siteDomain from rootDomain if not provided
   // Pattern: lakehouse.k8.{rootDomain}
   const siteDomain = input.siteDomain ?? `lakehouse.k8.${input.rootDomain}`;
-  const inputWithDomain = { ...input, siteDomain };
-
-  // Confirm domain configuration with user
-  const domainConfirmation = confirmDomains(input, siteDomain);
-  
-  // Add domain confirmation to evidence
-  evidence.domainConfirmation = {
-    rootDomain: domainConfirmation.rootDomain,
-    siteDomain: domainConfirmation.siteDomain,
-    siteDomainWasConstructed: domainConfirmation.siteDomainWasConstructed,
-  };
-
-  // Print domain confirmation message to console
-  console.error(domainConfirmation.message);
+  const ctx: AwsCheckContext = { input, siteDomain, evidence };
 
-  // Add warnings as blockers if domain issues detected
-  if (domainConfirmation.warnings.length > 0) {
-    blockers.push(...domainConfirmation.warnings);
-  }
-
-  // Check Route53 for domain ownership
-  const route53Check = await findHostedZoneForDomain(input.rootDomain);
-  if (route53Check.ok && route53Check.zoneId) {
-    evidence.route53ZoneId = route53Check.zoneId;
-    evidence.route53ZoneName = route53Check.zoneName;
-    console.error(`\n✓ Route53 hosted zone found: ${route53Check.zoneName} (${route53Check.zoneId})`);
-  } else if (route53Check.ok) {
-    console.error(`\n⚠️  No Route53 hosted zone found for ${input.rootDomain}`);
-    console.error(`   You'll need to manually configure DNS records.`);
-  }
-
-  // Discover or validate ACM certificate
-  let certArn = input.certArn;
-  if (!certArn) {
-    console.error(`\n⏳ Searching for ACM certificate covering: ${siteDomain}...`);
-    const certSearch = await findCertificatesForDomain(siteDomain, input.awsRegion);
-    
-    if (certSearch.ok && certSearch.matches && certSearch.matches.length > 0) {
-      // Prefer exact matches over wildcard
-      const exactMatch = certSearch.matches.find(m => !m.wildcard);
-      const selectedCert = exactMatch || certSearch.matches[0];
-      
-      certArn = selectedCert.arn;
-      evidence.certArn = certArn;
-      evidence.certDomain = selectedCert.domain;
-      evidence.certIsWildcard = selectedCert.wildcard;
-      evidence.certAutoDiscovered = true;
-      
-      console.error(`✓ Found certificate: ${selectedCert.domain}`);
-      console.error(`  ARN: ${certArn}`);
-      if (selectedCert.wildcard) {
-        console.error(`  Type: Wildcard certificate`);
-      }
-      if (certSearch.matches.length > 1) {
-        console.error(`  (${certSearch.matches.length} matching certificates found, selected first match)`);
-      }
-    } else if (certSearch.ok) {
-      blockers.push({
-        code: "NO_CERTIFICATE",
-        message: `No ACM certificate found covering ${siteDomain} in ${input.awsRegion}`,
-      });
-      remediation.push({
-        message: `Create an ACM certificate for ${siteDomain} or use --cert-arn to specify one`,
-      });
-      remediation.push({
-        message: `Certificates must be in ${input.awsRegion} and in ISSUED status`,
-      });
-    } else {
-      blockers.push({
-        code: "ACM_CHECK_FAILED",
-        message: `Failed to query ACM: ${certSearch.error}`,
-      });
-    }
-  } else {
-    // User provided cert ARN explicitly
-    evidence.certArn = certArn;
-    evidence.certAutoDiscovered = false;
-    console.error(`\n✓ Using provided certificate: ${certArn}`);
-  }
-
-  // Validate all required variables are set and valid
-  // This ensures the user has provided all necessary configuration before proceeding
-  const validationResult = validateRequiredVariables({ ...inputWithDomain, certArn });
-  if (!validationResult.ok) {
-    blockers.push(...validationResult.blockers);
-    remediation.push(...validationResult.remediation);
+  const checks = await runChecks(AWS_CHECKS, ctx, { only: input.only, skip: input.skip });
+  const { blockers, remediation } = checks;
+  evidence.checks = checks.records;
 
+  // Without an account id the bucket name cannot be templated, so there is no env to hand over
+  if (!ctx.accountId) {
     return {
       okToInstall: false,
       blockers,
       remediation,
       env: {},
       evidence,
-      next: { action: "stop", reason: "Required variables missing or invalid. Please provide all required configuration." },
+      next: {
+        action: "stop",
+        reason: blockers.length > 0
+          ? "Resolve blockers."
+          : "AWS authentication was not checked (--only/--skip); nothing to install against.",
+      },
     };
   }
 
-  // Now that we have AWS access and valid inputs, proceed with readiness gates
-  if (!input.readiness.hasBilling) blockers.push({ code: "NO_BILLING", message: "Billing must be enabled to create EKS/S3 resources." });
-  if (!input.readiness.hasAdmin) blockers.push({ code: "NO_ADMIN", message: "Admin permissions are required (IAM/VPC/EKS)." });
-  if (!input.readiness.hasDns) blockers.push({ code: "NO_DNS", message: `You must control DNS for ${siteDomain}.` });
-
   // Template bucket default once we know accountId
-  const s3Bucket = (input.s3Bucket ?? `ingext-lakehouse-${authResult.accountId}`).toLowerCase().replace(/[^a-z0-9]/g, "");
-
-  // Checks
-  const b = await headBucket(s3Bucket, input.awsProfile, input.awsRegion);
-  evidence.s3BucketExists = b.exists;
-
-  const c = await describeCluster(input.clusterName, input.awsProfile, input.awsRegion);
-  evidence.eksClusterStatus = c.status;
-
-  if (input.dnsCheck) {
-    const d = await digA(siteDomain);
-    if (d.ok) evidence.dnsARecord = d.ip;
-  }
+  const s3Bucket = resolveS3Bucket(input, ctx.accountId);
+  const certArn = ctx.certArn;
+  // Simulation evidence, unless the user overrode it either way
+  const simulation = evidence.iamSimulation;
+  const hasAdmin =
+    input.readiness.hasAdmin ??
+    (!!simulation && !simulation.inconclusive && Object.keys(simulation.deniedByPhase).length === 0);
 
   const env: Record<string, string> = {
     AWS_PROFILE: input.awsProfile,
@@ -224,39 +117,43 @@ export async function runPreflight(input: PreflightInput): Promise<PreflightResu
     NODE_TYPE: input.nodeType,
     NODE_COUNT: String(input.nodeCount),
     PREFLIGHT_HAS_BILLING: String(input.readiness.hasBilling),
-    PREFLIGHT_HAS_ADMIN: String(input.readiness.hasAdmin),
+    PREFLIGHT_HAS_ADMIN: String(hasAdmin),
     PREFLIGHT_HAS_DNS: String(input.readiness.hasDns),
   };
+  // Invalid specs were blocked by the s3 check
+  const bucketPolicy = input.bucketPolicy === undefined ? null : parseBucketPolicy(input.bucketPolicy);
+  if (bucketPolicy?.ok) env.BUCKET_POLICY = formatBucketPolicy(bucketPolicy.policy);
+
+  // The estimate only informs the plan, so a bad price table is a warning
+  const prices = await loadPriceTable(input.priceTable);
+  if (prices.ok) {
+    evidence.costEstimate = estimateMonthlyCost(input, prices.table);
+    env.ESTIMATED_MONTHLY_USD = evidence.costEstimate.baselineMonthlyUsd.toFixed(2);
+    env.ESTIMATED_MAX_MONTHLY_USD = evidence.costEstimate.maxMonthlyUsd.toFixed(2);
+    env.PRICE_TABLE_VERSION = evidence.costEstimate.priceTableVersion;
+  } else {
+    remediation.push({ message: `⚠️  ${prices.error}; no cost estimate.` });
+  }
 
   // Optional env file artifact
-  // Check if we can proceed (no blockers so far)
-  let okToInstall = blockers.length === 0;
+  // A partial run (--only/--skip of a blocking check) never authorizes an install
+  let okToInstall = blockers.length === 0 && !checks.partial;
   
   if (input.writeEnvFile && okToInstall) {
-    const lines = [
-      "# Generated by Lakehouse.AWS preflight skill",
-      `export AWS_PROFILE="${env.AWS_PROFILE}"`,
-      `export AWS_REGION="${env.AWS_REGION}"`,
-      `export CLUSTER_NAME="${env.CLUSTER_NAME}"`,
-      `export S3_BUCKET="${env.S3_BUCKET}"`,
-      `export ROOT_DOMAIN="${env.ROOT_DOMAIN}"`,
-      `export SITE_DOMAIN="${env.SITE_DOMAIN}"`,
-      ...(certArn ? [`export CERT_ARN="${env.CERT_ARN}"`] : [`# CERT_ARN not discovered or provided`]),
-      `export NAMESPACE="${env.NAMESPACE}"`,
-      `export NODE_TYPE="${env.NODE_TYPE}"`,
-      `export NODE_COUNT="${env.NODE_COUNT}"`,
-      `export PREFLIGHT_HAS_BILLING="${env.PREFLIGHT_HAS_BILLING}"`,
-      `export PREFLIGHT_HAS_ADMIN="${env.PREFLIGHT_HAS_ADMIN}"`,
-      `export PREFLIGHT_HAS_DNS="${env.PREFLIGHT_HAS_DNS}"`,
-    ];
-    const w = await writeEnvFile(input.outputEnvPath, lines, input.overwriteEnv);
-    if (!w.ok) {
-      blockers.push({ code: "ENV_WRITE_BLOCKED", message: w.error });
-    }
+    const w = await writeArtifacts({
+      env,
+      envPath: input.outputEnvPath,
+      formats: input.envFormats,
+      overwrite: input.overwriteEnv,
+      generator: "Lakehouse.AWS preflight skill",
+      header: evidence.costEstimate ? formatCostEstimate(evidence.costEstimate) : [],
+    });
+    blockers.push(...w.blockers);
+    remediation.push(...w.remediation);
   }
 
   // Recompute okToInstall after potential blocker from env file write
-  okToInstall = blockers.length === 0;
+  okToInstall = blockers.length === 0 && !checks.partial;
 
   return {
     okToInstall,
@@ -264,6 +161,10 @@ export async function runPreflight(input: PreflightInput): Promise<PreflightResu
     remediation,
     env,
     evidence,
-    next: okToInstall ? { action: "install", reason: "Preflight passed." } : { action: "stop", reason: "Resolve blockers." },
+    next: okToInstall
+      ? { action: "install", reason: "Preflight passed." }
+      : blockers.length > 0
+        ? { action: "stop", reason: "Resolve blockers." }
+        : { action: "stop", reason: "Partial preflight passed. Run it without --only/--skip before installing." },
   };
 }
\ No newline at end of file
@@ -0,0 +1,283 @@
+import { ClusterInput, resolveS3Bucket } from "./schema.js";
+import { validateAwsAuth } from "./steps/auth.js";
+import { describeCertificate } from "./tools/acm.js";
+import { describeEksCluster, updateKubeconfig } from "./tools/eks.js";
+import { describeLoadBalancer } from "./tools/elb.js";
+import { HelmRelease, listReleases } from "./tools/helm.js";
+import { getJson } from "./tools/kubectl.js";
+import { headBucketOwner } from "./tools/s3.js";
+import { RELEASES } from "./install/releases.js";
+import { albName } from "./install/names.js";
+
+/** unknown: could not be checked at all, e.g. without AWS credentials */
+export type Health = "healthy" | "progressing" | "degraded" | "missing" | "unknown";
+
+export type ReleaseStatus = {
+  release: string;
+  namespace: string;
+  health: Health;
+  helmStatus: string | null;
+  chart: string | null;
+  revision: string | null;
+  /** Pods backing the release's Deployments, StatefulSets and DaemonSets */
+  pods: { ready: number; desired: number };
+};
+
+export type StatusReport = {
+  generatedAt: string;
+  health: Health;
+  cluster: { name: string; region: string; status: string | null; health: Health };
+  bucket: { name: string; exists: boolean; health: Health };
+  releases: ReleaseStatus[];
+  loadBalancer: {
+    name: string;
+    state: string | null;
+    dnsName: string | null;
+    ingressHostname: string | null;
+    health: Health;
+  };
+  certificate: { arn: string; status: string | null; health: Health } | null;
+  errors: string[];
+};
+
+const RANK: Record<Health, number> = { healthy: 0, progressing: 1, degraded: 2, missing: 3, unknown: 4 };
+
+function worst(values: Health[]): Health {
+  return values.reduce<Health>((acc, h) => (RANK[h] > RANK[acc] ? h : acc), "healthy");
+}
+
+function clusterHealth(status: string | null): Health {
+  if (!status) return "missing";
+  if (status === "ACTIVE") return "healthy";
+  if (status === "CREATING" || status === "UPDATING") return "progressing";
+  return "degraded";
+}
+
+function helmHealth(status: string): Health {
+  if (status === "deployed") return "healthy";
+  if (status.startsWith("pending")) return "progressing";
+  return "degraded";
+}
+
+function loadBalancerHealth(state: string | null, ingressHostname: string | null): Health {
+  if (state === "active") return "healthy";
+  // The controller publishes the hostname on the ingress before the ALB is active
+  if (state === "provisioning" || (!state && ingressHostname)) return "progressing";
+  return state ? "degraded" : "missing";
+}
+
+type Workload = { release: string; namespace: string; ready: number; desired: number };
+
+/**
+ * Ready/desired pod counts for every Helm-managed workload in the cluster,
+ * keyed by the meta.helm.sh/release-name annotation Helm puts on each object.
+ */
+async function listHelmWorkloads(errors: string[]): Promise<Workload[]> {
+  const res = await getJson(["deployments,statefulsets,daemonsets", "-A"]);
+  if (!res.ok) {
+    errors.push(`kubectl get workloads failed: ${res.error}`);
+    return [];
+  }
+  const workloads: Workload[] = [];
+  for (const item of res.data?.items ?? []) {
+    const annotations = item.metadata.annotations ?? {};
+    const release = annotations["meta.helm.sh/release-name"];
+    if (!release) continue;
+    const s = item.status ?? {};
+    const isDaemonSet = item.kind === "DaemonSet";
+    workloads.push({
+      release,
+      namespace: annotations["meta.helm.sh/release-namespace"] ?? item.metadata.namespace,
+      ready: (isDaemonSet ? s.numberReady : s.readyReplicas) ?? 0,
+      desired: (isDaemonSet ? s.desiredNumberScheduled : item.spec?.replicas) ?? 0,
+    });
+  }
+  return workloads;
+}
+
+/**
+ * The report when nothing could be read: every component is unknown
+ */
+function unknownReport(input: ClusterInput, errors: string[]): StatusReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    health: "unknown",
+    cluster: { name: input.clusterName, region: input.awsRegion, status: null, health: "unknown" },
+    bucket: { name: resolveS3Bucket(input, "<account-id>"), exists: false, health: "unknown" },
+    releases: RELEASES.map((spec) => ({
+      release: spec.release,
+      namespace: spec.namespace === "app" ? input.namespace : spec.namespace,
+      health: "unknown",
+      helmStatus: null,
+      chart: null,
+      revision: null,
+      pods: { ready: 0, desired: 0 },
+    })),
+    loadBalancer: { name: albName(input.clusterName), state: null, dnsName: null, ingressHostname: null, health: "unknown" },
+    certificate: input.certArn ? { arn: input.certArn, status: null, health: "unknown" } : null,
+    errors,
+  };
+}
+
+/**
+ * Collect the state of every component the installer deploys into one typed report
+ */
+export async function runStatus(input: ClusterInput): Promise<StatusReport> {
+  const errors: string[] = [];
+  const region = input.awsRegion;
+
+  const authResult = await validateAwsAuth(input.awsProfile, region);
+  // Like preflight, nothing else is checked without credentials
+  if (!authResult.ok) {
+    return unknownReport(input, authResult.blockers.map((b: { message: string }) => b.message));
+  }
+
+  const c = await describeEksCluster(input.clusterName, region);
+  if (!c.ok && !c.notFound) errors.push(`describe-cluster failed: ${c.error}`);
+  const clusterStatus: string | null = c.status ?? null;
+  const cluster = {
+    name: input.clusterName,
+    region,
+    status: clusterStatus,
+    health: c.ok || c.notFound ? clusterHealth(clusterStatus) : ("unknown" as Health),
+  };
+
+  const bucketName = resolveS3Bucket(input, authResult.accountId);
+  const b = await headBucketOwner(bucketName, authResult.accountId, region);
+  if (!b.ok) errors.push(`head-bucket failed: ${b.error}`);
+  else if (b.state === "forbidden") {
+    errors.push(`head-bucket on ${bucketName} was denied: another account owns it, or the profile may not read it`);
+  }
+  const bucketHealth: Health = !b.ok || b.state === "forbidden" ? "unknown" : b.state === "owned" ? "healthy" : "missing";
+  const bucket = { name: bucketName, exists: b.ok && b.state === "owned", health: bucketHealth };
+
+  // Without a release list, a release that is not in it may still be deployed
+  let releasesKnown = cluster.health === "missing";
+  let installed: HelmRelease[] = [];
+  let workloads: Workload[] = [];
+  let ingressHostname: string | null = null;
+  if (cluster.health !== "missing" && cluster.health !== "unknown") {
+    const kc = await updateKubeconfig(input.clusterName, region);
+    if (!kc.ok) {
+      errors.push(`Failed to update kubeconfig: ${kc.error}`);
+    } else {
+      const listed = await listReleases();
+      if (listed.ok) installed = listed.releases ?? [];
+      else errors.push(`helm list failed: ${listed.error}`);
+      releasesKnown = listed.ok;
+
+      workloads = await listHelmWorkloads(errors);
+
+      const ing = await getJson(["ingress", "-n", input.namespace]);
+      const ingress = (ing.data?.items ?? []).find(
+        (i) => i.metadata.annotations?.["meta.helm.sh/release-name"] === "ingext-ingress"
+      );
+      ingressHostname = ingress?.status?.loadBalancer?.ingress?.[0]?.hostname ?? null;
+    }
+  }
+
+  const releases: ReleaseStatus[] = RELEASES.map((spec) => {
+    const namespace = spec.namespace === "app" ? input.namespace : spec.namespace;
+    const helm = installed.find((r) => r.name === spec.release && r.namespace === namespace);
+    const mine = workloads.filter((w) => w.release === spec.release && w.namespace === namespace);
+    const pods = {
+      ready: mine.reduce((n, w) => n + w.ready, 0),
+      desired: mine.reduce((n, w) => n + w.desired, 0),
+    };
+
+    let health: Health = releasesKnown ? "missing" : "unknown";
+    if (helm) {
+      health = helmHealth(helm.status);
+      if (health === "healthy" && pods.ready < pods.desired) health = "progressing";
+    }
+    return {
+      release: spec.release,
+      namespace,
+      health,
+      helmStatus: helm?.status ?? null,
+      chart: helm?.chart ?? null,
+      revision: helm?.revision != null ? String(helm.revision) : null,
+      pods,
+    };
+  });
+
+  const lbName = albName(input.clusterName);
+  const lb = await describeLoadBalancer(lbName, region);
+  if (!lb.ok) errors.push(`describe-load-balancers failed: ${lb.error}`);
+  const lbState = lb.loadBalancer?.state ?? null;
+  const loadBalancer = {
+    name: lbName,
+    state: lbState,
+    dnsName: lb.loadBalancer?.dnsName ?? null,
+    ingressHostname,
+    health: loadBalancerHealth(lbState, ingressHostname),
+  };
+
+  let certificate: StatusReport["certificate"] = null;
+  if (input.certArn) {
+    const cert = await describeCertificate(input.certArn, region);
+    const status: string | null = cert.ok ? cert.data?.Certificate?.Status ?? null : null;
+    if (!cert.ok) errors.push(`describe-certificate failed: ${cert.error}`);
+    certificate = {
+      arn: input.certArn,
+      status,
+      health: status === "ISSUED" ? "healthy" : status === "PENDING_VALIDATION" ? "progressing" : "degraded",
+    };
+  }
+
+  const health = worst([
+    cluster.health,
+    bucket.health,
+    ...releases.map((r) => r.health),
+    loadBalancer.health,
+    ...(certificate ? [certificate.health] : []),
+    ...(errors.length > 0 ? (["degraded"] as Health[]) : []),
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    health,
+    cluster,
+    bucket,
+    releases,
+    loadBalancer,
+    certificate,
+    errors,
+  };
+}
+
+/**
+ * Render the report as the two-column table lakehouse-status.sh used to print
+ */
+export function formatStatusTable(report: StatusReport): string {
+  const row = (name: string, value: string) => `${name.padEnd(44)} ${value}`;
+  const notFound = (health: Health) => (health === "unknown" ? "UNKNOWN" : "NOT FOUND");
+  const lines = [
+    `==================== Lakehouse Status: ${report.cluster.name} ====================`,
+    row("COMPONENT", "STATUS"),
+    "-".repeat(72),
+    row(`EKS Cluster (${report.cluster.name})`, report.cluster.status ?? notFound(report.cluster.health)),
+    row(`S3 Bucket (${report.bucket.name})`, report.bucket.exists ? "EXISTS" : notFound(report.bucket.health)),
+    "",
+    "[Helm Releases]",
+    ...report.releases.map((r) =>
+      row(
+        `${r.release} (${r.namespace})`,
+        r.helmStatus
+          ? `${r.helmStatus}${r.pods.desired > 0 ? ` ${r.pods.ready}/${r.pods.desired} ready` : ""}`
+          : r.health === "unknown"
+            ? "UNKNOWN"
+            : "NOT DEPLOYED"
+      )
+    ),
+    "",
+    "[Networking & SSL]",
+    row(`AWS Load Balancer (${report.loadBalancer.name})`, report.loadBalancer.state ?? notFound(report.loadBalancer.health)),
+    row("ALB Hostname", report.loadBalancer.dnsName ?? report.loadBalancer.ingressHostname ?? "PROVISIONING..."),
+    ...(report.certificate ? [row("ACM Certificate", report.certificate.status ?? (report.certificate.health === "unknown" ? "UNKNOWN" : "ERROR"))] : []),
+    "-".repeat(72),
+    row("Overall", report.health.toUpperCase()),
+    ...report.errors.map((e) => `⚠️  ${e}`),
+  ];
+  return lines.join("\n");
+}
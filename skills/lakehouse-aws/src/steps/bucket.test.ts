@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bucketNameProblems } from "./bucket.js";
+
+test("a valid general purpose bucket name has no problems", () => {
+  assert.deepEqual(bucketNameProblems("ingext-lakehouse-123456789012"), []);
+  assert.deepEqual(bucketNameProblems("logs.example.com"), []);
+});
+
+test("each broken naming rule is reported", () => {
+  assert.deepEqual(bucketNameProblems("ab"), ["must be 3 to 63 characters long"]);
+  assert.deepEqual(bucketNameProblems("my_bucket"), ["may only contain lowercase letters, digits, hyphens and dots"]);
+  assert.deepEqual(bucketNameProblems("-lake."), ["must begin and end with a letter or digit"]);
+  assert.deepEqual(bucketNameProblems("lake..house"), ["must not contain two adjacent dots"]);
+  assert.deepEqual(bucketNameProblems("192.168.1.10"), ["must not be formatted as an IP address"]);
+  assert.deepEqual(bucketNameProblems("xn--lake"), ['must not start with the reserved prefix "xn--"']);
+  assert.deepEqual(bucketNameProblems("lake-s3alias"), ['must not end with the reserved suffix "-s3alias"']);
+});
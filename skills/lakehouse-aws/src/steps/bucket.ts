@@ -0,0 +1,144 @@
+import {
+  getBucketEncryption,
+  getBucketLifecycle,
+  getBucketRegion,
+  getBucketVersioning,
+  getPublicAccessBlock,
+  headBucketOwner,
+  LifecycleRule,
+  PublicAccessBlock,
+} from "../tools/s3.js";
+
+export type BucketEvidence = {
+  name: string;
+  /** owned: exists in this account; foreign: the name is taken elsewhere (or unreadable); missing: free */
+  ownership: "owned" | "foreign" | "missing";
+  region?: string;
+  /** The rest is only read for an owned bucket */
+  encryption?: { algorithm: string; kmsKeyId?: string } | null;
+  versioning?: string;
+  publicAccessBlock?: PublicAccessBlock | null;
+  lifecycleRules?: LifecycleRule[];
+};
+
+export type BucketResult = {
+  ok: boolean;
+  blockers: Array<{ code: string; message: string }>;
+  remediation: Array<{ message: string }>;
+  evidence?: BucketEvidence;
+};
+
+// Prefixes and suffixes S3 reserves for access points, directory buckets and the like
+const RESERVED_PREFIXES = ["xn--", "sthree-", "amzn-s3-demo-"];
+const RESERVED_SUFFIXES = ["-s3alias", "--ol-s3", ".mrap", "--x-s3", "--table-s3"];
+
+/**
+ * Every general purpose bucket naming rule the name breaks; empty when it is valid
+ */
+export function bucketNameProblems(name: string): string[] {
+  const problems: string[] = [];
+  if (name.length < 3 || name.length > 63) problems.push("must be 3 to 63 characters long");
+  if (/[^a-z0-9.-]/.test(name)) problems.push("may only contain lowercase letters, digits, hyphens and dots");
+  if (!/^[a-z0-9]/.test(name) || !/[a-z0-9]$/.test(name)) problems.push("must begin and end with a letter or digit");
+  if (name.includes("..")) problems.push("must not contain two adjacent dots");
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(name)) problems.push("must not be formatted as an IP address");
+  const prefix = RESERVED_PREFIXES.find((p) => name.startsWith(p));
+  if (prefix) problems.push(`must not start with the reserved prefix "${prefix}"`);
+  const suffix = RESERVED_SUFFIXES.find((s) => name.endsWith(s));
+  if (suffix) problems.push(`must not end with the reserved suffix "${suffix}"`);
+  return problems;
+}
+
+const fullyBlocked = (pab: PublicAccessBlock | null | undefined) =>
+  !!pab && pab.BlockPublicAcls && pab.IgnorePublicAcls && pab.BlockPublicPolicy && pab.RestrictPublicBuckets;
+
+/**
+ * Validate the bucket name, then find out whether it is free, ours or someone else's. For our
+ * own bucket, check it is in the install region and report how it is configured.
+ */
+export async function inspectBucket(bucket: string, accountId: string, region: string): Promise<BucketResult> {
+  const problems = bucketNameProblems(bucket);
+  if (problems.length > 0) {
+    return {
+      ok: false,
+      blockers: [{ code: "S3_BUCKET_NAME_INVALID", message: `Bucket name "${bucket}" ${problems.join("; ")}.` }],
+      remediation: [{ message: "Choose a valid name with --bucket <name>." }],
+    };
+  }
+
+  const blockers: BucketResult["blockers"] = [];
+  const remediation: BucketResult["remediation"] = [];
+  if (bucket.includes(".")) {
+    remediation.push({ message: `⚠️  Bucket name "${bucket}" contains dots, which breaks virtual-hosted HTTPS access.` });
+  }
+
+  const head = await headBucketOwner(bucket, accountId, region);
+  if (!head.ok) {
+    return { ok: false, blockers: [{ code: "S3_BUCKET_CHECK_FAILED", message: `Could not check bucket ${bucket}: ${head.error}` }], remediation };
+  }
+  if (head.state === "missing") {
+    return { ok: true, blockers, remediation, evidence: { name: bucket, ownership: "missing" } };
+  }
+  if (head.state === "forbidden") {
+    blockers.push({
+      code: "S3_BUCKET_NOT_OWNED",
+      message: `Bucket ${bucket} exists but is not owned by account ${accountId} (or the profile cannot access it).`,
+    });
+    remediation.push({ message: "Bucket names are global; choose another with --bucket <name>." });
+    return { ok: false, blockers, remediation, evidence: { name: bucket, ownership: "foreign" } };
+  }
+
+  let bucketRegion = head.region;
+  if (!bucketRegion) {
+    const location = await getBucketRegion(bucket, region);
+    if (!location.ok) {
+      return { ok: false, blockers: [{ code: "S3_BUCKET_CHECK_FAILED", message: `Could not read the region of ${bucket}: ${location.error}` }], remediation };
+    }
+    bucketRegion = location.region;
+  }
+  const evidence: BucketEvidence = { name: bucket, ownership: "owned", region: bucketRegion };
+  if (bucketRegion !== region) {
+    blockers.push({
+      code: "S3_BUCKET_REGION_MISMATCH",
+      message: `Bucket ${bucket} is in ${bucketRegion}, but the install targets ${region}.`,
+    });
+    remediation.push({ message: `Use a bucket in ${region} (--bucket <name>) or install in ${bucketRegion} (--region ${bucketRegion}).` });
+  }
+
+  // Configuration is reported, not enforced; a read failure only leaves the field out
+  const [encryption, versioning, pab, lifecycle] = await Promise.all([
+    getBucketEncryption(bucket, bucketRegion!),
+    getBucketVersioning(bucket, bucketRegion!),
+    getPublicAccessBlock(bucket, bucketRegion!),
+    getBucketLifecycle(bucket, bucketRegion!),
+  ]);
+  if (encryption.ok) evidence.encryption = encryption.encryption;
+  if (versioning.ok) evidence.versioning = versioning.status;
+  if (pab.ok) evidence.publicAccessBlock = pab.config;
+  if (lifecycle.ok) evidence.lifecycleRules = lifecycle.rules;
+
+  if (encryption.ok && !encryption.encryption) {
+    remediation.push({ message: `⚠️  Bucket ${bucket} has no default encryption configured.` });
+  }
+  if (pab.ok && !fullyBlocked(pab.config)) {
+    remediation.push({
+      message: `⚠️  Bucket ${bucket} does not block all public access. Enable it with: aws s3api put-public-access-block --bucket ${bucket} --public-access-block-configuration BlockPublicAcls=true,IgnorePublicAcls=true,BlockPublicPolicy=true,RestrictPublicBuckets=true`,
+    });
+  }
+  return { ok: blockers.length === 0, blockers, remediation, evidence };
+}
+
+/**
+ * One line per setting, for the preflight log
+ */
+export function formatBucketEvidence(e: BucketEvidence): string[] {
+  if (e.ownership !== "owned") return [`Bucket ${e.name}: ${e.ownership === "missing" ? "will be created" : "owned by another account"}`];
+  const rules = e.lifecycleRules?.filter((r) => r.Status === "Enabled") ?? [];
+  return [
+    `Bucket ${e.name} in ${e.region}`,
+    `Encryption: ${e.encryption === undefined ? "unknown" : e.encryption ? e.encryption.algorithm : "none"}`,
+    `Versioning: ${e.versioning ?? "unknown"}`,
+    `Public access block: ${e.publicAccessBlock === undefined ? "unknown" : fullyBlocked(e.publicAccessBlock) ? "all blocked" : "not fully blocked"}`,
+    `Lifecycle: ${e.lifecycleRules === undefined ? "unknown" : `${rules.length} enabled rule(s)`}`,
+  ];
+}
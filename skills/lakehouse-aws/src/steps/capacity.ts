@@ -0,0 +1,165 @@
+import { PreflightInput } from "../schema.js";
+import {
+  countElasticIps,
+  countVpcs,
+  describeInstanceType,
+  isStandardInstanceType,
+  listInstanceTypeZones,
+  maxNatGatewaysPerZone,
+  standardVCpuUsage,
+} from "../tools/ec2.js";
+import { getQuotaValue, QuotaRef, QUOTAS, quotaIncreaseRemediation } from "../tools/quotas.js";
+import { EksPoolValues, RELEASES } from "../install/releases.js";
+
+// cpuLimit/memoryLimit defaults in charts/ingext-eks-pool/values.yaml, used when a release does not set them
+const EKS_POOL_DEFAULT_CPU_LIMIT = 8;
+const EKS_POOL_DEFAULT_MEMORY_LIMIT = "64Gi";
+
+export type CapacityEvidence = {
+  instanceType: string;
+  instanceVCpus?: number;
+  zones: string[];
+  nodeGroupVCpus: number;
+  poolVCpus: Record<string, number>;
+  quotas: { name: string; quotaCode: string; limit?: number; used?: number; required: number }[];
+};
+
+export type CapacityResult = {
+  ok: boolean;
+  blockers: Array<{ code: string; message: string }>;
+  remediation: Array<{ message: string }>;
+  evidence: CapacityEvidence;
+};
+
+// Kubernetes quantity -> GiB, for the Gi/Ti/Mi suffixes the pool charts use
+function quantityGiB(value: string): number {
+  const m = /^(\d+(?:\.\d+)?)(Mi|Gi|Ti)?$/.exec(value.trim());
+  if (!m) return NaN;
+  const scale = m[2] === "Ti" ? 1024 : m[2] === "Mi" ? 1 / 1024 : 1;
+  return Number(m[1]) * scale;
+}
+
+/**
+ * The most vCPUs and memory each Karpenter pool from ingext-eks-pool may launch
+ */
+export function poolLimits(clusterName: string): Record<string, { vCpus: number; memoryGiB: number }> {
+  const limits: Record<string, { vCpus: number; memoryGiB: number }> = {};
+  for (const spec of RELEASES) {
+    if (!spec.chart.endsWith("/ingext-eks-pool")) continue;
+    const values = (spec.values?.({ CLUSTER_NAME: clusterName }) ?? {}) as Partial<EksPoolValues>;
+    limits[spec.release] = {
+      vCpus: Number(values.cpuLimit ?? EKS_POOL_DEFAULT_CPU_LIMIT),
+      memoryGiB: quantityGiB(values.memoryLimit ?? EKS_POOL_DEFAULT_MEMORY_LIMIT),
+    };
+  }
+  return limits;
+}
+
+/**
+ * The most vCPUs each Karpenter pool from ingext-eks-pool may launch
+ */
+export function poolCpuLimits(clusterName: string): Record<string, number> {
+  return Object.fromEntries(Object.entries(poolLimits(clusterName)).map(([release, l]) => [release, l.vCpus]));
+}
+
+/**
+ * The node type exists and is offered in two zones; false when it cannot be checked further
+ */
+async function checkNodeGroupType(
+  input: PreflightInput,
+  evidence: CapacityEvidence,
+  blockers: CapacityResult["blockers"],
+  remediation: CapacityResult["remediation"]
+): Promise<boolean> {
+  const region = input.awsRegion;
+  const type = await describeInstanceType(input.nodeType, region);
+  if (type.ok && !type.instanceType) {
+    blockers.push({ code: "INSTANCE_TYPE_UNKNOWN", message: `Instance type ${input.nodeType} does not exist.` });
+    remediation.push({ message: "Provide a valid type with: --node-type <instance-type> (e.g. t3.large or m5a.large)" });
+    return false;
+  }
+  if (!type.ok || !type.instanceType) {
+    blockers.push({ code: "CAPACITY_CHECK_FAILED", message: `Failed to describe ${input.nodeType}: ${type.error}` });
+    return false;
+  }
+  evidence.instanceVCpus = type.instanceType.vCpus;
+  evidence.nodeGroupVCpus = input.nodeCount * type.instanceType.vCpus;
+
+  // eksctl spreads the cluster over at least two AZs
+  const offerings = await listInstanceTypeZones(input.nodeType, region);
+  evidence.zones = offerings.zones;
+  if (!offerings.ok) {
+    blockers.push({ code: "CAPACITY_CHECK_FAILED", message: `Failed to list offerings for ${input.nodeType}: ${offerings.error}` });
+  } else if (offerings.zones.length < 2) {
+    blockers.push({
+      code: "INSTANCE_TYPE_UNAVAILABLE",
+      message: `${input.nodeType} is offered in ${offerings.zones.length === 0 ? "no" : "only one"} availability zone of ${region}${offerings.zones.length ? ` (${offerings.zones[0]})` : ""}; EKS needs two.`,
+    });
+    remediation.push({ message: `List types offered per AZ: aws ec2 describe-instance-type-offerings --location-type availability-zone --region ${region}` });
+  }
+  return true;
+}
+
+/**
+ * Confirm the region can hold the cluster eksctl creates plus the pools' ceilings.
+ * Usage already in the account counts against the quota, including an existing
+ * cluster's own nodes, so a re-run against a live cluster errs on the safe side.
+ * An adopted cluster already has its node group and network, so only the pools are checked.
+ */
+export async function checkCapacity(input: PreflightInput, adoptedCluster = false): Promise<CapacityResult> {
+  const blockers: CapacityResult["blockers"] = [];
+  const remediation: CapacityResult["remediation"] = [];
+  const region = input.awsRegion;
+  const poolVCpus = poolCpuLimits(input.clusterName);
+  const evidence: CapacityEvidence = { instanceType: input.nodeType, zones: [], nodeGroupVCpus: 0, poolVCpus, quotas: [] };
+
+  if (!adoptedCluster) {
+    const nodeGroup = await checkNodeGroupType(input, evidence, blockers, remediation);
+    if (!nodeGroup) return { ok: false, blockers, remediation, evidence };
+  }
+
+  const shortfall = async (code: string, quota: QuotaRef, used: number, required: number) => {
+    const q = await getQuotaValue(quota, region);
+    evidence.quotas.push({ name: quota.name, quotaCode: quota.quotaCode, limit: q.value, used, required });
+    if (!q.ok || q.value === undefined) {
+      remediation.push({ message: `⚠️  Could not read quota "${quota.name}" (${q.error}); install may fail on it.` });
+      return;
+    }
+    if (used + required > q.value) {
+      blockers.push({
+        code,
+        message: `${quota.name}: ${used} in use + ${required} required > limit ${q.value} in ${region}.`,
+      });
+      remediation.push(quotaIncreaseRemediation(quota, region, used + required));
+    }
+  };
+
+  // Pools may launch on either capacity type, so each quota must cover their full ceiling
+  const poolTotal = Object.values(poolVCpus).reduce((a, b) => a + b, 0);
+  const usage = await standardVCpuUsage(region);
+  if (!usage.ok) {
+    remediation.push({ message: `⚠️  Could not read running instances (${usage.error}); vCPU usage is assumed to be 0.` });
+  }
+  if (adoptedCluster || isStandardInstanceType(input.nodeType)) {
+    await shortfall("INSUFFICIENT_ONDEMAND_VCPU_QUOTA", QUOTAS.onDemandStandardVCpus, usage.onDemand, evidence.nodeGroupVCpus + poolTotal);
+  } else {
+    await shortfall("INSUFFICIENT_ONDEMAND_VCPU_QUOTA", QUOTAS.onDemandStandardVCpus, usage.onDemand, poolTotal);
+    remediation.push({ message: `⚠️  ${input.nodeType} is not a Standard family; check its own On-Demand vCPU quota in the Service Quotas console.` });
+  }
+  await shortfall("INSUFFICIENT_SPOT_VCPU_QUOTA", QUOTAS.spotStandardVCpus, usage.spot, poolTotal);
+
+  if (adoptedCluster) return { ok: blockers.length === 0, blockers, remediation, evidence };
+
+  // eksctl creates one VPC and a single NAT gateway with one Elastic IP
+  const vpcs = await countVpcs(region);
+  if (vpcs.ok) await shortfall("VPC_LIMIT_REACHED", QUOTAS.vpcs, vpcs.count, 1);
+  const eips = await countElasticIps(region);
+  if (eips.ok) await shortfall("EIP_LIMIT_REACHED", QUOTAS.elasticIps, eips.count, 1);
+  const nats = await maxNatGatewaysPerZone(region);
+  if (nats.ok) await shortfall("NAT_GATEWAY_LIMIT_REACHED", QUOTAS.natGatewaysPerZone, nats.max, 1);
+  for (const failed of [vpcs, eips, nats].filter((r) => !r.ok)) {
+    remediation.push({ message: `⚠️  Could not count existing network resources (${failed.error}).` });
+  }
+
+  return { ok: blockers.length === 0, blockers, remediation, evidence };
+}
@@ -1,4 +1,5 @@
 import { execCmd } from "../tools/exec.js";
+import { inspectToolboxImage } from "../tools/docker.js";
 
 export async function checkDockerAvailable(): Promise<{
   ok: boolean;
@@ -15,3 +16,20 @@ export async function checkDockerAvailable(): Promise<{
     return { ok: false, error: String(err) };
   }
 }
+
+/**
+ * The toolbox image docker mode runs must already be pulled; its digest goes into evidence
+ */
+export async function checkToolboxImage(image: string): Promise<{
+  ok: boolean;
+  digest?: string;
+  error?: string;
+}> {
+  try {
+    const found = await inspectToolboxImage(image);
+    if (!found) return { ok: false, error: `Image ${image} is not present locally` };
+    return { ok: true, digest: found.digest ?? found.id };
+  } catch (err) {
+    return { ok: false, error: String(err) };
+  }
+}
@@ -0,0 +1,227 @@
+import { PreflightInput } from "../schema.js";
+import {
+  describeAddon,
+  describeEksCluster,
+  describeNodegroup,
+  listAccessEntries,
+  listNodegroups,
+  listPodIdentityAssociations,
+  PodIdentityAssociation,
+  updateKubeconfig,
+} from "../tools/eks.js";
+import { getJson } from "../tools/kubectl.js";
+import { EKS_ADDONS, EKS_VERSION } from "../install/phases.js";
+import { iamNames } from "../install/names.js";
+
+// Oldest Kubernetes version the pinned Karpenter and add-ons are installed on
+const MIN_EKS_VERSION = "1.30";
+
+export type ExistingClusterEvidence = {
+  version: string;
+  status: string;
+  authenticationMode: string;
+  addons: { name: string; installed: boolean; version?: string; status?: string }[];
+  podIdentityAssociations: PodIdentityAssociation[];
+  /**
+   * Present when the controller deployment, a NodePool or an EC2NodeClass is in the cluster; the
+   * karpenter pod identity association and the node role's access entry are listed as evidence only
+   */
+  karpenter: { present: boolean; evidence: string[] };
+  nodegroups: { name: string; status?: string; instanceTypes: string[]; desiredSize?: number }[];
+};
+
+export type ExistingClusterResult = {
+  ok: boolean;
+  blockers: Array<{ code: string; message: string }>;
+  remediation: Array<{ message: string }>;
+  evidence?: ExistingClusterEvidence;
+};
+
+const compareK8s = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// role/name or role/some/path/name
+const roleName = (arn: string) => arn.slice(arn.lastIndexOf("/") + 1);
+
+/**
+ * Pod identity associations the install creates with a role of its own, so an existing one
+ * bound to another role would leave the installed policy unused
+ */
+function ownedAssociations(input: PreflightInput) {
+  const names = iamNames(input.clusterName, input.namespace);
+  return [
+    { namespace: input.namespace, serviceAccount: names.appServiceAccount, role: names.appRole },
+    { namespace: "kube-system", serviceAccount: "aws-load-balancer-controller", role: names.lbcRole },
+  ];
+}
+
+// CRDs a Karpenter install brings; without them kubectl has no such resource type
+const KARPENTER_RESOURCES = ["nodepools.karpenter.sh", "ec2nodeclasses.karpenter.k8s.aws"];
+
+/**
+ * The Karpenter controller deployments, NodePools and EC2NodeClasses in the cluster
+ */
+async function karpenterInCluster(cluster: string, region: string): Promise<{ ok: boolean; found: string[]; error?: string }> {
+  const kc = await updateKubeconfig(cluster, region);
+  if (!kc.ok) return { ok: false, found: [], error: `Failed to update kubeconfig: ${kc.error}` };
+
+  const found: string[] = [];
+  const deployments = await getJson(["deployments", "-A", "-l", "app.kubernetes.io/name=karpenter"]);
+  if (!deployments.ok) return { ok: false, found, error: deployments.error };
+  for (const d of deployments.data?.items ?? []) found.push(`deployment ${d.metadata.namespace}/${d.metadata.name}`);
+
+  for (const resource of KARPENTER_RESOURCES) {
+    const listed = await getJson([resource]);
+    if (!listed.ok) {
+      if (/doesn't have a resource type/.test(listed.error ?? "")) continue;
+      return { ok: false, found, error: listed.error };
+    }
+    for (const item of listed.data?.items ?? []) found.push(`${item.kind} ${item.metadata.name}`);
+  }
+  return { ok: true, found };
+}
+
+function findAssociation(evidence: ExistingClusterEvidence, namespace: string, serviceAccount: string) {
+  return evidence.podIdentityAssociations.find((a) => a.namespace === namespace && a.serviceAccount === serviceAccount);
+}
+
+/**
+ * Inspect a cluster the install would adopt instead of create: Kubernetes version, auth mode,
+ * the add-ons and pod identity associations the install relies on, Karpenter and node groups.
+ * Anything the install cannot work with is a blocker; what already exists is left to the plan.
+ */
+export async function inspectExistingCluster(input: PreflightInput): Promise<ExistingClusterResult> {
+  const blockers: ExistingClusterResult["blockers"] = [];
+  const remediation: ExistingClusterResult["remediation"] = [];
+  const cluster = input.clusterName;
+  const region = input.awsRegion;
+  const failed = (what: string, error?: string): ExistingClusterResult => ({
+    ok: false,
+    blockers: [{ code: "CLUSTER_INSPECTION_FAILED", message: `Could not read ${what} of cluster ${cluster}: ${error}` }],
+    remediation: [{ message: "Check the EKS read permissions (eks:Describe*, eks:List*) of the profile." }],
+  });
+
+  const described = await describeEksCluster(cluster, region);
+  if (!described.ok) return failed("the configuration", described.error);
+
+  const addons: ExistingClusterEvidence["addons"] = [];
+  for (const name of EKS_ADDONS) {
+    const a = await describeAddon(cluster, name, region);
+    if (!a.ok && !a.notFound) return failed(`addon ${name}`, a.error);
+    addons.push(a.ok ? { name, installed: true, version: a.version, status: a.status } : { name, installed: false });
+  }
+
+  const associations = await listPodIdentityAssociations(cluster, region);
+  if (!associations.ok) return failed("the pod identity associations", associations.error);
+
+  const listed = await listNodegroups(cluster, region);
+  if (!listed.ok) return failed("the node groups", listed.error);
+  const nodegroups: ExistingClusterEvidence["nodegroups"] = [];
+  for (const name of listed.nodegroups ?? []) {
+    const ng = await describeNodegroup(cluster, name, region);
+    if (!ng.ok) return failed(`node group ${name}`, ng.error);
+    nodegroups.push({ name, status: ng.status, instanceTypes: ng.instanceTypes ?? [], desiredSize: ng.desiredSize });
+  }
+
+  const names = iamNames(cluster, input.namespace);
+  const karpenterEvidence: string[] = [];
+  const podIdentityAssociations = associations.associations ?? [];
+  const evidence: ExistingClusterEvidence = {
+    version: described.version!,
+    status: described.status!,
+    authenticationMode: described.authenticationMode!,
+    addons,
+    podIdentityAssociations,
+    karpenter: { present: false, evidence: karpenterEvidence },
+    nodegroups,
+  };
+  const karpenterAssociation = findAssociation(evidence, "kube-system", "karpenter");
+  if (karpenterAssociation) karpenterEvidence.push(`pod identity association kube-system/karpenter (${karpenterAssociation.roleArn})`);
+  // Access entries cannot be listed in CONFIG_MAP mode
+  if (evidence.authenticationMode !== "CONFIG_MAP") {
+    const entries = await listAccessEntries(cluster, region);
+    if (!entries.ok) return failed("the access entries", entries.error);
+    const nodeRole = (entries.principalArns ?? []).find((arn) => roleName(arn) === names.karpenterNodeRole);
+    if (nodeRole) karpenterEvidence.push(`access entry ${nodeRole}`);
+  }
+  // Roles and entries outlive an uninstalled Karpenter, so only what runs in the cluster counts
+  const inCluster = await karpenterInCluster(cluster, region);
+  if (!inCluster.ok) {
+    remediation.push({ message: `⚠️  Could not look for Karpenter in cluster ${cluster} (${inCluster.error}); its setup runs again.` });
+  }
+  karpenterEvidence.push(...inCluster.found);
+  evidence.karpenter.present = inCluster.found.length > 0;
+
+  if (evidence.status !== "ACTIVE") {
+    blockers.push({
+      code: "CLUSTER_NOT_ACTIVE",
+      message: `Cluster ${cluster} is ${evidence.status}; the install can only adopt an ACTIVE cluster.`,
+    });
+    remediation.push({ message: `Wait for the cluster to become ACTIVE: aws eks wait cluster-active --name ${cluster} --region ${region}` });
+  }
+
+  if (compareK8s(evidence.version, MIN_EKS_VERSION) < 0) {
+    blockers.push({
+      code: "CLUSTER_VERSION_UNSUPPORTED",
+      message: `Cluster ${cluster} runs Kubernetes ${evidence.version}; the install needs ${MIN_EKS_VERSION} or newer.`,
+    });
+    remediation.push({
+      message: `Upgrade one minor version at a time: aws eks update-cluster-version --name ${cluster} --kubernetes-version <next> --region ${region}`,
+    });
+  } else if (evidence.version !== EKS_VERSION) {
+    remediation.push({
+      message: `⚠️  Cluster ${cluster} runs Kubernetes ${evidence.version}; new clusters are created with ${EKS_VERSION}, which the charts are tested on.`,
+    });
+  }
+
+  // setup_karpenter.sh lets Karpenter nodes join through an access entry
+  if (evidence.authenticationMode === "CONFIG_MAP" && !evidence.karpenter.present) {
+    blockers.push({
+      code: "CLUSTER_AUTH_MODE",
+      message: `Cluster ${cluster} only uses the aws-auth ConfigMap; Karpenter setup needs access entries (API_AND_CONFIG_MAP or API).`,
+    });
+    remediation.push({
+      message: `Enable access entries: aws eks update-cluster-config --name ${cluster} --access-config authenticationMode=API_AND_CONFIG_MAP --region ${region}`,
+    });
+  }
+
+  for (const addon of addons) {
+    if (!addon.installed || addon.status === "ACTIVE" || addon.status === "UPDATING") continue;
+    remediation.push({
+      message: `⚠️  Addon ${addon.name} is ${addon.status}; the install keeps existing add-ons. Check: aws eks describe-addon --cluster-name ${cluster} --addon-name ${addon.name} --region ${region}`,
+    });
+  }
+
+  for (const owned of ownedAssociations(input)) {
+    const existing = findAssociation(evidence, owned.namespace, owned.serviceAccount);
+    if (!existing || roleName(existing.roleArn) === owned.role) continue;
+    blockers.push({
+      code: "POD_IDENTITY_CONFLICT",
+      message: `Service account ${owned.namespace}/${owned.serviceAccount} is already bound to ${existing.roleArn}, not ${owned.role}.`,
+    });
+    remediation.push({
+      message: `Remove the association to let the install bind its own role: eksctl delete podidentityassociation --cluster ${cluster} --namespace ${owned.namespace} --service-account-name ${owned.serviceAccount} --region ${region}`,
+    });
+  }
+
+  if (nodegroups.length === 0 && !evidence.karpenter.present) {
+    remediation.push({
+      message: `⚠️  Cluster ${cluster} has no managed node groups; Karpenter and the system pods need nodes to start on (self-managed and Fargate capacity is not inspected).`,
+    });
+  }
+
+  return { ok: blockers.length === 0, blockers, remediation, evidence };
+}
+
+/**
+ * One line per finding, for the preflight log
+ */
+export function formatExistingCluster(e: ExistingClusterEvidence): string[] {
+  const addons = e.addons.map((a) => (a.installed ? `${a.name} ${a.version} (${a.status})` : `${a.name} missing`));
+  return [
+    `Kubernetes ${e.version}, ${e.status}, auth mode ${e.authenticationMode}`,
+    `Add-ons: ${addons.join(", ")}`,
+    `Pod identity associations: ${e.podIdentityAssociations.map((a) => `${a.namespace}/${a.serviceAccount}`).join(", ") || "none"}`,
+    `Karpenter: ${e.karpenter.present ? e.karpenter.evidence.join("; ") : "not found"}`,
+    `Node groups: ${e.nodegroups.map((n) => `${n.name} (${n.desiredSize ?? "?"} x ${n.instanceTypes.join("/") || "?"})`).join(", ") || "none"}`,
+  ];
+}
@@ -83,6 +83,26 @@ export function validateRequiredVariables(input: PreflightInput & { certArn?: st
     });
   }
 
+  // Validate: Cost estimate sizing, when given
+  if (input.ingestGbPerDay !== undefined && !(input.ingestGbPerDay >= 0)) {
+    blockers.push({
+      code: "INVALID_INGEST_VOLUME",
+      message: `Ingest volume must be a number of GB per day. Got: ${input.ingestGbPerDay}`,
+    });
+    remediation.push({
+      message: "Provide a valid ingest volume with: --ingest-gb-per-day <GB>",
+    });
+  }
+  if (!(input.retentionDays >= 1)) {
+    blockers.push({
+      code: "INVALID_RETENTION_DAYS",
+      message: `Retention must be at least 1 day. Got: ${input.retentionDays}`,
+    });
+    remediation.push({
+      message: "Provide a valid retention with: --retention-days <days>",
+    });
+  }
+
   // Validate: Node type should be specified
   if (!input.nodeType || input.nodeType.trim() === "") {
     blockers.push({
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { phasesToRun } from "./permissions.js";
+import type { ExistingClusterEvidence } from "./cluster.js";
+
+const adopted = (serviceAccounts: string[]): ExistingClusterEvidence => ({
+  version: "1.34",
+  status: "ACTIVE",
+  authenticationMode: "API_AND_CONFIG_MAP",
+  addons: [],
+  podIdentityAssociations: serviceAccounts.map((serviceAccount) => ({
+    namespace: "kube-system",
+    serviceAccount,
+    roleArn: `arn:aws:iam::123456789012:role/${serviceAccount}`,
+  })),
+  karpenter: { present: false, evidence: [] },
+  nodegroups: [],
+});
+
+test("a new cluster needs the actions of every phase", () => {
+  assert.ok(phasesToRun().includes("cluster"));
+  assert.ok(phasesToRun().includes("pod-identity"));
+});
+
+test("an adopted cluster is not created, and a bound EBS CSI controller keeps its role", () => {
+  assert.ok(!phasesToRun(adopted([])).includes("cluster"));
+  assert.ok(phasesToRun(adopted([])).includes("pod-identity"));
+  assert.deepEqual(phasesToRun(adopted(["ebs-csi-controller-sa"])), [
+    "addons",
+    "s3",
+    "iam",
+    "helm",
+    "load-balancer-controller",
+    "ingress",
+  ]);
+});
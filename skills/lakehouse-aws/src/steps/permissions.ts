@@ -0,0 +1,61 @@
+import type { InstallPhaseId } from "../install/phases.js";
+import { PHASE_ACTIONS } from "../install/permissions.js";
+import { principalArnForCaller, simulatePrincipalPolicy } from "../tools/iam.js";
+import type { ExistingClusterEvidence } from "./cluster.js";
+
+export type PermissionEvidence = {
+  principalArn: string | null;
+  /** Install phases whose actions were simulated */
+  phases: InstallPhaseId[];
+  checkedActions: number;
+  /** Denied actions per install phase; "(org)" marks a denial by an SCP */
+  deniedByPhase: Partial<Record<InstallPhaseId, string[]>>;
+  /** Set when simulation could not run, so the result is unknown rather than clean */
+  inconclusive?: string;
+};
+
+/**
+ * The phases the install plan runs: adopting a cluster skips creating it, and an EBS CSI
+ * controller that is already bound skips its pod identity (the skipWhen of those phases)
+ */
+export function phasesToRun(existing?: ExistingClusterEvidence): InstallPhaseId[] {
+  const ebsBound = existing?.podIdentityAssociations.some(
+    (a) => a.namespace === "kube-system" && a.serviceAccount === "ebs-csi-controller-sa"
+  );
+  return (Object.keys(PHASE_ACTIONS) as InstallPhaseId[]).filter(
+    (phase) => !(existing && phase === "cluster") && !(ebsBound && phase === "pod-identity")
+  );
+}
+
+/**
+ * Simulate every action the installer needs for the phases it will run against the caller's
+ * effective policies
+ */
+export async function simulateInstallPermissions(
+  callerArn: string,
+  existing?: ExistingClusterEvidence
+): Promise<PermissionEvidence> {
+  const phases = phasesToRun(existing);
+  const actions = [...new Set(phases.flatMap((phase) => PHASE_ACTIONS[phase]))];
+  const evidence: PermissionEvidence = { principalArn: null, phases, checkedActions: 0, deniedByPhase: {} };
+
+  const principal = await principalArnForCaller(callerArn);
+  if (!principal.ok) return { ...evidence, inconclusive: principal.error };
+  if (principal.root) return { ...evidence, checkedActions: actions.length };
+  evidence.principalArn = principal.arn!;
+
+  const sim = await simulatePrincipalPolicy(principal.arn!, actions);
+  if (!sim.ok || !sim.results) return { ...evidence, inconclusive: sim.error };
+  evidence.checkedActions = sim.results.length;
+
+  const denied = new Map(
+    sim.results
+      .filter((r) => r.decision !== "allowed")
+      .map((r) => [r.action, r.deniedByOrganizations ? `${r.action} (org)` : r.action])
+  );
+  for (const phase of phases) {
+    const phaseDenied = PHASE_ACTIONS[phase].filter((a) => denied.has(a)).map((a) => denied.get(a)!);
+    if (phaseDenied.length > 0) evidence.deniedByPhase[phase] = phaseDenied;
+  }
+  return evidence;
+}
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { longestSuffixZone } from "./zones.js";
+
+const zones = [{ name: "example.com." }, { name: "k8.example.com." }, { name: "ample.com." }, { name: "" }];
+const pick = (domain: string) => longestSuffixZone(domain, zones, (z) => z.name)?.name ?? null;
+
+test("picks the most specific parent zone", () => {
+  assert.equal(pick("lakehouse.k8.example.com"), "k8.example.com.");
+  assert.equal(pick("www.example.com"), "example.com.");
+});
+
+test("matches the apex and ignores case and trailing dots", () => {
+  assert.equal(pick("Example.COM."), "example.com.");
+  assert.equal(longestSuffixZone("site.example.com", [{ name: "EXAMPLE.com" }], (z) => z.name)?.name, "EXAMPLE.com");
+});
+
+test("only matches on a label boundary", () => {
+  assert.equal(pick("lakehouse.sample.com"), null);
+  assert.equal(pick("example.org"), null);
+});
@@ -0,0 +1,21 @@
+/**
+ * Pick the DNS zone that is authoritative for a domain: the zone whose name is
+ * the longest suffix of the domain on a label boundary. Zone names may carry a
+ * trailing dot (Route53, Cloud DNS) or not (Azure DNS).
+ */
+export function longestSuffixZone<T>(domain: string, zones: T[], nameOf: (zone: T) => string): T | null {
+  const target = domain.toLowerCase().replace(/\.$/, "");
+  let best: T | null = null;
+  let bestLength = -1;
+
+  for (const zone of zones) {
+    const name = nameOf(zone).toLowerCase().replace(/\.$/, "");
+    if (!name) continue;
+    const matches = target === name || target.endsWith(`.${name}`);
+    if (matches && name.length > bestLength) {
+      best = zone;
+      bestLength = name.length;
+    }
+  }
+  return best;
+}
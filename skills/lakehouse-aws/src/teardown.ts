@@ -0,0 +1,138 @@
+import { ClusterInput } from "./schema.js";
+import { validateAwsAuth } from "./steps/auth.js";
+import { loadState, statePathFor } from "./install/state.js";
+import { TeardownResource, buildTeardownInventory, label } from "./teardown/inventory.js";
+import { deleteInventory } from "./teardown/delete.js";
+import { log } from "./log.js";
+
+export type { TeardownResource, TeardownResourceKind } from "./teardown/inventory.js";
+
+export type TeardownResult = {
+  okToTeardown: boolean;
+  blockers: { code: string; message: string }[];
+  remediation: { message: string }[];
+  evidence: {
+    awsAccountId?: string;
+    awsArn?: string;
+    statePath?: string;
+    stateFound?: boolean;
+    inventory: TeardownResource[];
+    removed: string[];
+    alreadyGone: string[];
+    /** Resources the install adopted or never created, left in place */
+    kept: string[];
+    failed: { resource: string; error: string }[];
+  };
+  next: { action: "teardown" | "done" | "stop"; reason: string };
+};
+
+function printInventory(inventory: TeardownResource[]) {
+  log.info(`\n================ Teardown Plan ================`);
+  for (const r of inventory) {
+    const mark = r.kept ? "= keep  " : r.present === null ? "? unknown" : r.present ? "✗ DELETE" : "· absent";
+    const notes = [r.detail, r.kept].filter(Boolean).join("; ");
+    log.info(`${mark}  ${r.kind.padEnd(13)} ${r.scope ? `${r.scope}/` : ""}${r.id}${notes ? ` (${notes})` : ""}`);
+  }
+  log.info(`===============================================\n`);
+}
+
+/**
+ * Inventory and (with approve) delete every lakehouse resource the install created, in dependency
+ * order: Helm releases, cluster, bucket, IAM roles, IAM policies, then orphaned EBS volumes.
+ * The install state decides what is the install's: an adopted cluster, a Karpenter that was
+ * already running and a bucket that already existed are kept. Without approve, only the
+ * inventory is returned as a dry-run plan.
+ */
+export async function runTeardown(input: ClusterInput): Promise<TeardownResult> {
+  const blockers: TeardownResult["blockers"] = [];
+  const remediation: TeardownResult["remediation"] = [];
+  const evidence: TeardownResult["evidence"] = { inventory: [], removed: [], alreadyGone: [], kept: [], failed: [] };
+  const stop = (reason: string): TeardownResult => ({
+    okToTeardown: false,
+    blockers,
+    remediation,
+    evidence,
+    next: { action: "stop", reason },
+  });
+
+  const authResult = await validateAwsAuth(input.awsProfile, input.awsRegion);
+  if (!authResult.ok) {
+    blockers.push(...authResult.blockers);
+    remediation.push(...authResult.remediation);
+    return stop("AWS authentication required. Run 'aws sso login' or configure credentials first.");
+  }
+  evidence.awsAccountId = authResult.accountId;
+  evidence.awsArn = authResult.arn;
+
+  const statePath = statePathFor(input.outputEnvPath);
+  const loaded = await loadState(statePath);
+  evidence.statePath = statePath;
+  if (!loaded.ok) {
+    blockers.push({ code: "INSTALL_STATE_INVALID", message: loaded.error });
+    return stop("The install state decides what teardown may delete, and it is unreadable.");
+  }
+  const state = loaded.state;
+  evidence.stateFound = !!state;
+  if (state && (state.clusterName !== input.clusterName || state.awsRegion !== input.awsRegion)) {
+    blockers.push({
+      code: "INSTALL_STATE_MISMATCH",
+      message: `${statePath} belongs to cluster ${state.clusterName} in ${state.awsRegion}, not ${input.clusterName} in ${input.awsRegion}.`,
+    });
+    remediation.push({ message: "Pass --output-env for the env file this cluster was installed with." });
+    return stop("The install state is for another cluster.");
+  }
+  if (!state) {
+    remediation.push({
+      message: `⚠️  No install state at ${statePath}; every resource named for '${input.clusterName}' is treated as created by the install.`,
+    });
+  }
+
+  log.info(`\n⏳ Building inventory for cluster '${input.clusterName}' in ${input.awsRegion}...`);
+  evidence.inventory = await buildTeardownInventory(input, authResult.accountId, state);
+  printInventory(evidence.inventory);
+  const unchecked = evidence.inventory.filter((r) => r.present === null && !r.kept);
+  if (unchecked.length > 0) {
+    remediation.push({
+      message: `⚠️  Could not check ${unchecked.map(label).join(", ")}; teardown tries to delete them and reports what fails.`,
+    });
+  }
+
+  if (!input.approve) {
+    return {
+      okToTeardown: true,
+      blockers,
+      remediation,
+      evidence,
+      next: { action: "teardown", reason: "Dry run. Review the inventory and re-run with --approve to delete." },
+    };
+  }
+
+  const outcome = await deleteInventory(evidence.inventory, input, state);
+  Object.assign(evidence, outcome);
+
+  for (const f of evidence.failed) {
+    blockers.push({ code: "TEARDOWN_FAILED", message: `Failed to delete ${f.resource}: ${f.error}` });
+  }
+  if (evidence.failed.length > 0) {
+    remediation.push({ message: "Resolve the errors above and re-run teardown with --approve; removed resources are reported as already gone." });
+  }
+
+  const done = evidence.failed.length === 0;
+  if (done) log.info(`\n✅ Teardown complete`);
+  else log.warn(`\n⚠️  Teardown finished with ${evidence.failed.length} failure(s)`);
+  return {
+    okToTeardown: done,
+    blockers,
+    remediation,
+    evidence,
+    next: done
+      ? {
+          action: "done",
+          reason:
+            evidence.kept.length > 0
+              ? `All resources the install created removed; ${evidence.kept.length} it did not create were kept.`
+              : "All lakehouse resources removed.",
+        }
+      : { action: "stop", reason: "Some resources could not be deleted." },
+  };
+}
@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CassetteInteraction, unusedInteractions } from "../tools/cassette.js";
+import { AuditEntry, setAuditLog } from "../tools/audit.js";
+import { setExecMode } from "../tools/shell.js";
+import { ClusterInputSchema } from "../schema.js";
+import { TeardownResource } from "./inventory.js";
+import { deleteInventory } from "./delete.js";
+
+const REGION = "us-east-1";
+const ENV = { AWS_REGION: REGION };
+const POLICY = "arn:aws:iam::123456789012:policy/ingext_ingext-sa_S3_Policy_lake";
+const input = ClusterInputSchema.parse({ awsRegion: REGION, clusterName: "lake", namespace: "ingext" });
+
+const ok = (stdout = "") => ({ code: 0, stdout, stderr: "" });
+const fail = (stderr: string) => ({ code: 1, stdout: "", stderr });
+
+// Replays the interactions and returns where the audit log records the order commands ran in
+function replay(interactions: CassetteInteraction[]) {
+  const dir = mkdtempSync(join(tmpdir(), "teardown-"));
+  writeFileSync(join(dir, "cassette.json"), JSON.stringify({ version: 1, recordedAt: "", interactions }));
+  setExecMode("replay", join(dir, "cassette.json"));
+  setAuditLog(join(dir, "audit.log"));
+  return join(dir, "audit.log");
+}
+
+const commands = (auditPath: string) =>
+  readFileSync(auditPath, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as AuditEntry)
+    .map((e) => [e.cmd, ...e.args.slice(0, 2)].join(" "));
+
+const describeVolumes = (result: CassetteInteraction["result"]) => ({
+  cmd: "aws",
+  args: ["ec2", "describe-volumes", "--region", REGION, "--filters", "Name=tag:kubernetes.io/created-for/pvc/namespace,Values=ingext", "--output", "json"],
+  env: ENV,
+  result,
+});
+
+test("deletes releases, cluster, bucket, roles and policies in order, then the volumes the cluster left", async () => {
+  const inventory: TeardownResource[] = [
+    { kind: "helm-release", id: "ingext-ingress", scope: "ingext", present: true },
+    { kind: "helm-release", id: "karpenter", scope: "kube-system", present: true },
+    { kind: "eks-cluster", id: "lake", scope: REGION, present: true },
+    { kind: "s3-bucket", id: "team-lake", scope: REGION, present: true },
+    { kind: "iam-role", id: "KarpenterNodeRole-lake", present: true },
+    { kind: "iam-policy", id: POLICY, present: true },
+    { kind: "ebs-volume", id: "vol-1", scope: REGION, present: true },
+  ];
+  const audit = replay([
+    { cmd: "helm", args: ["uninstall", "ingext-ingress", "-n", "ingext"], env: {}, result: ok() },
+    { cmd: "helm", args: ["uninstall", "karpenter", "-n", "kube-system"], env: {}, result: ok() },
+    { cmd: "eksctl", args: ["delete", "cluster", "--name", "lake", "--region", REGION, "--wait"], env: ENV, result: ok() },
+    { cmd: "aws", args: ["s3", "rb", "s3://team-lake", "--force", "--region", REGION], env: ENV, result: ok() },
+    ...[
+      ["list-attached-role-policies", "--role-name", "KarpenterNodeRole-lake", "--query", "AttachedPolicies[*].PolicyArn"],
+      ["list-role-policies", "--role-name", "KarpenterNodeRole-lake", "--query", "PolicyNames"],
+      ["list-instance-profiles-for-role", "--role-name", "KarpenterNodeRole-lake", "--query", "InstanceProfiles[*].InstanceProfileName"],
+    ].map((args) => ({ cmd: "aws", args: ["iam", ...args, "--output", "text"], env: {}, result: ok("None") })),
+    { cmd: "aws", args: ["iam", "delete-role", "--role-name", "KarpenterNodeRole-lake"], env: {}, result: ok() },
+    {
+      cmd: "aws",
+      args: ["iam", "list-policy-versions", "--policy-arn", POLICY, "--query", "Versions[?IsDefaultVersion==`false`].VersionId", "--output", "text"],
+      env: {},
+      result: ok(""),
+    },
+    { cmd: "aws", args: ["iam", "delete-policy", "--policy-arn", POLICY], env: {}, result: ok() },
+    // vol-1 went with the cluster; vol-2 was attached until the nodes were gone
+    describeVolumes(ok(JSON.stringify({ Volumes: [{ VolumeId: "vol-2", State: "available", Size: 10 }] }))),
+    { cmd: "aws", args: ["ec2", "delete-volume", "--volume-id", "vol-2", "--region", REGION], env: ENV, result: ok() },
+  ]);
+
+  const outcome = await deleteInventory(inventory, input, null);
+  setAuditLog(null);
+  assert.deepEqual(commands(audit), [
+    "helm uninstall ingext-ingress",
+    "helm uninstall karpenter",
+    "eksctl delete cluster",
+    "aws s3 rb",
+    "aws iam list-attached-role-policies",
+    "aws iam list-role-policies",
+    "aws iam list-instance-profiles-for-role",
+    "aws iam delete-role",
+    "aws iam list-policy-versions",
+    "aws iam delete-policy",
+    "aws ec2 describe-volumes",
+    "aws ec2 delete-volume",
+  ]);
+  assert.deepEqual(outcome, {
+    removed: [
+      "helm-release:ingext/ingext-ingress",
+      "helm-release:kube-system/karpenter",
+      `eks-cluster:${REGION}/lake`,
+      `s3-bucket:${REGION}/team-lake`,
+      "iam-role:KarpenterNodeRole-lake",
+      `iam-policy:${POLICY}`,
+      `ebs-volume:${REGION}/vol-2`,
+    ],
+    alreadyGone: [`ebs-volume:${REGION}/vol-1`],
+    kept: [],
+    failed: [],
+  });
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a failed delete is recorded and the rest carry on; unchecked resources are still tried", async () => {
+  const inventory: TeardownResource[] = [
+    { kind: "helm-release", id: "ingext-stack", scope: "ingext", present: null, detail: "helm list failed" },
+    { kind: "eks-cluster", id: "lake", scope: REGION, present: true },
+    { kind: "s3-bucket", id: "team-lake", scope: REGION, present: false },
+    { kind: "iam-policy", id: POLICY, present: null },
+  ];
+  const audit = replay([
+    { cmd: "helm", args: ["uninstall", "ingext-stack", "-n", "ingext"], env: {}, result: fail("Error: uninstall: Release not loaded: ingext-stack: release: not found") },
+    { cmd: "eksctl", args: ["delete", "cluster", "--name", "lake", "--region", REGION, "--wait"], env: ENV, result: fail("Error: AccessDenied: not authorized to perform cloudformation:DeleteStack") },
+    {
+      cmd: "aws",
+      args: ["iam", "list-policy-versions", "--policy-arn", POLICY, "--query", "Versions[?IsDefaultVersion==`false`].VersionId", "--output", "text"],
+      env: {},
+      result: ok(""),
+    },
+    { cmd: "aws", args: ["iam", "delete-policy", "--policy-arn", POLICY], env: {}, result: ok() },
+    describeVolumes(ok(JSON.stringify({ Volumes: [{ VolumeId: "vol-3", State: "in-use", Size: 10 }] }))),
+  ]);
+
+  const outcome = await deleteInventory(inventory, input, null);
+  setAuditLog(null);
+  assert.ok(!commands(audit).includes("aws s3 rb"));
+  assert.deepEqual(outcome.removed, [`iam-policy:${POLICY}`]);
+  assert.deepEqual(outcome.alreadyGone, ["helm-release:ingext/ingext-stack", `s3-bucket:${REGION}/team-lake`]);
+  assert.deepEqual(
+    outcome.failed.map((f) => f.resource),
+    [`eks-cluster:${REGION}/lake`, `ebs-volume:${REGION}/vol-3`]
+  );
+  assert.match(outcome.failed[0].error, /AccessDenied/);
+  assert.match(outcome.failed[1].error, /in-use, not available; still attached/);
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("volumes are left alone when the install did not deploy the releases that claimed them", async () => {
+  replay([]);
+  const state = { version: 1 as const, clusterName: "lake", awsRegion: REGION, updatedAt: "", phases: {} };
+  const outcome = await deleteInventory(
+    [{ kind: "ebs-volume", id: "vol-1", scope: REGION, present: true, kept: "the helm phase did not create it" }],
+    input,
+    state
+  );
+  setAuditLog(null);
+  assert.deepEqual(outcome, { removed: [], alreadyGone: [], kept: [`ebs-volume:${REGION}/vol-1`], failed: [] });
+});
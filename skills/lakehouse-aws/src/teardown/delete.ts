@@ -0,0 +1,98 @@
+import { ClusterInput } from "../schema.js";
+import { deleteCluster } from "../tools/eks.js";
+import { uninstall } from "../tools/helm.js";
+import { deletePolicy, deleteRole } from "../tools/iam.js";
+import { deleteVolume, listVolumesForNamespace } from "../tools/ec2.js";
+import { removeBucket } from "../tools/s3.js";
+import { TeardownResource, VOLUMES_PHASE, keptReason, label } from "./inventory.js";
+import type { InstallState } from "../install/state.js";
+import { log } from "../log.js";
+
+export type TeardownOutcome = {
+  removed: string[];
+  alreadyGone: string[];
+  kept: string[];
+  failed: { resource: string; error: string }[];
+};
+
+async function deleteResource(r: TeardownResource, input: ClusterInput): Promise<{ ok: boolean; existed?: boolean; error?: string }> {
+  switch (r.kind) {
+    case "helm-release":
+      return uninstall(r.id, r.scope!);
+    case "eks-cluster":
+      return deleteCluster(r.id, input.awsRegion);
+    case "s3-bucket":
+      return removeBucket(r.id, input.awsRegion);
+    case "iam-role":
+      return deleteRole(r.id);
+    case "iam-policy":
+      return deletePolicy(r.id);
+    case "ebs-volume":
+      return deleteVolume(r.id, input.awsRegion);
+  }
+}
+
+/**
+ * Delete the inventory in its order (Helm releases, cluster, bucket, IAM roles, IAM policies),
+ * then the EBS volumes the cluster left detached. Kept resources are never touched, and a
+ * failed delete is recorded and the rest carry on.
+ */
+export async function deleteInventory(
+  inventory: TeardownResource[],
+  input: ClusterInput,
+  state: InstallState | null
+): Promise<TeardownOutcome> {
+  const outcome: TeardownOutcome = { removed: [], alreadyGone: [], kept: [], failed: [] };
+
+  for (const r of inventory) {
+    if (r.kept) {
+      outcome.kept.push(label(r));
+      continue;
+    }
+    // Cluster deletion leaves PVC volumes detached, so volumes are re-listed afterwards
+    if (r.kind === "ebs-volume") continue;
+    if (r.present === false) {
+      outcome.alreadyGone.push(label(r));
+      continue;
+    }
+
+    log.info(`  Deleting ${label(r)}...`);
+    const d = await deleteResource(r, input);
+    if (!d.ok) {
+      outcome.failed.push({ resource: label(r), error: d.error ?? "unknown error" });
+    } else if (d.existed === false) {
+      outcome.alreadyGone.push(label(r));
+    } else {
+      outcome.removed.push(label(r));
+    }
+  }
+
+  // Volumes the cluster deletion detached are only the install's if its releases were
+  if (keptReason(state, VOLUMES_PHASE)) return outcome;
+  const volumes = inventory.filter((r) => r.kind === "ebs-volume");
+
+  const listed = await listVolumesForNamespace(input.namespace, input.awsRegion);
+  if (!listed.ok) {
+    outcome.failed.push({
+      resource: `ebs-volume:${input.awsRegion}/pvc-namespace/${input.namespace}`,
+      error: `Could not list volumes: ${listed.error}`,
+    });
+  }
+  for (const v of listed.volumes ?? []) {
+    const id = `ebs-volume:${input.awsRegion}/${v.volumeId}`;
+    if (v.state !== "available") {
+      outcome.failed.push({ resource: id, error: `Volume is ${v.state}, not available; still attached?` });
+      continue;
+    }
+    log.info(`  Deleting ${id}...`);
+    const d = await deleteVolume(v.volumeId, input.awsRegion);
+    if (!d.ok) outcome.failed.push({ resource: id, error: d.error ?? "unknown error" });
+    else outcome.removed.push(id);
+  }
+  for (const r of volumes) {
+    if (listed.ok && r.present !== null && !listed.volumes?.some((v) => v.volumeId === r.id)) {
+      outcome.alreadyGone.push(label(r));
+    }
+  }
+  return outcome;
+}
@@ -0,0 +1,191 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CassetteInteraction, unusedInteractions } from "../tools/cassette.js";
+import type { ExecResult } from "../tools/exec.js";
+import { setAuditLog } from "../tools/audit.js";
+import { setExecMode } from "../tools/shell.js";
+import { ClusterInputSchema } from "../schema.js";
+import { InstallState } from "../install/state.js";
+import { buildTeardownInventory, label } from "./inventory.js";
+import { deleteInventory } from "./delete.js";
+
+setAuditLog(null);
+
+const ACCOUNT = "123456789012";
+const REGION = "us-east-1";
+const ENV = { AWS_REGION: REGION };
+const input = ClusterInputSchema.parse({ awsRegion: REGION, clusterName: "lake", s3Bucket: "team-lake", namespace: "ingext" });
+
+const ok = (stdout = "") => ({ code: 0, stdout, stderr: "" });
+const fail = (stderr: string) => ({ code: 254, stdout: "", stderr });
+
+function replay(interactions: CassetteInteraction[]) {
+  const path = join(mkdtempSync(join(tmpdir(), "teardown-")), "cassette.json");
+  writeFileSync(path, JSON.stringify({ version: 1, recordedAt: new Date().toISOString(), interactions }));
+  setExecMode("replay", path);
+}
+
+const completed = (outputs?: Record<string, string>) => ({
+  status: "completed" as const,
+  inputsHash: "x",
+  startedAt: "",
+  finishedAt: "",
+  ...(outputs ? { outputs } : {}),
+});
+
+const noSuchEntity = fail("An error occurred (NoSuchEntity) when calling the GetRole operation");
+const accessDenied = fail("An error occurred (AccessDeniedException) when calling the operation: not authorized");
+
+const ROLES = [
+  "ingext_ingext-sa_lake",
+  "AmazonEKS_EBS_CSI_DriverRole_lake",
+  "AWSLoadBalancerControllerRole_lake",
+  "KarpenterControllerRole-lake",
+  "KarpenterNodeRole-lake",
+];
+const POLICIES = ["ingext_ingext-sa_S3_Policy_lake", "AWSLoadBalancerControllerIAMPolicy_lake", "KarpenterControllerPolicy-lake"];
+
+const describeCluster = (result: ExecResult) => ({
+  cmd: "aws",
+  args: ["eks", "describe-cluster", "--name", "lake", "--region", REGION, "--output", "json"],
+  env: ENV,
+  result,
+});
+const listReleases = (releases: { name: string; namespace: string }[]) => [
+  { cmd: "aws", args: ["eks", "update-kubeconfig", "--region", REGION, "--name", "lake", "--alias", "lake"], env: ENV, result: ok() },
+  { cmd: "helm", args: ["list", "--output", "json", "-A"], env: {}, result: ok(JSON.stringify(releases)) },
+];
+const headBucket = (result: ExecResult) => ({
+  cmd: "aws",
+  args: ["s3api", "head-bucket", "--bucket", "team-lake", "--expected-bucket-owner", ACCOUNT, "--output", "json"],
+  env: ENV,
+  result,
+});
+const getRoles = (result: (role: string) => ExecResult) =>
+  ROLES.map((role) => ({ cmd: "aws", args: ["iam", "get-role", "--role-name", role, "--output", "json"], env: {}, result: result(role) }));
+const getPolicies = (result: ExecResult) =>
+  POLICIES.map((policy) => ({
+    cmd: "aws",
+    args: ["iam", "get-policy", "--policy-arn", `arn:aws:iam::${ACCOUNT}:policy/${policy}`, "--output", "json"],
+    env: {},
+    result,
+  }));
+const describeVolumes = (result: ExecResult) => ({
+  cmd: "aws",
+  args: ["ec2", "describe-volumes", "--region", REGION, "--filters", "Name=tag:kubernetes.io/created-for/pvc/namespace,Values=ingext", "--output", "json"],
+  env: ENV,
+  result,
+});
+
+test("an adopted cluster, its Karpenter and a pre-existing bucket are kept; only what install created is deleted", async () => {
+  // The cluster and bucket phases were skipped, and Karpenter was already running
+  const state: InstallState = {
+    version: 1,
+    clusterName: "lake",
+    awsRegion: REGION,
+    updatedAt: "",
+    phases: {
+      addons: completed(),
+      "pod-identity": completed(),
+      iam: completed({ S3_POLICY_ARN: `arn:aws:iam::${ACCOUNT}:policy/ingext_ingext-sa_S3_Policy_lake` }),
+      helm: completed({ KARPENTER_INSTALLED: "false" }),
+      "load-balancer-controller": completed(),
+      ingress: completed(),
+    },
+  };
+  const volume = JSON.stringify({ Volumes: [{ VolumeId: "vol-1", State: "available", Size: 10 }] });
+  replay([
+    describeCluster(ok(JSON.stringify({ cluster: { version: "1.31", status: "ACTIVE" } }))),
+    ...listReleases([
+      { name: "karpenter", namespace: "kube-system" },
+      { name: "ingext-stack", namespace: "ingext" },
+    ]),
+    headBucket(ok("{}")),
+    ...getRoles((role) => (role.startsWith("Karpenter") ? ok("{}") : noSuchEntity)),
+    ...getPolicies(noSuchEntity),
+    describeVolumes(ok(volume)),
+    describeVolumes(ok(volume)),
+    { cmd: "helm", args: ["uninstall", "ingext-stack", "-n", "ingext"], env: {}, result: ok() },
+    { cmd: "aws", args: ["ec2", "delete-volume", "--volume-id", "vol-1", "--region", REGION], env: ENV, result: ok() },
+  ]);
+
+  const inventory = await buildTeardownInventory(input, ACCOUNT, state);
+  const kept = inventory.filter((r) => r.kept).map(label);
+  assert.deepEqual(kept, [
+    "helm-release:kube-system/karpenter",
+    `eks-cluster:${REGION}/lake`,
+    `s3-bucket:${REGION}/team-lake`,
+    "iam-role:KarpenterControllerRole-lake",
+    "iam-role:KarpenterNodeRole-lake",
+    `iam-policy:arn:aws:iam::${ACCOUNT}:policy/KarpenterControllerPolicy-lake`,
+  ]);
+  assert.equal(inventory.find((r) => r.kind === "eks-cluster")?.kept, "the cluster phase did not create it");
+
+  // Any delete of a kept resource would be a command the cassette does not have
+  const outcome = await deleteInventory(inventory, input, state);
+  assert.deepEqual(outcome.failed, []);
+  assert.deepEqual(outcome.kept, kept);
+  assert.deepEqual(outcome.removed, ["helm-release:ingext/ingext-stack", `ebs-volume:${REGION}/vol-1`]);
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("without a state file everything is the install's, and what could not be checked is unknown", async () => {
+  replay([
+    describeCluster(accessDenied),
+    headBucket(fail("An error occurred (403) when calling the HeadBucket operation: Forbidden")),
+    ...getRoles(() => accessDenied),
+    ...getPolicies(ok("{}")),
+    describeVolumes(accessDenied),
+  ]);
+
+  const inventory = await buildTeardownInventory(input, ACCOUNT, null);
+  assert.ok(inventory.every((r) => !r.kept));
+  const releases = inventory.filter((r) => r.kind === "helm-release");
+  assert.ok(releases.every((r) => r.present === null && /cluster could not be checked/.test(r.detail ?? "")));
+  // Reverse install order: the ingress and its ALB go first, the gp3 StorageClass last
+  assert.equal(releases[0].id, "karpenter");
+  assert.equal(releases[1].id, "ingext-ingress");
+  assert.equal(releases.at(-1)?.id, "ingext-aws-gp3");
+  assert.deepEqual(
+    inventory.filter((r) => r.kind !== "helm-release").map((r) => [label(r), r.present]),
+    [
+      [`eks-cluster:${REGION}/lake`, null],
+      [`s3-bucket:${REGION}/team-lake`, null],
+      ...ROLES.map((role) => [`iam-role:${role}`, null]),
+      ...POLICIES.map((policy) => [`iam-policy:arn:aws:iam::${ACCOUNT}:policy/${policy}`, true]),
+      [`ebs-volume:${REGION}/pvc-namespace/ingext`, null],
+    ]
+  );
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a deleted cluster has no releases to list, and a failed phase's resources are kept", async () => {
+  const state: InstallState = {
+    version: 1,
+    clusterName: "lake",
+    awsRegion: REGION,
+    updatedAt: "",
+    phases: {
+      cluster: completed(),
+      addons: { status: "failed", inputsHash: "x", startedAt: "", finishedAt: "", error: "addon timed out" },
+    },
+  };
+  replay([
+    describeCluster(fail("An error occurred (ResourceNotFoundException) when calling the DescribeCluster operation")),
+    headBucket(fail("An error occurred (404) when calling the HeadBucket operation: Not Found")),
+    ...getRoles(() => noSuchEntity),
+    ...getPolicies(noSuchEntity),
+    describeVolumes(ok(JSON.stringify({ Volumes: [] }))),
+  ]);
+
+  const inventory = await buildTeardownInventory(input, ACCOUNT, state);
+  assert.ok(inventory.every((r) => r.present === false));
+  const byId = (id: string) => inventory.find((r) => r.id === id)!;
+  assert.equal(byId("lake").kept, undefined);
+  assert.equal(byId("ingext-aws-gp3").kept, "the addons phase failed; remove what it left by hand");
+  assert.equal(byId("ingext-stack").kept, "the helm phase did not create it");
+  assert.deepEqual(unusedInteractions(), []);
+});
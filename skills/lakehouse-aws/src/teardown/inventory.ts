@@ -0,0 +1,168 @@
+import { ClusterInput, resolveS3Bucket } from "../schema.js";
+import { describeEksCluster, updateKubeconfig } from "../tools/eks.js";
+import { listReleases } from "../tools/helm.js";
+import { policyExists, roleExists } from "../tools/iam.js";
+import { listVolumesForNamespace } from "../tools/ec2.js";
+import { headBucketOwner } from "../tools/s3.js";
+import type { InstallPhaseId } from "../install/phases.js";
+import { RELEASES } from "../install/releases.js";
+import { InstallState, managedByInstall } from "../install/state.js";
+import { iamNames } from "../install/names.js";
+
+export type TeardownResourceKind = "helm-release" | "eks-cluster" | "s3-bucket" | "iam-role" | "iam-policy" | "ebs-volume";
+
+export type TeardownResource = {
+  kind: TeardownResourceKind;
+  id: string;
+  /** Namespace for releases, region for regional resources */
+  scope?: string;
+  /** null when it could not be checked; detail then says why, and approve still tries the delete */
+  present: boolean | null;
+  detail?: string;
+  /** Why teardown leaves it in place: the install adopted it or never created it */
+  kept?: string;
+};
+
+// Releases the installer creates outside RELEASES (setup_karpenter.sh)
+const EXTRA_RELEASES = [{ release: "karpenter", namespace: "kube-system" }];
+
+/** Phase whose releases claim the PVCs the EBS volumes back */
+export const VOLUMES_PHASE: InstallPhaseId = "helm";
+
+export const label = (r: TeardownResource) => `${r.kind}:${r.scope ? `${r.scope}/` : ""}${r.id}`;
+
+/**
+ * Why the install state says a phase's resources are not the install's to delete, or undefined
+ * when they are. Without a state file everything named for the cluster counts as the install's.
+ */
+export function keptReason(state: InstallState | null, phase: InstallPhaseId): string | undefined {
+  if (managedByInstall(state, phase)) return undefined;
+  const record = state?.phases[phase];
+  if (record?.status === "failed") return `the ${phase} phase failed; remove what it left by hand`;
+  return `the ${phase} phase did not create it`;
+}
+
+// setup_karpenter.sh ran only when the helm phase found no Karpenter; older state files do not say
+function karpenterKeptReason(state: InstallState | null): string | undefined {
+  const kept = keptReason(state, "helm");
+  if (kept) return kept;
+  return state?.phases.helm?.outputs?.KARPENTER_INSTALLED === "false" ? "Karpenter was installed before" : undefined;
+}
+
+/**
+ * Build the list of everything named for the cluster, using the same inputs as preflight.
+ * Each entry records whether the resource currently exists, and resources the install state
+ * shows were adopted or never created are marked kept.
+ */
+export async function buildTeardownInventory(
+  input: ClusterInput,
+  accountId: string,
+  state: InstallState | null
+): Promise<TeardownResource[]> {
+  const inventory: TeardownResource[] = [];
+  const region = input.awsRegion;
+
+  const cluster = await describeEksCluster(input.clusterName, region);
+  const hasCluster = cluster.ok ? true : cluster.notFound ? false : null;
+
+  // Helm releases can only be listed while the cluster is reachable
+  const knownReleases = [
+    ...RELEASES.map((r) => ({
+      release: r.release,
+      namespace: r.namespace === "app" ? input.namespace : r.namespace,
+      kept: keptReason(state, r.phase),
+    })),
+    ...EXTRA_RELEASES.map((r) => ({ ...r, kept: karpenterKeptReason(state) })),
+  ];
+  let installed: { name: string; namespace: string }[] = [];
+  let listError: string | undefined;
+  if (hasCluster === null) {
+    listError = `cluster could not be checked: ${cluster.error}`;
+  } else if (hasCluster) {
+    const kc = await updateKubeconfig(input.clusterName, region);
+    const listed = kc.ok ? await listReleases() : null;
+    if (!kc.ok) listError = `kubeconfig update failed: ${kc.error}`;
+    else if (!listed?.ok) listError = `helm list failed: ${listed?.error}`;
+    else installed = listed.releases ?? [];
+  }
+  // Uninstall in reverse install order so the ingress (and its ALB) goes first
+  for (const r of [...knownReleases].reverse()) {
+    inventory.push({
+      kind: "helm-release",
+      id: r.release,
+      scope: r.namespace,
+      present: listError ? null : installed.some((i) => i.name === r.release && i.namespace === r.namespace),
+      detail: listError,
+      kept: r.kept,
+    });
+  }
+
+  inventory.push({
+    kind: "eks-cluster",
+    id: input.clusterName,
+    scope: region,
+    present: hasCluster,
+    detail: cluster.ok ? cluster.status : hasCluster === null ? cluster.error : undefined,
+    kept: keptReason(state, "cluster"),
+  });
+
+  const bucket = resolveS3Bucket(input, accountId);
+  const b = await headBucketOwner(bucket, accountId, region);
+  inventory.push({
+    kind: "s3-bucket",
+    id: bucket,
+    scope: region,
+    present: b.ok && b.state !== "forbidden" ? b.state === "owned" : null,
+    detail: !b.ok ? b.error : b.state === "forbidden" ? "another account owns it, or the profile may not read it" : undefined,
+    kept: keptReason(state, "s3"),
+  });
+
+  const names = iamNames(input.clusterName, input.namespace);
+  const roles: [string, string | undefined][] = [
+    [names.appRole, keptReason(state, "iam")],
+    [names.ebsCsiRole, keptReason(state, "pod-identity")],
+    [names.lbcRole, keptReason(state, "load-balancer-controller")],
+    [names.karpenterControllerRole, karpenterKeptReason(state)],
+    [names.karpenterNodeRole, karpenterKeptReason(state)],
+  ];
+  for (const [role, kept] of roles) {
+    const r = await roleExists(role);
+    inventory.push({ kind: "iam-role", id: role, present: r.ok ? r.exists : null, detail: r.ok ? undefined : r.error, kept });
+  }
+
+  const policies: [string, string | undefined][] = [
+    [names.appPolicy, keptReason(state, "iam")],
+    [names.lbcPolicy, keptReason(state, "load-balancer-controller")],
+    [names.karpenterControllerPolicy, karpenterKeptReason(state)],
+  ];
+  for (const [policy, kept] of policies) {
+    const arn = `arn:aws:iam::${accountId}:policy/${policy}`;
+    const p = await policyExists(arn);
+    inventory.push({ kind: "iam-policy", id: arn, present: p.ok ? p.exists : null, detail: p.ok ? undefined : p.error, kept });
+  }
+
+  const volumesKept = keptReason(state, VOLUMES_PHASE);
+  const volumes = await listVolumesForNamespace(input.namespace, region);
+  if (!volumes.ok) {
+    inventory.push({
+      kind: "ebs-volume",
+      id: `pvc-namespace/${input.namespace}`,
+      scope: region,
+      present: null,
+      detail: volumes.error,
+      kept: volumesKept,
+    });
+  }
+  for (const v of volumes.volumes ?? []) {
+    inventory.push({
+      kind: "ebs-volume",
+      id: v.volumeId,
+      scope: region,
+      present: true,
+      detail: `${v.sizeGiB}GiB ${v.state}${v.pvcName ? ` pvc=${v.pvcName}` : ""}`,
+      kept: volumesKept,
+    });
+  }
+
+  return inventory;
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CertificateDetail, evaluateCertificateDetail, nameCovers } from "./acm.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("a wildcard covers exactly one label", () => {
+  assert.equal(nameCovers("*.example.com", "a.example.com"), true);
+  assert.equal(nameCovers("*.example.com", "a.b.example.com"), false);
+  assert.equal(nameCovers("*.example.com", "example.com"), false);
+  assert.equal(nameCovers("*.example.com", "a.badexample.com"), false);
+});
+
+test("exact names match case-insensitively, with or without a trailing dot", () => {
+  assert.equal(nameCovers("Lakehouse.Example.com", "lakehouse.example.com."), true);
+  assert.equal(nameCovers("lakehouse.example.com", "www.lakehouse.example.com"), false);
+});
+
+function cert(overrides: Partial<CertificateDetail> = {}): CertificateDetail {
+  return {
+    CertificateArn: "arn:aws:acm:us-east-1:123456789012:certificate/abc",
+    DomainName: "example.com",
+    SubjectAlternativeNames: ["example.com", "*.example.com", "lakehouse.k8.example.com"],
+    Status: "ISSUED",
+    Type: "AMAZON_ISSUED",
+    NotAfter: new Date(Date.now() + 200 * DAY_MS).toISOString(),
+    RenewalEligibility: "ELIGIBLE",
+    InUseBy: [],
+    ...overrides,
+  };
+}
+
+test("prefers an exact SAN over a wildcard one", () => {
+  const e = evaluateCertificateDetail(cert(), "lakehouse.k8.example.com", 30);
+  assert.equal(e.accepted, true);
+  assert.equal(e.matchedName, "lakehouse.k8.example.com");
+  assert.equal(e.wildcard, false);
+});
+
+test("rejects a certificate whose SANs do not cover the host", () => {
+  const e = evaluateCertificateDetail(cert({ SubjectAlternativeNames: ["example.com", "*.example.com"] }), "a.k8.example.com", 30);
+  assert.equal(e.accepted, false);
+  assert.match(e.reasons[0], /no SAN covers a\.k8\.example\.com/);
+});
+
+test("rejects expired and unissued certificates, and warns about one expiring soon", () => {
+  const expired = evaluateCertificateDetail(cert({ NotAfter: new Date(Date.now() - 2 * DAY_MS).toISOString() }), "x.example.com", 30);
+  assert.equal(expired.accepted, false);
+  assert.ok(expired.reasons.some((r) => r.startsWith("expired on")));
+
+  const pending = evaluateCertificateDetail(cert({ Status: "PENDING_VALIDATION" }), "x.example.com", 30);
+  assert.deepEqual(pending.reasons, ["status is PENDING_VALIDATION"]);
+
+  const soon = evaluateCertificateDetail(
+    cert({ NotAfter: new Date(Date.now() + 10 * DAY_MS).toISOString(), RenewalEligibility: "INELIGIBLE" }),
+    "x.example.com",
+    30
+  );
+  assert.equal(soon.accepted, true);
+  assert.match(soon.reasons[1], /not eligible for managed renewal/);
+});
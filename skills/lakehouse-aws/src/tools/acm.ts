@@ -1,16 +1,47 @@
-import { run } from "./shell";
+import { createHash } from "node:crypto";
+import { run } from "./shell.js";
+
+export type CertificateSummary = {
+  CertificateArn: string;
+  DomainName: string;
+  SubjectAlternativeNameSummaries?: string[];
+  HasAdditionalSubjectAlternativeNames?: boolean;
+};
+
+/** The describe-certificate fields the skill reads */
+export type CertificateDetail = {
+  CertificateArn: string;
+  DomainName: string;
+  SubjectAlternativeNames?: string[];
+  Status: string;
+  Type?: string;
+  NotAfter?: string | number;
+  RenewalEligibility?: string;
+  InUseBy?: string[];
+  FailureReason?: string;
+  DomainValidationOptions?: { DomainName: string; ResourceRecord?: { Name: string; Type: string; Value: string } }[];
+};
 
 export async function listCertificates(region: string) {
   const result = await run(
     "aws",
-    ["acm", "list-certificates", "--region", region, "--output", "json"],
+    [
+      "acm",
+      "list-certificates",
+      "--includes",
+      "keyTypes=RSA_2048,RSA_3072,RSA_4096,EC_prime256v1,EC_secp384r1",
+      "--region",
+      region,
+      "--output",
+      "json",
+    ],
     { AWS_REGION: region }
   );
   if (!result.ok) {
     return { ok: false, error: result.stderr };
   }
   try {
-    return { ok: true, data: JSON.parse(result.stdout) };
+    return { ok: true, data: JSON.parse(result.stdout) as { CertificateSummaryList?: CertificateSummary[] } };
   } catch {
     return { ok: false, error: "Failed to parse ACM list response" };
   }
@@ -26,54 +57,224 @@ export async function describeCertificate(arn: string, region: string) {
     return { ok: false, error: result.stderr };
   }
   try {
-    return { ok: true, data: JSON.parse(result.stdout) };
+    return { ok: true, data: JSON.parse(result.stdout) as { Certificate?: CertificateDetail } };
   } catch {
     return { ok: false, error: "Failed to parse ACM describe response" };
   }
 }
 
 /**
- * Find certificates that cover a specific domain (exact or wildcard match)
+ * Whether a certificate name covers a host name. A wildcard stands for exactly
+ * one label: *.example.com covers a.example.com but not a.b.example.com or example.com.
+ */
+export function nameCovers(certName: string, host: string): boolean {
+  const name = certName.toLowerCase().replace(/\.$/, "");
+  const target = host.toLowerCase().replace(/\.$/, "");
+  if (!name.startsWith("*.")) return name === target;
+  const base = name.slice(2);
+  if (!target.endsWith(`.${base}`)) return false;
+  const label = target.slice(0, -(base.length + 1));
+  return label.length > 0 && !label.includes(".");
+}
+
+export type CertificateEvaluation = {
+  arn: string;
+  domain: string;
+  /** The SAN that covers the requested host, if any */
+  matchedName: string | null;
+  wildcard: boolean;
+  status: string;
+  type: string | null;
+  notAfter: string | null;
+  daysToExpiry: number | null;
+  renewalEligible: boolean;
+  inUse: boolean;
+  accepted: boolean;
+  /** Why the certificate was accepted or rejected, plus any warnings */
+  reasons: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Judge one certificate for a host from its describe-certificate detail
+ */
+export function evaluateCertificateDetail(cert: CertificateDetail, host: string, expiryWarnDays: number): CertificateEvaluation {
+  const names = cert.SubjectAlternativeNames ?? [cert.DomainName];
+  // Prefer an exact SAN over a wildcard one
+  const matchedName =
+    names.find((n) => !n.startsWith("*.") && nameCovers(n, host)) ?? names.find((n) => nameCovers(n, host)) ?? null;
+  const notAfter = cert.NotAfter ? new Date(cert.NotAfter).toISOString() : null;
+  const daysToExpiry = notAfter ? Math.floor((Date.parse(notAfter) - Date.now()) / DAY_MS) : null;
+
+  const evaluation: CertificateEvaluation = {
+    arn: cert.CertificateArn,
+    domain: cert.DomainName,
+    matchedName,
+    wildcard: !!matchedName?.startsWith("*."),
+    status: cert.Status,
+    type: cert.Type ?? null,
+    notAfter,
+    daysToExpiry,
+    renewalEligible: cert.RenewalEligibility === "ELIGIBLE",
+    inUse: (cert.InUseBy ?? []).length > 0,
+    accepted: false,
+    reasons: [],
+  };
+
+  if (!matchedName) {
+    evaluation.reasons.push(`no SAN covers ${host} (SANs: ${names.join(", ")}; a wildcard covers one label only)`);
+  }
+  if (cert.Status !== "ISSUED") {
+    evaluation.reasons.push(`status is ${cert.Status}`);
+  }
+  if (daysToExpiry !== null && daysToExpiry < 0) {
+    evaluation.reasons.push(`expired on ${notAfter}`);
+  }
+  evaluation.accepted = evaluation.reasons.length === 0;
+
+  if (evaluation.accepted) {
+    evaluation.reasons.push(`${evaluation.wildcard ? "wildcard" : "exact"} SAN ${matchedName} covers ${host}`);
+    if (daysToExpiry !== null && daysToExpiry <= expiryWarnDays) {
+      evaluation.reasons.push(
+        `warning: expires in ${daysToExpiry} days${evaluation.renewalEligible ? " (eligible for managed renewal)" : " and is not eligible for managed renewal"}`
+      );
+    }
+  }
+  return evaluation;
+}
+
+/**
+ * Best first: exact over wildcard, not expiring soon, renewable by ACM, then latest expiry
  */
-export async function findCertificatesForDomain(domain: string, region: string) {
+function rankKey(e: CertificateEvaluation, expiryWarnDays: number): number[] {
+  const expiringSoon = e.daysToExpiry !== null && e.daysToExpiry <= expiryWarnDays;
+  return [e.wildcard ? 1 : 0, expiringSoon ? 1 : 0, e.renewalEligible ? 0 : 1, -(e.daysToExpiry ?? 0)];
+}
+
+function compareKeys(a: number[], b: number[]) {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return 0;
+}
+
+export async function evaluateCertificate(arn: string, host: string, region: string, expiryWarnDays: number) {
+  const d = await describeCertificate(arn, region);
+  if (!d.ok) return { ok: false, error: d.error };
+  if (!d.data?.Certificate) return { ok: false, error: `describe-certificate returned no certificate for ${arn}` };
+  return { ok: true, evaluation: evaluateCertificateDetail(d.data.Certificate, host, expiryWarnDays) };
+}
+
+/**
+ * Find certificates that cover a host. Every plausible candidate is described so
+ * that all SANs, status and expiry are judged; accepted matches come back ranked
+ * best first and every evaluation (accepted or not) is returned with its reasons.
+ */
+export async function findCertificatesForDomain(domain: string, region: string, expiryWarnDays = 30) {
   const listResult = await listCertificates(region);
   if (!listResult.ok) {
     return { ok: false, error: listResult.error };
   }
 
-  const certificates = listResult.data?.CertificateSummaryList || [];
-  const matches: Array<{ arn: string; domain: string; status: string; wildcard: boolean }> = [];
-
-  for (const cert of certificates) {
-    // Only consider ISSUED certificates
-    if (cert.Status !== "ISSUED") continue;
-
-    const certDomain = cert.DomainName || "";
-    
-    // Exact match
-    if (certDomain === domain) {
-      matches.push({
-        arn: cert.CertificateArn,
-        domain: certDomain,
-        status: cert.Status,
-        wildcard: false,
-      });
-      continue;
-    }
+  const host = domain.toLowerCase();
+  const summaries = listResult.data?.CertificateSummaryList || [];
+  // The summary lists DomainName and at most a few SANs; describe anything that might cover the host
+  const candidates = summaries.filter((c) => {
+    const names = [c.DomainName, ...(c.SubjectAlternativeNameSummaries ?? [])];
+    return c.HasAdditionalSubjectAlternativeNames || names.some((n) => n && host.endsWith(n.replace(/^\*\./, "").toLowerCase()));
+  });
 
-    // Wildcard match (*.example.com covers lakehouse.k8.example.com)
-    if (certDomain.startsWith("*.")) {
-      const wildcardBase = certDomain.slice(2); // Remove "*."
-      if (domain.endsWith(wildcardBase)) {
-        matches.push({
-          arn: cert.CertificateArn,
-          domain: certDomain,
-          status: cert.Status,
-          wildcard: true,
-        });
+  const evaluations: CertificateEvaluation[] = [];
+  for (const c of candidates) {
+    const e = await evaluateCertificate(c.CertificateArn, host, region, expiryWarnDays);
+    if (!e.ok || !e.evaluation) return { ok: false, error: e.error };
+    evaluations.push(e.evaluation);
+  }
+
+  const matches = evaluations
+    .filter((e) => e.accepted)
+    .sort((a, b) => compareKeys(rankKey(a, expiryWarnDays), rankKey(b, expiryWarnDays)))
+    .map((e) => ({ arn: e.arn, domain: e.matchedName!, status: e.status, wildcard: e.wildcard, evaluation: e }));
+
+  return { ok: true, matches, evaluations };
+}
+
+/**
+ * Request a DNS-validated certificate. The idempotency token makes a re-run
+ * within the hour return the same certificate instead of a duplicate.
+ */
+export async function requestCertificate(domain: string, region: string, sans: string[] = []) {
+  const token = createHash("sha256").update([domain, ...sans].join(",")).digest("hex").slice(0, 32);
+  const result = await run(
+    "aws",
+    [
+      "acm",
+      "request-certificate",
+      "--domain-name",
+      domain,
+      "--validation-method",
+      "DNS",
+      ...(sans.length > 0 ? ["--subject-alternative-names", domain, ...sans] : []),
+      "--idempotency-token",
+      token,
+      "--region",
+      region,
+      "--output",
+      "json",
+    ],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, arn: JSON.parse(result.stdout).CertificateArn as string };
+  } catch {
+    return { ok: false, error: "Failed to parse ACM request response" };
+  }
+}
+
+export type ValidationRecord = { name: string; type: string; value: string };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Poll describe-certificate until ACM has published the DNS validation records.
+ * Wildcard and apex names share one record, so the list is de-duplicated.
+ */
+export async function waitForValidationRecords(arn: string, region: string, timeoutMs = 60_000) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const d = await describeCertificate(arn, region);
+    if (!d.ok) return { ok: false, error: d.error, records: [] as ValidationRecord[] };
+    const options = d.data?.Certificate?.DomainValidationOptions ?? [];
+    if (options.length > 0 && options.every((o) => o.ResourceRecord)) {
+      const records = new Map<string, ValidationRecord>();
+      for (const { ResourceRecord: r } of options) {
+        if (r) records.set(r.Name, { name: r.Name, type: r.Type, value: r.Value });
       }
+      return { ok: true, records: [...records.values()] };
     }
+    if (Date.now() > deadline) {
+      return { ok: false, error: "ACM did not publish validation records in time", records: [] as ValidationRecord[] };
+    }
+    await sleep(5_000);
   }
+}
 
-  return { ok: true, matches };
+/**
+ * Poll until the certificate leaves PENDING_VALIDATION or the timeout expires
+ */
+export async function waitForCertificateIssued(arn: string, region: string, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const d = await describeCertificate(arn, region);
+    const status: string | undefined = d.ok ? d.data?.Certificate?.Status : undefined;
+    if (status && status !== "PENDING_VALIDATION") {
+      return { ok: status === "ISSUED", status, reason: d.data?.Certificate?.FailureReason };
+    }
+    if (Date.now() > deadline) {
+      return { ok: false, status: status ?? "UNKNOWN", reason: d.ok ? "timed out waiting for validation" : d.error };
+    }
+    await sleep(15_000);
+  }
 }
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { audit, redactArgs, redactOutput, redactText, setAuditLog } from "./audit.js";
+
+test("redactArgs hides secret flag values in both forms and kubectl literals", () => {
+  assert.deepEqual(
+    redactArgs(["registry", "login", "--password", "hunter2", "--token=abc", "--region", "us-east-1"]),
+    ["registry", "login", "--password", "[REDACTED]", "--token=[REDACTED]", "--region", "us-east-1"]
+  );
+  assert.deepEqual(redactArgs(["create", "secret", "generic", "s", "--from-literal=apiKey=k3y"]), [
+    "create",
+    "secret",
+    "generic",
+    "s",
+    "--from-literal=apiKey=[REDACTED]",
+  ]);
+});
+
+test("redactText masks credentials in JSON and headers and leaves the rest", () => {
+  const text = '{"AccessKeyId": "AKIAEXAMPLE", "SecretAccessKey": "wJalr/EXAMPLE", "SessionToken": "IQoJ"}';
+  assert.equal(
+    redactText(text),
+    '{"AccessKeyId": "AKIAEXAMPLE", "SecretAccessKey": "[REDACTED]", "SessionToken": "[REDACTED]"}'
+  );
+  assert.equal(redactText("Authorization: Bearer eyJhbGci.x.y"), "Authorization: Bearer [REDACTED]");
+  assert.equal(redactText("created tok_a1B2c3"), "created [REDACTED]");
+});
+
+test("redactOutput hides all output of a subcommand that prints a credential", () => {
+  assert.equal(redactOutput(["ecr-public", "get-login-password"], "eyJwYXlsb2FkIjoi"), "[REDACTED]");
+  assert.equal(redactOutput(["s3api", "list-buckets"], '{"Buckets": []}'), '{"Buckets": []}');
+});
+
+test("audit writes redacted entries, one JSON line each", () => {
+  const path = join(mkdtempSync(join(tmpdir(), "audit-")), "audit.log");
+  setAuditLog(path);
+  try {
+    audit({
+      at: "2026-01-01T00:00:00.000Z",
+      mode: "local",
+      cmd: "aws",
+      args: ["sts", "get-session-token", "--token-code", "123456"],
+      envKeys: ["AWS_REGION"],
+      attempt: 1,
+      durationMs: 10,
+      exitCode: 0,
+      outcome: "ok",
+      stdout: '{"Credentials": {"SessionToken": "IQoJ"}}',
+    });
+  } finally {
+    setAuditLog(null);
+  }
+  const lines = readFileSync(path, "utf8").trim().split("\n");
+  assert.equal(lines.length, 1);
+  const entry = JSON.parse(lines[0]);
+  assert.equal(entry.stdout, "[REDACTED]");
+  assert.deepEqual(entry.envKeys, ["AWS_REGION"]);
+  assert.doesNotMatch(lines[0], /IQoJ/);
+});
@@ -0,0 +1,91 @@
+import { appendFileSync } from "node:fs";
+import type { ExecMode } from "./exec.js";
+import { log } from "../log.js";
+
+export const DEFAULT_AUDIT_LOG = "./lakehouse-aws.audit.log";
+
+export type AuditEntry = {
+  at: string;
+  mode: ExecMode;
+  cmd: string;
+  args: string[];
+  /** Keys of the extra env passed to the command; values are never written */
+  envKeys: string[];
+  attempt: number;
+  durationMs: number;
+  /** Null when the command did not exit on its own (spawn error or cancellation) */
+  exitCode: number | null;
+  outcome: "ok" | "failed" | "timed-out" | "throttled" | "cancelled" | "spawn-error";
+  stdout?: string;
+  stderr?: string;
+};
+
+const REDACTED = "[REDACTED]";
+const OUTPUT_LIMIT = 2_000;
+
+// Subcommands whose whole stdout is a credential
+const SECRET_OUTPUT = ["get-login-password", "get-authorization-token", "get-session-token", "assume-role", "get-token"];
+
+// Flags whose value is a secret, in both "--flag value" and "--flag=value" form
+const SECRET_FLAGS = ["--password", "--token", "--secret", "--client-secret", "--session-token", "--secret-access-key"];
+
+// kubectl create secret: keep the key, hide the literal
+const FROM_LITERAL = /^(--from-literal=[^=]+=).*$/;
+
+const SECRET_TEXT: RegExp[] = [
+  /("?(?:Password|password|SecretAccessKey|SessionToken|secretAccessKey|sessionToken|token|authorizationToken)"?\s*[:=]\s*"?)[^"\s,}]+/g,
+  /(Bearer\s+)\S+/gi,
+  /\btok_[A-Za-z0-9]+/g,
+];
+
+let auditPath: string | null = DEFAULT_AUDIT_LOG;
+let warned = false;
+
+/**
+ * Where every command is appended, one JSON line each; null turns the audit log off
+ */
+export function setAuditLog(path: string | null) {
+  auditPath = path;
+}
+
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) => {
+    if (SECRET_FLAGS.includes(args[i - 1])) return REDACTED;
+    const eq = arg.indexOf("=");
+    if (eq > 0 && SECRET_FLAGS.includes(arg.slice(0, eq))) return `${arg.slice(0, eq + 1)}${REDACTED}`;
+    return arg.replace(FROM_LITERAL, `$1${REDACTED}`);
+  });
+}
+
+export function redactText(text: string): string {
+  return SECRET_TEXT.reduce(
+    (t, re) => t.replace(re, (_, prefix) => (typeof prefix === "string" ? `${prefix}${REDACTED}` : REDACTED)),
+    text
+  );
+}
+
+/**
+ * Command output with secrets masked; all of it for a subcommand whose output is a credential
+ */
+export function redactOutput(args: string[], text: string): string {
+  return args.some((a) => SECRET_OUTPUT.includes(a)) ? REDACTED : redactText(text);
+}
+
+/**
+ * Append one entry. The log is append-only and a write failure never fails the command.
+ */
+export function audit(entry: AuditEntry) {
+  if (!auditPath) return;
+  const redacted: AuditEntry = {
+    ...entry,
+    args: redactArgs(entry.args),
+    stdout: entry.stdout ? redactOutput(entry.args, entry.stdout).slice(0, OUTPUT_LIMIT) : undefined,
+    stderr: entry.stderr ? redactText(entry.stderr).slice(0, OUTPUT_LIMIT) : undefined,
+  };
+  try {
+    appendFileSync(auditPath, `${JSON.stringify(redacted)}\n`, { mode: 0o600 });
+  } catch (err) {
+    if (!warned) log.warn(`⚠️  Could not write audit log ${auditPath}: ${String(err)}`);
+    warned = true;
+  }
+}
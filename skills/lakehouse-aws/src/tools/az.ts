@@ -0,0 +1,98 @@
+import { run } from "./shell.js";
+
+export type AzAccount = { id: string; name: string; state: string; tenantId: string; user?: { name: string } };
+export type AzDnsZone = { name: string; resourceGroup: string };
+export type AzVmSku = {
+  name: string;
+  family: string;
+  capabilities?: { name: string; value: string }[];
+  restrictions?: { type: string }[];
+};
+export type AzVmUsage = { name?: { value: string }; limit: number; currentValue: number };
+
+/**
+ * Run an az command with JSON output. A ResourceNotFound error is returned as
+ * notFound rather than a failure so callers can tell "absent" from "broken".
+ */
+async function azJson<T>(args: string[]) {
+  const result = await run("az", [...args, "--output", "json"]);
+  if (!result.ok) {
+    const notFound = /ResourceNotFound|ResourceGroupNotFound|could not be found|was not found/i.test(result.stderr);
+    return { ok: false, notFound, error: result.stderr };
+  }
+  try {
+    return { ok: true, notFound: false, data: result.stdout ? (JSON.parse(result.stdout) as T) : null };
+  } catch {
+    return { ok: false, notFound: false, error: `Failed to parse az ${args.slice(0, 2).join(" ")} response` };
+  }
+}
+
+export async function showAccount(subscription?: string) {
+  return azJson<AzAccount>(["account", "show", ...(subscription ? ["--subscription", subscription] : [])]);
+}
+
+export async function showProvider(namespace: string, subscription?: string) {
+  return azJson<{ registrationState: string }>(["provider", "show", "-n", namespace, ...(subscription ? ["--subscription", subscription] : [])]);
+}
+
+export async function showResourceGroup(name: string, subscription?: string) {
+  return azJson<{ location: string }>(["group", "show", "-n", name, ...(subscription ? ["--subscription", subscription] : [])]);
+}
+
+export async function showAksCluster(resourceGroup: string, name: string, subscription?: string) {
+  return azJson<{ provisioningState: string; powerState?: { code: string } }>([
+    "aks",
+    "show",
+    "-g",
+    resourceGroup,
+    "-n",
+    name,
+    ...(subscription ? ["--subscription", subscription] : []),
+  ]);
+}
+
+export async function checkStorageAccountName(name: string, subscription?: string) {
+  return azJson<{ nameAvailable: boolean; reason?: string }>([
+    "storage",
+    "account",
+    "check-name",
+    "--name",
+    name,
+    ...(subscription ? ["--subscription", subscription] : []),
+  ]);
+}
+
+export async function showStorageAccount(resourceGroup: string, name: string, subscription?: string) {
+  return azJson<{ name: string; location: string }>([
+    "storage",
+    "account",
+    "show",
+    "-g",
+    resourceGroup,
+    "-n",
+    name,
+    ...(subscription ? ["--subscription", subscription] : []),
+  ]);
+}
+
+export async function listDnsZones(subscription?: string) {
+  return azJson<AzDnsZone[]>(["network", "dns", "zone", "list", ...(subscription ? ["--subscription", subscription] : [])]);
+}
+
+export async function listVmSkus(location: string, size: string, subscription?: string) {
+  return azJson<AzVmSku[]>([
+    "vm",
+    "list-skus",
+    "--location",
+    location,
+    "--size",
+    size,
+    "--resource-type",
+    "virtualMachines",
+    ...(subscription ? ["--subscription", subscription] : []),
+  ]);
+}
+
+export async function listVmUsage(location: string, subscription?: string) {
+  return azJson<AzVmUsage[]>(["vm", "list-usage", "--location", location, ...(subscription ? ["--subscription", subscription] : [])]);
+}
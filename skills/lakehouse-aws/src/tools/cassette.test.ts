@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Cassette, loadCassette, recordInteraction, replayInteraction, startRecording, unusedInteractions } from "./cassette.js";
+import { setAuditLog } from "./audit.js";
+import { setExecMode } from "./shell.js";
+import { inspectBucket } from "../steps/bucket.js";
+
+const FIXTURE = fileURLToPath(new URL("./fixtures/bucket.cassette.json", import.meta.url));
+
+setAuditLog(null);
+
+test("replays a recorded bucket inspection without running aws", async () => {
+  setExecMode("replay", FIXTURE);
+  const result = await inspectBucket("ingext-lakehouse-123456789012", "123456789012", "us-east-1");
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.evidence, {
+    name: "ingext-lakehouse-123456789012",
+    ownership: "owned",
+    region: "us-east-1",
+    encryption: { algorithm: "AES256", kmsKeyId: undefined },
+    versioning: "Enabled",
+    publicAccessBlock: null,
+    lifecycleRules: [
+      {
+        Expiration: { Days: 365 },
+        ID: "lakehouse-aws-bucket-policy",
+        Filter: { Prefix: "" },
+        Status: "Enabled",
+        Transitions: [{ Days: 30, StorageClass: "STANDARD_IA" }],
+      },
+    ],
+  });
+  assert.match(result.remediation.map((r) => r.message).join("\n"), /does not block all public access/);
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a command the cassette does not have fails the replay", async () => {
+  setExecMode("replay", FIXTURE);
+  assert.throws(() => replayInteraction("aws", ["s3api", "list-buckets"]), /Unexpected command in replay/);
+  assert.equal(unusedInteractions().length, 5);
+});
+
+test("records with secrets redacted, and still replays commands that carry them", () => {
+  const path = join(mkdtempSync(join(tmpdir(), "cassette-")), "secrets.json");
+  startRecording(path);
+  recordInteraction({
+    cmd: "aws",
+    args: ["ecr-public", "get-login-password", "--region", "us-east-1"],
+    env: {},
+    result: { code: 0, stdout: "eyJwYXlsb2FkIjoi", stderr: "" },
+  });
+  recordInteraction({
+    cmd: "helm",
+    args: ["registry", "login", "public.ecr.aws", "--password", "hunter2"],
+    env: {},
+    result: { code: 1, stdout: "", stderr: "Error: unauthorized: Bearer abc.def" },
+  });
+
+  const written = readFileSync(path, "utf8");
+  assert.doesNotMatch(written, /eyJwYXlsb2FkIjoi|hunter2|abc\.def/);
+  const cassette = JSON.parse(written) as Cassette;
+  assert.equal(cassette.interactions[0].result?.stdout, "[REDACTED]");
+  assert.deepEqual(cassette.interactions[1].args, ["registry", "login", "public.ecr.aws", "--password", "[REDACTED]"]);
+
+  loadCassette(path);
+  const replayed = replayInteraction("helm", ["registry", "login", "public.ecr.aws", "--password", "other"]);
+  assert.equal(replayed.result?.code, 1);
+});
@@ -0,0 +1,101 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import type { ExecResult } from "./exec.js";
+import { redactArgs, redactOutput, redactText } from "./audit.js";
+import { log } from "../log.js";
+
+export type CassetteInteraction = {
+  cmd: string;
+  args: string[];
+  env: Record<string, string>;
+  /** Set when the command ran; absent when it failed to spawn */
+  result?: ExecResult;
+  /** Spawn error message (e.g. ENOENT when the tool is not installed) */
+  error?: string;
+};
+
+export type Cassette = {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+};
+
+type Loaded = { path: string; cassette: Cassette; used: boolean[] };
+
+let recording: Loaded | null = null;
+let replaying: Loaded | null = null;
+let exitHookInstalled = false;
+
+function keyOf(cmd: string, args: string[], env: Record<string, string> = {}) {
+  const sortedEnv = Object.keys(env)
+    .sort()
+    .map((k) => [k, env[k]]);
+  return JSON.stringify([cmd, args, sortedEnv]);
+}
+
+export function startRecording(path: string) {
+  recording = { path, cassette: { version: 1, recordedAt: new Date().toISOString(), interactions: [] }, used: [] };
+  writeFileSync(path, JSON.stringify(recording.cassette, null, 2));
+}
+
+/**
+ * Append an interaction and rewrite the cassette, so a crashed run still leaves
+ * everything it executed on disk. Secrets are redacted the way the audit log redacts them.
+ */
+export function recordInteraction(interaction: CassetteInteraction) {
+  if (!recording) throw new Error("Record mode requires a cassette path (--cassette <file>)");
+  const { cmd, args, env, result, error } = interaction;
+  recording.cassette.interactions.push({
+    cmd,
+    args: redactArgs(args),
+    env,
+    ...(result ? { result: { ...result, stdout: redactOutput(args, result.stdout), stderr: redactText(result.stderr) } } : {}),
+    ...(error !== undefined ? { error: redactText(error) } : {}),
+  });
+  writeFileSync(recording.path, JSON.stringify(recording.cassette, null, 2));
+}
+
+export function loadCassette(path: string) {
+  const cassette = JSON.parse(readFileSync(path, "utf8")) as Cassette;
+  if (cassette.version !== 1) throw new Error(`Unsupported cassette version ${cassette.version} in ${path}`);
+  reportUnusedInteractions();
+  replaying = { path, cassette, used: cassette.interactions.map(() => false) };
+  if (!exitHookInstalled) process.once("exit", reportUnusedInteractions);
+  exitHookInstalled = true;
+}
+
+/**
+ * The first unused interaction with the same command, args and env. Matching by
+ * key rather than position keeps replay deterministic when checks run concurrently.
+ */
+export function replayInteraction(cmd: string, args: string[], env?: Record<string, string>): CassetteInteraction {
+  if (!replaying) throw new Error("Replay mode requires a cassette path (--cassette <file>)");
+  // Recorded args are redacted, so live ones are redacted the same way to match them
+  const key = keyOf(cmd, redactArgs(args), env);
+  const index = replaying.cassette.interactions.findIndex(
+    (i, n) => !replaying!.used[n] && keyOf(i.cmd, i.args, i.env) === key
+  );
+  if (index === -1) {
+    throw new Error(`Unexpected command in replay (not in ${replaying.path}): ${[cmd, ...args].join(" ")}`);
+  }
+  replaying.used[index] = true;
+  return replaying.cassette.interactions[index];
+}
+
+/**
+ * Interactions the cassette recorded but the replayed run never asked for
+ */
+export function unusedInteractions(): CassetteInteraction[] {
+  if (!replaying) return [];
+  return replaying.cassette.interactions.filter((_, n) => !replaying!.used[n]);
+}
+
+/**
+ * Warn about the interactions a replay left unused: the code no longer runs commands the
+ * cassette expects, so the cassette is stale. Called before another cassette is loaded and on exit.
+ */
+export function reportUnusedInteractions() {
+  const unused = unusedInteractions();
+  if (unused.length === 0) return;
+  log.warn(`⚠️  ${unused.length} recorded command(s) in ${replaying!.path} were never replayed:`);
+  for (const i of unused) log.warn(`   ${[i.cmd, ...i.args].join(" ")}`);
+}
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setAuditLog } from "./audit.js";
+import { stopToolbox } from "./docker.js";
+import { run, setExecMode } from "./shell.js";
+
+const dir = mkdtempSync(join(tmpdir(), "docker-"));
+const calls = join(dir, "calls.log");
+const auditLog = join(dir, "audit.jsonl");
+
+// Stands in for the docker CLI: the container is this machine, and like the real client an
+// exec that is killed leaves its command running
+writeFileSync(
+  join(dir, "docker"),
+  `#!/bin/sh
+echo "$*" >> ${calls}
+case "$1" in
+  image) echo '[{"Id":"sha256:1d","RepoDigests":["public.ecr.aws/ingext/ingext-shell@sha256:d1"]}]' ;;
+  run) echo c0ffee ;;
+  rm) ;;
+  exec)
+    shift
+    while [ "$1" = "--interactive" ] || [ "$1" = "-e" ] || [ "$1" = "--workdir" ]; do
+      [ "$1" = "--interactive" ] && shift || shift 2
+    done
+    shift
+    "$@" &
+    wait $!
+    ;;
+esac
+`
+);
+chmodSync(join(dir, "docker"), 0o755);
+process.env.PATH = `${dir}:${process.env.PATH}`;
+// The toolbox mounts ~/.aws and ~/.kube, creating them first
+process.env.HOME = dir;
+
+const logged = () => readFileSync(calls, "utf8").trim().split("\n");
+
+test("a command that times out in the toolbox is killed inside the container by the PID it recorded", async () => {
+  setAuditLog(auditLog);
+  setExecMode("docker", undefined, "public.ecr.aws/ingext/ingext-shell:1.0.0");
+
+  const startedAt = Date.now();
+  const result = await run("sleep", ["30"], undefined, { timeoutMs: 500 });
+  // Killing the exec client alone would leave sleep holding the output open for the full 30s
+  assert.ok(Date.now() - startedAt < 10_000);
+  assert.equal(result.exitCode, 124);
+  assert.match(result.stderr, /sleep timed out after 1s$/);
+
+  const [inspect, start, exec, kill] = logged();
+  assert.equal(inspect, "image inspect public.ecr.aws/ingext/ingext-shell:1.0.0");
+  assert.match(start, /^run --detach --rm --label lakehouse-aws\.toolbox=true .* --entrypoint sleep sha256:1d infinity$/);
+  const pidFile = /echo \$\$ > (\S+) && exec/.exec(exec)?.[1];
+  assert.ok(pidFile, exec);
+  assert.equal(kill, `exec c0ffee sh -c kill -TERM "$(cat ${pidFile})"`);
+
+  // The docker commands that manage the toolbox run on the host, with their own audit entries
+  const audited = readFileSync(auditLog, "utf8").trim().split("\n").map((l) => JSON.parse(l));
+  assert.deepEqual(
+    audited.map((e) => [e.mode, e.cmd, e.args[0], e.outcome]),
+    [
+      ["local", "docker", "image", "ok"],
+      ["local", "docker", "run", "ok"],
+      ["docker", "sleep", "30", "timed-out"],
+    ]
+  );
+
+  stopToolbox();
+  assert.equal(logged().at(-1), "rm --force c0ffee");
+  setAuditLog(null);
+});
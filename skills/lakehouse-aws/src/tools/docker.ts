@@ -0,0 +1,147 @@
+import { spawnSync } from "node:child_process";
+import { mkdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+import { run } from "./shell.js";
+import { log } from "../log.js";
+
+// Bumped with each toolbox release, so an upgrade of this skill is also what changes its tools
+const TOOLBOX_TAG = "1.0.0";
+
+/** Toolbox with aws, eksctl, kubectl and helm; the image start-docker-shell.sh runs, at a pinned tag */
+export const TOOLBOX_IMAGE = `public.ecr.aws/ingext/ingext-shell:${TOOLBOX_TAG}`;
+
+// The charts and scripts install runs from the repo, so the repo is mounted too
+const REPO_ROOT = fileURLToPath(new URL("../../../..", import.meta.url));
+
+// Passed through from the host when set, so the container uses the same account and region
+const PASSTHROUGH_ENV = ["AWS_PROFILE", "AWS_REGION"];
+
+export type ToolboxImage = {
+  /** Local image ID; the container is started from it so the whole run uses exactly this image */
+  id: string;
+  /** Registry digest (repo@sha256:...), null for an image that was built locally and never pulled */
+  digest: string | null;
+};
+
+type Toolbox = { image: string; container: Promise<string>; id?: string };
+
+let IMAGE = TOOLBOX_IMAGE;
+let toolbox: Toolbox | null = null;
+let exitHookInstalled = false;
+
+/**
+ * Image the docker exec mode runs; a tag, or repo@sha256:... to pin a release
+ */
+export function setToolboxImage(image: string) {
+  IMAGE = image;
+}
+
+export function getToolboxImage(): string {
+  return IMAGE;
+}
+
+/**
+ * The image's local ID and registry digest, or null when it has not been pulled
+ */
+export async function inspectToolboxImage(image = IMAGE): Promise<ToolboxImage | null> {
+  const res = await run("docker", ["image", "inspect", image], undefined, { host: true });
+  if (!res.ok) return null;
+  const [info] = JSON.parse(res.stdout) as { Id: string; RepoDigests?: string[] }[];
+  const repo = image.split("@")[0].replace(/:[^:/]+$/, "");
+  const digests = info.RepoDigests ?? [];
+  return { id: info.Id, digest: digests.find((d) => d.startsWith(`${repo}@`)) ?? digests[0] ?? null };
+}
+
+/**
+ * -v flags: AWS config and kubeconfig read-write (the CLI refreshes SSO tokens and caches
+ * credentials under ~/.aws, update-kubeconfig writes ~/.kube) and the working directory
+ * read-write for env and state files. Host paths are mounted at the same path
+ * so file arguments mean the same thing inside the container.
+ */
+function mountArgs(cwd: string): string[] {
+  const aws = join(homedir(), ".aws");
+  const kube = join(homedir(), ".kube");
+  // Created up front; otherwise docker creates them owned by root
+  for (const dir of [aws, kube]) mkdirSync(dir, { recursive: true });
+
+  const mounts = [`${aws}:/root/.aws`, `${kube}:/root/.kube`, `${cwd}:${cwd}`];
+  const fromCwd = relative(cwd, REPO_ROOT);
+  // Already covered when the repo is the working directory or inside it
+  if (fromCwd.startsWith("..") || isAbsolute(fromCwd)) mounts.push(`${REPO_ROOT}:${REPO_ROOT}:ro`);
+  return mounts.flatMap((m) => ["-v", m]);
+}
+
+async function startToolbox(image: string): Promise<string> {
+  const found = await inspectToolboxImage(image);
+  if (!found) throw new Error(`Toolbox image ${image} is not present locally. Pull it with: docker pull ${image}`);
+
+  const cwd = process.cwd();
+  const env = PASSTHROUGH_ENV.filter((k) => process.env[k]).flatMap((k) => ["-e", k]);
+  const res = await run(
+    "docker",
+    [
+      "run",
+      "--detach",
+      "--rm",
+      "--label",
+      "lakehouse-aws.toolbox=true",
+      ...mountArgs(cwd),
+      ...env,
+      "--workdir",
+      cwd,
+      "--entrypoint",
+      "sleep",
+      found.id,
+      "infinity",
+    ],
+    undefined,
+    { host: true }
+  );
+  if (!res.ok) throw new Error(`Could not start toolbox container from ${image}: ${res.stderr}`);
+  const id = res.stdout.trim();
+  // A tag can move between runs; the digest it resolved to is what to pin
+  if (!image.includes("@sha256:") && found.digest) {
+    log.warn(`⚠️  Toolbox image ${image} is not pinned by digest; to keep using this one, pass --docker-image ${found.digest}`);
+  }
+  log.debug(`  toolbox container ${id.slice(0, 12)} started from ${image} (${found.digest ?? found.id})`);
+  return id;
+}
+
+/**
+ * The container every docker-mode command runs in, started on first use and removed when the
+ * process exits. Changing the image (a later tool call) replaces it.
+ */
+export function ensureToolbox(): Promise<string> {
+  if (toolbox?.image !== IMAGE) {
+    stopToolbox();
+    const current: Toolbox = { image: IMAGE, container: startToolbox(IMAGE) };
+    current.container.then(
+      (id) => (current.id = id),
+      // A failed start is retried by the next command instead of being cached
+      () => {
+        if (toolbox === current) toolbox = null;
+      }
+    );
+    toolbox = current;
+    if (!exitHookInstalled) process.once("exit", stopToolbox);
+    exitHookInstalled = true;
+  }
+  return toolbox.container;
+}
+
+function removeContainer(id: string) {
+  spawnSync("docker", ["rm", "--force", id], { stdio: "ignore" });
+}
+
+/**
+ * Remove the container. Synchronous once it has started, so it also works from the exit handler.
+ */
+export function stopToolbox() {
+  const current = toolbox;
+  toolbox = null;
+  if (!current) return;
+  if (current.id) removeContainer(current.id);
+  else current.container.then(removeContainer, () => {});
+}
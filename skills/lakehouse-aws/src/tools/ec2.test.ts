@@ -0,0 +1,15 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isStandardInstanceType } from "./ec2.js";
+
+test("counts the A, C, D, H, I, M, R, T and Z families as standard", () => {
+  for (const t of ["a1.large", "c7gn.xlarge", "d3en.2xlarge", "h1.2xlarge", "i4i.large", "im4gn.large", "is4gen.medium", "m7i-flex.large", "r6a.large", "t3.medium", "z1d.large"]) {
+    assert.equal(isStandardInstanceType(t), true, t);
+  }
+});
+
+test("leaves out families with quotas of their own that share a first letter", () => {
+  for (const t of ["dl1.24xlarge", "inf2.xlarge", "trn1.2xlarge", "hpc7g.4xlarge", "mac2.metal", "g5.xlarge", "p4d.24xlarge", "x2idn.large", "u-6tb1.metal"]) {
+    assert.equal(isStandardInstanceType(t), false, t);
+  }
+});
@@ -0,0 +1,183 @@
+import { run } from "./shell.js";
+
+export type Volume = { volumeId: string; state: string; sizeGiB: number; pvcName?: string };
+
+/**
+ * EBS volumes created by the EBS CSI driver for PVCs in a namespace
+ */
+export async function listVolumesForNamespace(namespace: string, region: string) {
+  const result = await run(
+    "aws",
+    [
+      "ec2",
+      "describe-volumes",
+      "--region",
+      region,
+      "--filters",
+      `Name=tag:kubernetes.io/created-for/pvc/namespace,Values=${namespace}`,
+      "--output",
+      "json",
+    ],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const data = JSON.parse(result.stdout) as {
+      Volumes?: { VolumeId: string; State: string; Size: number; Tags?: { Key: string; Value: string }[] }[];
+    };
+    const volumes: Volume[] = (data.Volumes ?? []).map((v) => ({
+      volumeId: v.VolumeId,
+      state: v.State,
+      sizeGiB: v.Size,
+      pvcName: (v.Tags ?? []).find((t) => t.Key === "kubernetes.io/created-for/pvc/name")?.Value,
+    }));
+    return { ok: true, volumes };
+  } catch {
+    return { ok: false, error: "Failed to parse EC2 describe-volumes response" };
+  }
+}
+
+export async function deleteVolume(volumeId: string, region: string) {
+  const result = await run("aws", ["ec2", "delete-volume", "--volume-id", volumeId, "--region", region], {
+    AWS_REGION: region,
+  });
+  if (!result.ok) {
+    if (/InvalidVolume\.NotFound/.test(result.stderr)) return { ok: true, existed: false };
+    return { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
+
+/**
+ * Regions enabled for the account
+ */
+export async function listRegions() {
+  const result = await run("aws", ["ec2", "describe-regions", "--output", "json"]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr, regions: [] as string[] };
+  }
+  try {
+    const data = JSON.parse(result.stdout) as { Regions?: { RegionName: string }[] };
+    const regions = (data.Regions ?? []).map((r) => r.RegionName).sort();
+    return { ok: true, regions };
+  } catch {
+    return { ok: false, error: "Failed to parse describe-regions response", regions: [] as string[] };
+  }
+}
+
+async function ec2Json<T>(args: string[], region: string) {
+  const result = await run("aws", ["ec2", ...args, "--region", region, "--output", "json"], { AWS_REGION: region });
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, data: JSON.parse(result.stdout) as T };
+  } catch {
+    return { ok: false, error: `Failed to parse ec2 ${args[0]} response` };
+  }
+}
+
+export async function describeInstanceType(instanceType: string, region: string) {
+  type Described = { InstanceTypes?: { InstanceType: string; VCpuInfo?: { DefaultVCpus: number } }[] };
+  const r = await ec2Json<Described>(["describe-instance-types", "--instance-types", instanceType], region);
+  if (!r.ok) {
+    // An unknown type is reported as a parameter error rather than an empty list
+    if (/InvalidInstanceType/.test(r.error ?? "")) return { ok: true, instanceType: null };
+    return { ok: false, error: r.error };
+  }
+  const t = r.data?.InstanceTypes?.[0];
+  return { ok: true, instanceType: t ? { name: t.InstanceType, vCpus: Number(t.VCpuInfo?.DefaultVCpus ?? 0) } : null };
+}
+
+/**
+ * Availability zones in the region where the instance type can be launched
+ */
+export async function listInstanceTypeZones(instanceType: string, region: string) {
+  const r = await ec2Json<{ InstanceTypeOfferings?: { Location: string }[] }>(
+    [
+      "describe-instance-type-offerings",
+      "--location-type",
+      "availability-zone",
+      "--filters",
+      `Name=instance-type,Values=${instanceType}`,
+    ],
+    region
+  );
+  if (!r.ok) return { ok: false, error: r.error, zones: [] as string[] };
+  return { ok: true, zones: (r.data?.InstanceTypeOfferings ?? []).map((o) => o.Location).sort() };
+}
+
+type Ec2Instance = {
+  InstanceType: string;
+  InstanceLifecycle?: string;
+  CpuOptions?: { CoreCount: number; ThreadsPerCore: number };
+};
+
+/**
+ * vCPUs of running and pending instances, split by lifecycle, for the instance
+ * types the "Standard" vCPU quotas cover (A, C, D, H, I, M, R, T, Z families)
+ */
+export async function standardVCpuUsage(region: string) {
+  const r = await ec2Json<{ Reservations?: { Instances?: Ec2Instance[] }[] }>(
+    ["describe-instances", "--filters", "Name=instance-state-name,Values=pending,running"],
+    region
+  );
+  if (!r.ok) return { ok: false, error: r.error, onDemand: 0, spot: 0 };
+  let onDemand = 0;
+  let spot = 0;
+  for (const reservation of r.data?.Reservations ?? []) {
+    for (const i of reservation.Instances ?? []) {
+      if (!isStandardInstanceType(i.InstanceType)) continue;
+      const vCpus = Number(i.CpuOptions?.CoreCount ?? 0) * Number(i.CpuOptions?.ThreadsPerCore ?? 1);
+      if (i.InstanceLifecycle === "spot") spot += vCpus;
+      else onDemand += vCpus;
+    }
+  }
+  return { ok: true, onDemand, spot };
+}
+
+// A family letter straight before the generation digit, plus the im/is storage families;
+// dl, inf, trn, hpc and mac have quotas of their own
+const STANDARD_FAMILY = /^([acdhimrtz]|im|is)\d/;
+
+export function isStandardInstanceType(instanceType: string) {
+  return STANDARD_FAMILY.test(instanceType);
+}
+
+export async function countVpcs(region: string) {
+  const r = await ec2Json<{ Vpcs?: unknown[] }>(["describe-vpcs"], region);
+  return r.ok ? { ok: true, count: (r.data?.Vpcs ?? []).length } : { ok: false, error: r.error, count: 0 };
+}
+
+export async function countElasticIps(region: string) {
+  const r = await ec2Json<{ Addresses?: unknown[] }>(["describe-addresses", "--filters", "Name=domain,Values=vpc"], region);
+  return r.ok ? { ok: true, count: (r.data?.Addresses ?? []).length } : { ok: false, error: r.error, count: 0 };
+}
+
+/**
+ * Highest number of NAT gateways in any one availability zone
+ */
+export async function maxNatGatewaysPerZone(region: string) {
+  const nat = await ec2Json<{ NatGateways?: { SubnetId: string }[] }>(
+    ["describe-nat-gateways", "--filter", "Name=state,Values=pending,available"],
+    region
+  );
+  if (!nat.ok) return { ok: false, error: nat.error, max: 0 };
+  const subnetIds = (nat.data?.NatGateways ?? []).map((n) => n.SubnetId);
+  if (subnetIds.length === 0) return { ok: true, max: 0 };
+
+  const subnets = await ec2Json<{ Subnets?: { SubnetId: string; AvailabilityZone: string }[] }>(
+    ["describe-subnets", "--subnet-ids", ...new Set(subnetIds)],
+    region
+  );
+  if (!subnets.ok) return { ok: false, error: subnets.error, max: 0 };
+  const zoneOf = new Map((subnets.data?.Subnets ?? []).map((s) => [s.SubnetId, s.AvailabilityZone]));
+  const perZone = new Map<string, number>();
+  for (const id of subnetIds) {
+    const zone = zoneOf.get(id) ?? "unknown";
+    perZone.set(zone, (perZone.get(zone) ?? 0) + 1);
+  }
+  return { ok: true, max: Math.max(...perZone.values()) };
+}
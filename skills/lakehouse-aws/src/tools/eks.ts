@@ -0,0 +1,242 @@
+import { run } from "./shell.js";
+
+const alreadyExists = (stderr: string) => /already exists|ResourceInUseException/i.test(stderr);
+
+/** Managed node group eksctl creates with the cluster */
+export const NODEGROUP_NAME = "standardworkers";
+
+export async function createCluster(opts: {
+  name: string;
+  region: string;
+  version: string;
+  nodeType: string;
+  nodeCount: number;
+}) {
+  const result = await run(
+    "eksctl",
+    [
+      "create",
+      "cluster",
+      "--name",
+      opts.name,
+      "--region",
+      opts.region,
+      "--version",
+      opts.version,
+      "--nodegroup-name",
+      NODEGROUP_NAME,
+      "--node-type",
+      opts.nodeType,
+      "--nodes",
+      String(opts.nodeCount),
+      "--managed",
+    ],
+    { AWS_REGION: opts.region }
+  );
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
+}
+
+export async function updateKubeconfig(cluster: string, region: string) {
+  const result = await run(
+    "aws",
+    ["eks", "update-kubeconfig", "--region", region, "--name", cluster, "--alias", cluster],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
+}
+
+/**
+ * Create an EKS addon. An addon that is already installed counts as success.
+ */
+export async function createAddon(cluster: string, addon: string, region: string) {
+  const result = await run(
+    "aws",
+    ["eks", "create-addon", "--cluster-name", cluster, "--addon-name", addon, "--region", region],
+    { AWS_REGION: region }
+  );
+  if (!result.ok && !alreadyExists(result.stderr)) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, created: result.ok };
+}
+
+/**
+ * Create a pod identity association (and its IAM role) via eksctl.
+ * An association that already exists counts as success.
+ */
+export async function createPodIdentityAssociation(opts: {
+  cluster: string;
+  region: string;
+  namespace: string;
+  serviceAccount: string;
+  roleName: string;
+  policyArns: string[];
+}) {
+  const result = await run(
+    "eksctl",
+    [
+      "create",
+      "podidentityassociation",
+      "--cluster",
+      opts.cluster,
+      "--namespace",
+      opts.namespace,
+      "--service-account-name",
+      opts.serviceAccount,
+      "--role-name",
+      opts.roleName,
+      "--permission-policy-arns",
+      opts.policyArns.join(","),
+      "--region",
+      opts.region,
+    ],
+    { AWS_REGION: opts.region }
+  );
+  if (!result.ok && !alreadyExists(result.stderr)) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, created: result.ok };
+}
+
+export async function getClusterVpcId(cluster: string, region: string) {
+  const result = await run(
+    "aws",
+    [
+      "eks",
+      "describe-cluster",
+      "--name",
+      cluster,
+      "--region",
+      region,
+      "--query",
+      "cluster.resourcesVpcConfig.vpcId",
+      "--output",
+      "text",
+    ],
+    { AWS_REGION: region }
+  );
+  if (!result.ok || !result.stdout || result.stdout === "None") {
+    return { ok: false, error: result.stderr || "Cluster has no VPC ID" };
+  }
+  return { ok: true, vpcId: result.stdout };
+}
+
+async function eksJson(args: string[], region: string) {
+  const result = await run("aws", ["eks", ...args, "--region", region, "--output", "json"], { AWS_REGION: region });
+  if (!result.ok) {
+    return { ok: false, notFound: /ResourceNotFoundException/.test(result.stderr), error: result.stderr };
+  }
+  try {
+    return { ok: true, data: JSON.parse(result.stdout) };
+  } catch {
+    return { ok: false, error: `Failed to parse aws eks ${args[0]} response` };
+  }
+}
+
+/**
+ * Kubernetes version, status and auth mode (CONFIG_MAP, API or API_AND_CONFIG_MAP) of a cluster
+ */
+export async function describeEksCluster(cluster: string, region: string) {
+  const r = await eksJson(["describe-cluster", "--name", cluster], region);
+  if (!r.ok) return { ok: false, notFound: r.notFound, error: r.error };
+  return {
+    ok: true,
+    version: r.data?.cluster?.version as string,
+    status: r.data?.cluster?.status as string,
+    // Clusters created before access entries existed report no accessConfig
+    authenticationMode: (r.data?.cluster?.accessConfig?.authenticationMode ?? "CONFIG_MAP") as string,
+  };
+}
+
+/**
+ * Instance types and scaling of a managed node group
+ */
+export async function describeNodegroup(cluster: string, nodegroup: string, region: string) {
+  const r = await eksJson(["describe-nodegroup", "--cluster-name", cluster, "--nodegroup-name", nodegroup], region);
+  if (!r.ok) return { ok: false, notFound: r.notFound, error: r.error };
+  const ng = r.data?.nodegroup ?? {};
+  return {
+    ok: true,
+    status: ng.status as string | undefined,
+    instanceTypes: (ng.instanceTypes ?? []) as string[],
+    desiredSize: ng.scalingConfig?.desiredSize as number | undefined,
+  };
+}
+
+export async function listNodegroups(cluster: string, region: string) {
+  const r = await eksJson(["list-nodegroups", "--cluster-name", cluster], region);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, nodegroups: (r.data?.nodegroups ?? []) as string[] };
+}
+
+export async function listAddons(cluster: string, region: string) {
+  const r = await eksJson(["list-addons", "--cluster-name", cluster], region);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, addons: (r.data?.addons ?? []) as string[] };
+}
+
+/**
+ * Version and status of an installed addon; notFound when it is not installed
+ */
+export async function describeAddon(cluster: string, addon: string, region: string) {
+  const r = await eksJson(["describe-addon", "--cluster-name", cluster, "--addon-name", addon], region);
+  if (!r.ok) return { ok: false, notFound: r.notFound, error: r.error };
+  return { ok: true, version: r.data?.addon?.addonVersion as string, status: r.data?.addon?.status as string };
+}
+
+export type PodIdentityAssociation = { namespace: string; serviceAccount: string; roleArn: string };
+
+/**
+ * Every pod identity association on the cluster with the role it grants
+ */
+export async function listPodIdentityAssociations(cluster: string, region: string) {
+  const r = await eksJson(["list-pod-identity-associations", "--cluster-name", cluster], region);
+  if (!r.ok) return { ok: false, error: r.error };
+  const associations: PodIdentityAssociation[] = [];
+  // The list only carries ids; the role comes from describing each one
+  for (const a of (r.data?.associations ?? []) as { associationId: string }[]) {
+    const d = await eksJson(
+      ["describe-pod-identity-association", "--cluster-name", cluster, "--association-id", a.associationId],
+      region
+    );
+    if (!d.ok) return { ok: false, error: d.error };
+    const association = d.data?.association ?? {};
+    associations.push({
+      namespace: association.namespace,
+      serviceAccount: association.serviceAccount,
+      roleArn: association.roleArn,
+    });
+  }
+  return { ok: true, associations };
+}
+
+/**
+ * IAM principals granted cluster access through access entries (API auth modes only)
+ */
+export async function listAccessEntries(cluster: string, region: string) {
+  const r = await eksJson(["list-access-entries", "--cluster-name", cluster], region);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, principalArns: (r.data?.accessEntries ?? []) as string[] };
+}
+
+/**
+ * Delete the cluster and wait for its CloudFormation stacks to go away (~15 min)
+ */
+export async function deleteCluster(name: string, region: string) {
+  const result = await run("eksctl", ["delete", "cluster", "--name", name, "--region", region, "--wait"], {
+    AWS_REGION: region,
+  });
+  if (!result.ok) {
+    if (/ResourceNotFoundException|No cluster found|not found/i.test(result.stderr)) {
+      return { ok: true, existed: false };
+    }
+    return { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
@@ -0,0 +1,42 @@
+import { run } from "./shell.js";
+
+export type LoadBalancer = {
+  arn: string;
+  name: string;
+  dnsName: string;
+  canonicalHostedZoneId: string;
+  state: string;
+  scheme: string;
+};
+
+/**
+ * Look up an ALB by name. A missing load balancer is not an error: it returns null.
+ */
+export async function describeLoadBalancer(name: string, region: string) {
+  const result = await run(
+    "aws",
+    ["elbv2", "describe-load-balancers", "--names", name, "--region", region, "--output", "json"],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) {
+    if (/LoadBalancerNotFound/.test(result.stderr)) {
+      return { ok: true, loadBalancer: null };
+    }
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const lb = JSON.parse(result.stdout).LoadBalancers?.[0];
+    if (!lb) return { ok: true, loadBalancer: null };
+    const loadBalancer: LoadBalancer = {
+      arn: lb.LoadBalancerArn,
+      name: lb.LoadBalancerName,
+      dnsName: lb.DNSName,
+      canonicalHostedZoneId: lb.CanonicalHostedZoneId,
+      state: lb.State?.Code ?? "unknown",
+      scheme: lb.Scheme,
+    };
+    return { ok: true, loadBalancer };
+  } catch {
+    return { ok: false, error: "Failed to parse ELBv2 response" };
+  }
+}
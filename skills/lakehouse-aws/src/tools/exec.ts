@@ -1,57 +1,172 @@
 import { spawn } from "node:child_process";
-import { resolve } from "node:path";
+import { randomUUID } from "node:crypto";
+import { resolve as resolvePath } from "node:path";
+import { recordInteraction, replayInteraction } from "./cassette.js";
+import { ensureToolbox } from "./docker.js";
 
-export type ExecMode = "docker" | "local";
+/**
+ * record runs commands locally and captures them into a cassette;
+ * replay serves results from the cassette and never spawns anything
+ */
+export type ExecMode = "docker" | "local" | "record" | "replay";
 
 export type ExecResult = {
   code: number;
   stdout: string;
   stderr: string;
+  /** Killed after the timeout; code is 124 like timeout(1) */
+  timedOut?: boolean;
 };
 
-export function execCmd(
-  mode: ExecMode,
+export type ExecOptions = {
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Kill the command after this long; no limit when unset */
+  timeoutMs?: number;
+  /** Kill the command when aborted; the promise then rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Written to stdin, for secrets that must not appear on the command line */
+  input?: string;
+};
+
+// Time between SIGTERM and SIGKILL for a command that ignores the first
+const KILL_GRACE_MS = 5_000;
+
+export function execCmd(mode: ExecMode, cmd: string, args: string[], opts?: ExecOptions): Promise<ExecResult> {
+  if (mode === "replay") {
+    try {
+      const interaction = replayInteraction(cmd, args, opts?.env);
+      return interaction.result ? Promise.resolve(interaction.result) : Promise.reject(new Error(interaction.error));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+  if (mode === "record") {
+    const env = opts?.env ?? {};
+    return spawnCmd("local", cmd, args, opts).then(
+      (result) => {
+        recordInteraction({ cmd, args, env, result });
+        return result;
+      },
+      (err: unknown) => {
+        recordInteraction({ cmd, args, env, error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    );
+  }
+  if (mode === "docker") {
+    return ensureToolbox().then((container) => spawnCmd("docker", cmd, args, { ...opts, container }));
+  }
+  return spawnCmd("local", cmd, args, opts);
+}
+
+function abortError(cmd: string) {
+  return Object.assign(new Error(`${cmd} was cancelled`), { name: "AbortError" });
+}
+
+/**
+ * Signal the command inside the toolbox by the PID it wrote; killing the docker exec client
+ * alone leaves it running in the container
+ */
+function killInContainer(container: string, pidFile: string, signal: "TERM" | "KILL") {
+  spawn("docker", ["exec", container, "sh", "-c", `kill -${signal} "$(cat ${pidFile})"`], { stdio: "ignore" }).on(
+    "error",
+    () => {}
+  );
+}
+
+/**
+ * In docker mode the command runs through docker exec in the toolbox container; the extra env
+ * is forwarded with -e since the container does not see this process's environment. The command
+ * records its PID first, so a timeout or abort kills it inside the container as well as the
+ * docker exec client. PID files are left in the container's /tmp, which goes with the container.
+ */
+function spawnCmd(
+  mode: "docker" | "local",
   cmd: string,
   args: string[],
-  opts?: { env?: Record<string, string>; cwd?: string }
+  opts?: ExecOptions & { container?: string }
 ): Promise<ExecResult> {
   return new Promise((resolve, reject) => {
-    // Determine the actual command and args based on execution mode
-    let fullCmd: string;
-    let fullArgs: string[];
-    let execOpts: { env: NodeJS.ProcessEnv; cwd?: string; stdio: any };
+    if (opts?.signal?.aborted) {
+      reject(abortError(cmd));
+      return;
+    }
 
+    let fullCmd = cmd;
+    let fullArgs = args;
+    let pidFile: string | undefined;
     if (mode === "docker") {
-      // Find repo root by going up from skills/lakehouse-aws to repo root
-      // The script is at ./bin/run-in-docker.sh relative to skills/lakehouse-aws
-      fullCmd = "./bin/run-in-docker.sh";
-      fullArgs = [cmd, ...args];
-      execOpts = {
-        env: { ...process.env, ...(opts?.env ?? {}) },
-        cwd: opts?.cwd ?? process.cwd(),
-        stdio: ["ignore", "pipe", "pipe"],
-      };
-    } else {
-      // Local execution
-      fullCmd = cmd;
-      fullArgs = args;
-      execOpts = {
-        env: { ...process.env, ...(opts?.env ?? {}) },
-        cwd: opts?.cwd,
-        stdio: ["ignore", "pipe", "pipe"],
-      };
+      // -e KEY takes the value from the docker client's env, so values stay off the command line
+      const env = Object.keys(opts?.env ?? {}).flatMap((k) => ["-e", k]);
+      const workdir = opts?.cwd ? ["--workdir", resolvePath(opts.cwd)] : [];
+      fullCmd = "docker";
+      const stdin = opts?.input !== undefined ? ["--interactive"] : [];
+      pidFile = `/tmp/lakehouse-aws-${randomUUID()}.pid`;
+      // exec keeps the PID, so the one written is the command's own
+      const wrapper = ["sh", "-c", `echo $$ > ${pidFile} && exec "$@"`, "sh"];
+      fullArgs = ["exec", ...stdin, ...env, ...workdir, opts!.container!, ...wrapper, cmd, ...args];
     }
+    const execOpts = {
+      env: { ...process.env, ...(opts?.env ?? {}) },
+      cwd: mode === "docker" ? undefined : opts?.cwd,
+      stdio: [opts?.input !== undefined ? "pipe" : "ignore", "pipe", "pipe"] as ["pipe" | "ignore", "pipe", "pipe"],
+    };
 
     const child = spawn(fullCmd, fullArgs, execOpts);
+    if (opts?.input !== undefined) child.stdin?.end(opts.input);
 
     let stdout = "";
     let stderr = "";
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const kill = () => {
+      if (pidFile) killInContainer(opts!.container!, pidFile, "TERM");
+      child.kill("SIGTERM");
+      killTimer = setTimeout(() => {
+        if (pidFile) killInContainer(opts!.container!, pidFile, "KILL");
+        child.kill("SIGKILL");
+      }, KILL_GRACE_MS);
+    };
+    const onAbort = () => kill();
+    opts?.signal?.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      opts?.timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            kill();
+          }, opts.timeoutMs)
+        : undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      opts?.signal?.removeEventListener("abort", onAbort);
+    };
 
     child.stdout?.on("data", (d) => (stdout += d.toString()));
     child.stderr?.on("data", (d) => (stderr += d.toString()));
 
-    child.on("error", (err) => reject(err));
+    child.on("error", (err) => {
+      cleanup();
+      reject(err);
+    });
     child.on("close", (code) => {
+      cleanup();
+      if (opts?.signal?.aborted) {
+        reject(abortError(cmd));
+        return;
+      }
+      if (timedOut) {
+        const note = `${cmd} timed out after ${Math.round(opts!.timeoutMs! / 1000)}s`;
+        resolve({
+          code: 124,
+          stdout: stdout.trim(),
+          stderr: [stderr.trim(), note].filter(Boolean).join("\n"),
+          timedOut,
+        });
+        return;
+      }
       resolve({
         code: code ?? 1,
         stdout: stdout.trim(),
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyGcloudError } from "./gcloud.js";
+
+test("classifies API status names and gcloud's HTTP error formats", () => {
+  assert.deepEqual(classifyGcloudError("ERROR: (gcloud.projects.describe) NOT_FOUND: Project not found"), {
+    notFound: true,
+    forbidden: false,
+  });
+  assert.deepEqual(
+    classifyGcloudError("ERROR: (gcloud.container.clusters.describe) ResponseError: code=404, message=Not found"),
+    { notFound: true, forbidden: false }
+  );
+  assert.deepEqual(classifyGcloudError("ERROR: HTTPError 403: caller does not have storage.buckets.get access"), {
+    notFound: false,
+    forbidden: true,
+  });
+});
+
+test("classifies the compute commands' could-not-fetch list", () => {
+  const missing =
+    "ERROR: (gcloud.compute.machine-types.describe) Could not fetch resource:\n" +
+    " - The resource 'projects/p/zones/us-central1-a/machineTypes/e2-huge' was not found\n";
+  assert.deepEqual(classifyGcloudError(missing), { notFound: true, forbidden: false });
+  const denied =
+    "ERROR: (gcloud.compute.regions.describe) Could not fetch resource:\n" +
+    " - Required 'compute.regions.get' permission for 'projects/p/regions/us-central1'\n";
+  assert.deepEqual(classifyGcloudError(denied), { notFound: false, forbidden: true });
+});
+
+test("does not read digits in names or messages as a status", () => {
+  const stderr = "ERROR: (gcloud.storage.buckets.describe) Invalid bucket name lake-404-403: UNAVAILABLE";
+  assert.deepEqual(classifyGcloudError(stderr), { notFound: false, forbidden: false });
+});
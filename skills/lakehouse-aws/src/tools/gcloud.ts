@@ -0,0 +1,93 @@
+import { run } from "./shell.js";
+
+export type GcpManagedZone = { name: string; dnsName: string; visibility?: string };
+export type GcpSslCertificate = {
+  name: string;
+  managed?: { status?: string; domains?: string[]; domainStatus?: Record<string, string> };
+};
+export type GcpRegion = { zones?: string[]; quotas?: { metric: string; limit: number; usage: number }[] };
+
+/**
+ * Classify a gcloud error by its status: the API status name (NOT_FOUND, PERMISSION_DENIED),
+ * the HTTP code as gcloud prints it ("HTTPError 404:", "code=404"), or the compute commands'
+ * "Could not fetch resource" list. A bare number is not enough, since names contain digits.
+ */
+export function classifyGcloudError(stderr: string) {
+  const status = (name: string, code: number) =>
+    new RegExp(`\\b${name}\\b|\\bHTTPError ${code}\\b|\\bcode=${code}\\b`).test(stderr);
+  const fetchFailed = /Could not fetch resource:/.test(stderr);
+  return {
+    notFound: status("NOT_FOUND", 404) || (fetchFailed && /- The resource '[^']+' was not found/.test(stderr)),
+    forbidden: status("PERMISSION_DENIED", 403) || (fetchFailed && /- Required '[^']+' permission/.test(stderr)),
+  };
+}
+
+/**
+ * Run a gcloud command with JSON output. NOT_FOUND/404 is returned as notFound
+ * and 403 as forbidden, rather than a plain failure.
+ */
+async function gcloudJson<T>(args: string[]) {
+  const result = await run("gcloud", [...args, "--format=json"]);
+  if (!result.ok) {
+    const { notFound, forbidden } = classifyGcloudError(result.stderr);
+    return { ok: false, notFound, forbidden, error: result.stderr };
+  }
+  try {
+    return { ok: true, notFound: false, forbidden: false, data: result.stdout ? (JSON.parse(result.stdout) as T) : null };
+  } catch {
+    return { ok: false, notFound: false, forbidden: false, error: `Failed to parse gcloud ${args.slice(0, 2).join(" ")} response` };
+  }
+}
+
+export async function listActiveAccounts() {
+  return gcloudJson<{ account: string }[]>(["auth", "list", "--filter=status:ACTIVE"]);
+}
+
+export async function getConfiguredProject() {
+  const result = await run("gcloud", ["config", "get-value", "project"]);
+  const project = result.ok ? result.stdout.trim() : "";
+  return project && project !== "(unset)" ? project : null;
+}
+
+export async function describeProject(project: string) {
+  return gcloudJson<{ lifecycleState: string; projectNumber: string }>(["projects", "describe", project]);
+}
+
+export async function describeBilling(project: string) {
+  return gcloudJson<{ billingEnabled?: boolean; billingAccountName?: string }>(["billing", "projects", "describe", project]);
+}
+
+export async function listEnabledServices(project: string) {
+  return gcloudJson<{ name: string; config?: { name: string } }[]>(["services", "list", "--enabled", `--project=${project}`]);
+}
+
+export async function describeGkeCluster(name: string, region: string, project: string) {
+  return gcloudJson<{ status: string; statusMessage?: string }>([
+    "container",
+    "clusters",
+    "describe",
+    name,
+    `--region=${region}`,
+    `--project=${project}`,
+  ]);
+}
+
+export async function describeBucket(bucket: string, project: string) {
+  return gcloudJson<{ location: string }>(["storage", "buckets", "describe", `gs://${bucket}`, `--project=${project}`]);
+}
+
+export async function listManagedZones(project: string) {
+  return gcloudJson<GcpManagedZone[]>(["dns", "managed-zones", "list", `--project=${project}`]);
+}
+
+export async function listManagedSslCertificates(project: string) {
+  return gcloudJson<GcpSslCertificate[]>(["compute", "ssl-certificates", "list", "--filter=type=MANAGED", `--project=${project}`]);
+}
+
+export async function describeMachineType(machineType: string, zone: string, project: string) {
+  return gcloudJson<{ guestCpus: number }>(["compute", "machine-types", "describe", machineType, `--zone=${zone}`, `--project=${project}`]);
+}
+
+export async function describeRegion(region: string, project: string) {
+  return gcloudJson<GcpRegion>(["compute", "regions", "describe", region, `--project=${project}`]);
+}
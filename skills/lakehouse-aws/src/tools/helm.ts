@@ -0,0 +1,138 @@
+import { run } from "./shell.js";
+
+export type HelmRelease = {
+  name: string;
+  namespace: string;
+  revision: string;
+  status: string;
+  chart: string;
+  app_version: string;
+};
+
+/**
+ * Install or upgrade a release (`helm upgrade --install`)
+ */
+export async function upgradeInstall(opts: {
+  release: string;
+  chart: string;
+  namespace: string;
+  set?: Record<string, string>;
+  valuesFiles?: string[];
+  version?: string;
+}) {
+  const args = ["upgrade", "--install", opts.release, opts.chart, "-n", opts.namespace];
+  if (opts.version) args.push("--version", opts.version);
+  for (const file of opts.valuesFiles ?? []) {
+    args.push("-f", file);
+  }
+  for (const [key, value] of Object.entries(opts.set ?? {})) {
+    args.push("--set", `${key}=${value}`);
+  }
+
+  const result = await run("helm", args);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr || `helm upgrade --install ${opts.release} failed` };
+  }
+  return { ok: true };
+}
+
+export async function uninstall(release: string, namespace: string) {
+  const result = await run("helm", ["uninstall", release, "-n", namespace]);
+  if (!result.ok) {
+    if (/not found/i.test(result.stderr)) {
+      return { ok: true, existed: false };
+    }
+    return { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
+
+/**
+ * Roll a release back to an earlier revision (`helm rollback`)
+ */
+export async function rollback(release: string, namespace: string, revision: number) {
+  const result = await run("helm", ["rollback", release, String(revision), "-n", namespace, "--wait"]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
+}
+
+export async function listReleases(namespace?: string) {
+  const args = ["list", "--output", "json", ...(namespace ? ["-n", namespace] : ["-A"])];
+  const result = await run("helm", args);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, releases: JSON.parse(result.stdout || "[]") as HelmRelease[] };
+  } catch {
+    return { ok: false, error: "Failed to parse helm list response" };
+  }
+}
+
+/**
+ * User-supplied values of a deployed release (`helm get values`)
+ */
+export async function getValues(release: string, namespace: string) {
+  const result = await run("helm", ["get", "values", release, "-n", namespace, "--output", "json"]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, values: (JSON.parse(result.stdout || "null") ?? {}) as Record<string, unknown> };
+  } catch {
+    return { ok: false, error: "Failed to parse helm get values response" };
+  }
+}
+
+/**
+ * Every version of a chart in an added repo (`helm search repo --versions`)
+ */
+export async function searchRepoVersions(chart: string) {
+  const result = await run("helm", ["search", "repo", chart, "--versions", "--output", "json"]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const found = JSON.parse(result.stdout || "[]") as { name: string; version: string }[];
+    return { ok: true, versions: found.filter((c) => c.name === chart).map((c) => c.version) };
+  } catch {
+    return { ok: false, error: "Failed to parse helm search response" };
+  }
+}
+
+export async function addRepo(name: string, url: string) {
+  const add = await run("helm", ["repo", "add", name, url, "--force-update"]);
+  if (!add.ok) {
+    return { ok: false, error: add.stderr };
+  }
+  const update = await run("helm", ["repo", "update", name]);
+  if (!update.ok) {
+    return { ok: false, error: update.stderr };
+  }
+  return { ok: true };
+}
+
+/**
+ * Refresh the public ECR login used to pull the Ingext OCI charts.
+ * Falls back to logging out so anonymous pulls still work.
+ */
+export async function refreshEcrPublicLogin() {
+  const password = await run("aws", ["ecr-public", "get-login-password", "--region", "us-east-1"]);
+  if (!password.ok) {
+    await run("helm", ["registry", "logout", "public.ecr.aws"]);
+    return { ok: false, error: password.stderr };
+  }
+  // On stdin, so the password is not visible in ps or the audit log
+  const login = await run(
+    "helm",
+    ["registry", "login", "public.ecr.aws", "--username", "AWS", "--password-stdin"],
+    undefined,
+    { input: password.stdout }
+  );
+  if (!login.ok) {
+    return { ok: false, error: login.stderr };
+  }
+  return { ok: true };
+}
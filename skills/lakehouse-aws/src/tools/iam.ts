@@ -0,0 +1,204 @@
+import { run } from "./shell.js";
+
+export async function findPolicyArn(policyName: string) {
+  const result = await run("aws", [
+    "iam",
+    "list-policies",
+    "--scope",
+    "Local",
+    "--query",
+    `Policies[?PolicyName=='${policyName}'].Arn`,
+    "--output",
+    "text",
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, arn: result.stdout && result.stdout !== "None" ? result.stdout : null };
+}
+
+/**
+ * Create a customer-managed policy, or return the ARN of the existing one
+ */
+export async function ensurePolicy(policyName: string, document: object) {
+  const created = await run("aws", [
+    "iam",
+    "create-policy",
+    "--policy-name",
+    policyName,
+    "--policy-document",
+    JSON.stringify(document),
+    "--query",
+    "Policy.Arn",
+    "--output",
+    "text",
+  ]);
+  if (created.ok) {
+    return { ok: true, arn: created.stdout, created: true };
+  }
+  if (!/EntityAlreadyExists/.test(created.stderr)) {
+    return { ok: false, error: created.stderr };
+  }
+
+  const existing = await findPolicyArn(policyName);
+  if (!existing.ok || !existing.arn) {
+    return { ok: false, error: existing.error ?? `Policy ${policyName} exists but its ARN could not be found` };
+  }
+  return { ok: true, arn: existing.arn, created: false };
+}
+
+const noSuchEntity = (stderr: string) => /NoSuchEntity/.test(stderr);
+
+export async function roleExists(roleName: string) {
+  const result = await run("aws", ["iam", "get-role", "--role-name", roleName, "--output", "json"]);
+  if (result.ok) return { ok: true, exists: true };
+  if (noSuchEntity(result.stderr)) return { ok: true, exists: false };
+  return { ok: false, exists: false, error: result.stderr };
+}
+
+export async function policyExists(policyArn: string) {
+  const result = await run("aws", ["iam", "get-policy", "--policy-arn", policyArn, "--output", "json"]);
+  if (result.ok) return { ok: true, exists: true };
+  if (noSuchEntity(result.stderr)) return { ok: true, exists: false };
+  return { ok: false, exists: false, error: result.stderr };
+}
+
+async function listText(args: string[]) {
+  const result = await run("aws", ["iam", ...args, "--output", "text"]);
+  if (!result.ok) return { ok: false, items: [] as string[], error: result.stderr };
+  const items = result.stdout.split(/\s+/).filter((s) => s && s !== "None");
+  return { ok: true, items };
+}
+
+/**
+ * Delete a role after detaching its managed policies, removing inline
+ * policies and taking it out of any instance profiles (Karpenter creates those).
+ */
+export async function deleteRole(roleName: string) {
+  const attached = await listText([
+    "list-attached-role-policies",
+    "--role-name",
+    roleName,
+    "--query",
+    "AttachedPolicies[*].PolicyArn",
+  ]);
+  if (!attached.ok) {
+    return noSuchEntity(attached.error ?? "") ? { ok: true, existed: false } : { ok: false, existed: true, error: attached.error };
+  }
+  for (const arn of attached.items) {
+    const r = await run("aws", ["iam", "detach-role-policy", "--role-name", roleName, "--policy-arn", arn]);
+    if (!r.ok) return { ok: false, existed: true, error: r.stderr };
+  }
+
+  const inline = await listText(["list-role-policies", "--role-name", roleName, "--query", "PolicyNames"]);
+  for (const name of inline.items) {
+    const r = await run("aws", ["iam", "delete-role-policy", "--role-name", roleName, "--policy-name", name]);
+    if (!r.ok) return { ok: false, existed: true, error: r.stderr };
+  }
+
+  const profiles = await listText([
+    "list-instance-profiles-for-role",
+    "--role-name",
+    roleName,
+    "--query",
+    "InstanceProfiles[*].InstanceProfileName",
+  ]);
+  for (const profile of profiles.items) {
+    const r = await run("aws", [
+      "iam",
+      "remove-role-from-instance-profile",
+      "--instance-profile-name",
+      profile,
+      "--role-name",
+      roleName,
+    ]);
+    if (!r.ok) return { ok: false, existed: true, error: r.stderr };
+    await run("aws", ["iam", "delete-instance-profile", "--instance-profile-name", profile]);
+  }
+
+  const result = await run("aws", ["iam", "delete-role", "--role-name", roleName]);
+  if (!result.ok) {
+    return noSuchEntity(result.stderr) ? { ok: true, existed: false } : { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
+
+/**
+ * Delete a customer-managed policy. Non-default versions must go first or IAM refuses.
+ */
+export async function deletePolicy(policyArn: string) {
+  const versions = await listText([
+    "list-policy-versions",
+    "--policy-arn",
+    policyArn,
+    "--query",
+    "Versions[?IsDefaultVersion==`false`].VersionId",
+  ]);
+  if (!versions.ok) {
+    return noSuchEntity(versions.error ?? "") ? { ok: true, existed: false } : { ok: false, existed: true, error: versions.error };
+  }
+  for (const version of versions.items) {
+    const r = await run("aws", ["iam", "delete-policy-version", "--policy-arn", policyArn, "--version-id", version]);
+    if (!r.ok) return { ok: false, existed: true, error: r.stderr };
+  }
+
+  const result = await run("aws", ["iam", "delete-policy", "--policy-arn", policyArn]);
+  if (!result.ok) {
+    return noSuchEntity(result.stderr) ? { ok: true, existed: false } : { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
+
+/**
+ * The IAM principal to simulate for an STS caller ARN. Assumed roles are mapped
+ * back to their role (whose path, e.g. aws-reserved/sso.amazonaws.com/, only
+ * get-role knows). Root is returned as null: it cannot be simulated and is never denied.
+ */
+export async function principalArnForCaller(callerArn: string) {
+  if (/:root$/.test(callerArn)) return { ok: true, arn: null, root: true };
+  if (/:user\//.test(callerArn)) return { ok: true, arn: callerArn, root: false };
+
+  const assumed = callerArn.match(/:assumed-role\/([^/]+)\//);
+  if (!assumed) return { ok: false, error: `Cannot simulate policies for principal ${callerArn}` };
+  const result = await run("aws", ["iam", "get-role", "--role-name", assumed[1], "--query", "Role.Arn", "--output", "text"]);
+  if (!result.ok) return { ok: false, error: result.stderr };
+  return { ok: true, arn: result.stdout, root: false };
+}
+
+export type SimulationResult = { action: string; decision: string; deniedByOrganizations: boolean };
+
+type EvaluationResult = {
+  EvalActionName: string;
+  EvalDecision: string;
+  OrganizationsDecisionDetail?: { AllowedByOrganizations: boolean };
+};
+
+/**
+ * Simulate the principal's identity policies, permission boundary and SCPs for a set of actions
+ */
+export async function simulatePrincipalPolicy(principalArn: string, actions: string[]) {
+  const result = await run("aws", [
+    "iam",
+    "simulate-principal-policy",
+    "--policy-source-arn",
+    principalArn,
+    "--action-names",
+    ...actions,
+    "--output",
+    "json",
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const parsed = JSON.parse(result.stdout) as { EvaluationResults?: EvaluationResult[] };
+    const results: SimulationResult[] = (parsed.EvaluationResults ?? []).map((r) => ({
+      action: r.EvalActionName,
+      decision: r.EvalDecision,
+      deniedByOrganizations: r.OrganizationsDecisionDetail?.AllowedByOrganizations === false,
+    }));
+    return { ok: true, results };
+  } catch {
+    return { ok: false, error: "Failed to parse IAM simulation response" };
+  }
+}
@@ -0,0 +1,93 @@
+import { run } from "./shell.js";
+
+const alreadyExists = (stderr: string) => /AlreadyExists|already exists/i.test(stderr);
+
+export async function ensureNamespace(namespace: string) {
+  const result = await run("kubectl", ["create", "namespace", namespace]);
+  if (!result.ok && !alreadyExists(result.stderr)) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, created: result.ok };
+}
+
+/**
+ * Create a generic secret from literals; an existing secret is left untouched
+ */
+export async function ensureSecret(namespace: string, name: string, literals: Record<string, string>) {
+  const args = ["create", "secret", "generic", name, "--namespace", namespace];
+  for (const [key, value] of Object.entries(literals)) {
+    args.push(`--from-literal=${key}=${value}`);
+  }
+  const result = await run("kubectl", args);
+  if (!result.ok && !alreadyExists(result.stderr)) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, created: result.ok };
+}
+
+/**
+ * Wait for all pods in a namespace to become Ready. Mirrors the installer's
+ * wait_ns_pods_ready: a timeout is reported but not treated as fatal.
+ */
+export async function waitForPodsReady(namespace: string, timeout = "900s") {
+  const result = await run("kubectl", [
+    "wait",
+    "--for=condition=Ready",
+    "pods",
+    "--all",
+    "-n",
+    namespace,
+    `--timeout=${timeout}`,
+  ]);
+  return { ok: result.ok, error: result.ok ? undefined : result.stderr };
+}
+
+export async function rolloutStatus(namespace: string, deployment: string, timeout = "120s") {
+  const result = await run("kubectl", [
+    "rollout",
+    "status",
+    `deployment/${deployment}`,
+    "-n",
+    namespace,
+    `--timeout=${timeout}`,
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
+}
+
+export async function rolloutRestart(namespace: string, deployment: string) {
+  const result = await run("kubectl", ["rollout", "restart", `deployment/${deployment}`, "-n", namespace]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
+}
+
+/**
+ * The fields of a listed object that status and drift read
+ */
+export type KubeItem = {
+  kind: string;
+  metadata: { name: string; namespace: string; annotations?: Record<string, string> };
+  spec?: { replicas?: number };
+  status?: {
+    readyReplicas?: number;
+    numberReady?: number;
+    desiredNumberScheduled?: number;
+    loadBalancer?: { ingress?: { hostname?: string }[] };
+  };
+};
+
+export async function getJson(args: string[]) {
+  const result = await run("kubectl", ["get", ...args, "-o", "json"]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, data: JSON.parse(result.stdout) as { items?: KubeItem[] } };
+  } catch {
+    return { ok: false, error: "Failed to parse kubectl response" };
+  }
+}
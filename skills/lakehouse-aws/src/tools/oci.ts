@@ -0,0 +1,51 @@
+import { log } from "../log.js";
+
+// Registries answer in well under a second; a hung connection should not stall upgrade
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Registry requests are not shell commands, so they are logged here instead of audited
+async function get(url: URL | string, headers: Record<string, string> = {}): Promise<Response> {
+  log.debug(`$ GET ${url}`);
+  const res = await fetch(url, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  log.debug(`  HTTP ${res.status}`);
+  return res;
+}
+
+/**
+ * Fetch the anonymous pull token a registry's WWW-Authenticate challenge points at
+ */
+async function anonymousToken(challenge: string | null): Promise<string | null> {
+  const params = Object.fromEntries(
+    [...(challenge ?? "").matchAll(/(\w+)="([^"]*)"/g)].map((m) => [m[1], m[2]] as [string, string])
+  );
+  if (!params.realm) return null;
+  const url = new URL(params.realm);
+  if (params.service) url.searchParams.set("service", params.service);
+  if (params.scope) url.searchParams.set("scope", params.scope);
+  const res = await get(url);
+  if (!res.ok) return null;
+  const body = (await res.json()) as { token?: string; access_token?: string };
+  return body.token ?? body.access_token ?? null;
+}
+
+/**
+ * Tags of an OCI chart repository (oci://host/path) through the registry's distribution API
+ */
+export async function listOciTags(ref: string) {
+  const m = /^oci:\/\/([^/]+)\/(.+)$/.exec(ref);
+  if (!m) return { ok: false, error: `${ref} is not an oci:// reference` };
+  const url = `https://${m[1]}/v2/${m[2]}/tags/list`;
+  try {
+    let res = await get(url);
+    if (res.status === 401) {
+      const token = await anonymousToken(res.headers.get("www-authenticate"));
+      if (!token) return { ok: false, error: `${m[1]} did not grant an anonymous pull token` };
+      res = await get(url, { Authorization: `Bearer ${token}` });
+    }
+    if (!res.ok) return { ok: false, error: `HTTP ${res.status} listing tags of ${ref}` };
+    const body = (await res.json()) as { tags?: string[] };
+    return { ok: true, tags: body.tags ?? [] };
+  } catch (err) {
+    return { ok: false, error: String(err) };
+  }
+}
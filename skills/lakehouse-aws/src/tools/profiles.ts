@@ -0,0 +1,28 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Profile names from the AWS config and credentials files, the same set
+ * `aws configure list-profiles` prints, without needing the CLI or credentials
+ */
+export async function listAwsProfiles(): Promise<string[]> {
+  const files = [
+    process.env.AWS_CONFIG_FILE ?? join(homedir(), ".aws", "config"),
+    process.env.AWS_SHARED_CREDENTIALS_FILE ?? join(homedir(), ".aws", "credentials"),
+  ];
+  const profiles = new Set<string>();
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch {
+      continue;
+    }
+    // [default] and [profile x] (config) or [x] (credentials); [sso-session x] has a space and never matches
+    for (const match of text.matchAll(/^\s*\[\s*(?:profile\s+)?([^\]\s]+)\s*\]/gm)) {
+      profiles.add(match[1]);
+    }
+  }
+  return [...profiles];
+}
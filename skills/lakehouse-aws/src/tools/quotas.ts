@@ -0,0 +1,52 @@
+import { run } from "./shell.js";
+
+// Service Quotas codes the capacity check compares against
+export const QUOTAS = {
+  onDemandStandardVCpus: { serviceCode: "ec2", quotaCode: "L-1216C47A", name: "Running On-Demand Standard (A, C, D, H, I, M, R, T, Z) instances" },
+  spotStandardVCpus: { serviceCode: "ec2", quotaCode: "L-34B43A08", name: "All Standard (A, C, D, H, I, M, R, T, Z) Spot Instance Requests" },
+  elasticIps: { serviceCode: "ec2", quotaCode: "L-0263D0A3", name: "EC2-VPC Elastic IPs" },
+  vpcs: { serviceCode: "vpc", quotaCode: "L-F678F1CE", name: "VPCs per Region" },
+  natGatewaysPerZone: { serviceCode: "vpc", quotaCode: "L-FE5A380F", name: "NAT gateways per Availability Zone" },
+} as const;
+
+export type QuotaRef = (typeof QUOTAS)[keyof typeof QUOTAS];
+
+/**
+ * The applied quota value for the account, falling back to the AWS default
+ * when the quota has never been changed (get-service-quota then returns NoSuchResource)
+ */
+export async function getQuotaValue(quota: QuotaRef, region: string) {
+  for (const op of ["get-service-quota", "get-aws-default-service-quota"]) {
+    const result = await run(
+      "aws",
+      [
+        "service-quotas",
+        op,
+        "--service-code",
+        quota.serviceCode,
+        "--quota-code",
+        quota.quotaCode,
+        "--region",
+        region,
+        "--output",
+        "json",
+      ],
+      { AWS_REGION: region }
+    );
+    if (result.ok) {
+      try {
+        return { ok: true, value: Number(JSON.parse(result.stdout).Quota?.Value) };
+      } catch {
+        return { ok: false, error: "Failed to parse Service Quotas response" };
+      }
+    }
+    if (!/NoSuchResource/.test(result.stderr)) return { ok: false, error: result.stderr };
+  }
+  return { ok: false, error: `Quota ${quota.quotaCode} not found` };
+}
+
+export function quotaIncreaseRemediation(quota: QuotaRef, region: string, desired: number) {
+  return {
+    message: `Request an increase of "${quota.name}" to at least ${desired}: aws service-quotas request-service-quota-increase --service-code ${quota.serviceCode} --quota-code ${quota.quotaCode} --desired-value ${desired} --region ${region}`,
+  };
+}
@@ -1,19 +1,49 @@
-import { run } from "./shell";
+import { run } from "./shell.js";
+import { longestSuffixZone } from "../steps/zones.js";
 
+export type HostedZone = { Id: string; Name: string; Config?: { PrivateZone?: boolean } };
+
+type ResourceRecordSet = {
+  Name: string;
+  Type: string;
+  AliasTarget?: { HostedZoneId: string; DNSName: string };
+  ResourceRecords?: { Value: string }[];
+};
+
+/**
+ * All hosted zones in the account, following NextToken across pages
+ */
 export async function listHostedZones() {
-  const result = await run("aws", ["route53", "list-hosted-zones", "--output", "json"]);
-  if (!result.ok) {
-    return { ok: false, error: result.stderr };
-  }
-  try {
-    return { ok: true, data: JSON.parse(result.stdout) };
-  } catch {
-    return { ok: false, error: "Failed to parse Route53 response" };
-  }
+  const zones: HostedZone[] = [];
+  let token: string | undefined;
+  do {
+    const result = await run("aws", [
+      "route53",
+      "list-hosted-zones",
+      "--max-items",
+      "100",
+      ...(token ? ["--starting-token", token] : []),
+      "--output",
+      "json",
+    ]);
+    if (!result.ok) {
+      return { ok: false, error: result.stderr };
+    }
+    try {
+      const page = JSON.parse(result.stdout) as { HostedZones?: HostedZone[]; NextToken?: string };
+      zones.push(...(page.HostedZones ?? []));
+      token = page.NextToken;
+    } catch {
+      return { ok: false, error: "Failed to parse Route53 response" };
+    }
+  } while (token);
+  return { ok: true, data: { HostedZones: zones } };
 }
 
 /**
- * Check if the user controls a domain via Route53
+ * Find the hosted zone authoritative for a domain: the longest-suffix public zone,
+ * falling back to a private one. A private zone that is more specific than the
+ * chosen public zone is reported, since it shadows the record inside its VPCs.
  */
 export async function findHostedZoneForDomain(domain: string) {
   const result = await listHostedZones();
@@ -22,22 +52,132 @@ export async function findHostedZoneForDomain(domain: string) {
   }
 
   const zones = result.data?.HostedZones || [];
-  
-  // Look for exact match or parent domain
-  // e.g., for "ingext.io", look for "ingext.io." (Route53 adds trailing dot)
-  const normalizedDomain = domain.endsWith(".") ? domain : `${domain}.`;
-  
-  for (const zone of zones) {
-    const zoneName = zone.Name || "";
-    if (zoneName === normalizedDomain) {
-      return {
-        ok: true,
-        zoneId: zone.Id,
-        zoneName: zone.Name,
-        isPrivate: zone.Config?.PrivateZone || false,
-      };
+  const publicZone = longestSuffixZone(domain, zones.filter((z) => !z.Config?.PrivateZone), (z) => z.Name);
+  const privateZone = longestSuffixZone(domain, zones.filter((z) => z.Config?.PrivateZone), (z) => z.Name);
+  const zone = publicZone ?? privateZone;
+  if (!zone) {
+    return { ok: true, zoneId: null, zoneName: null, isPrivate: false, shadowingPrivateZone: null };
+  }
+
+  const shadows = publicZone && privateZone && privateZone.Name.length >= publicZone.Name.length;
+  return {
+    ok: true,
+    zoneId: zone.Id.replace(/^\/hostedzone\//, ""),
+    zoneName: zone.Name,
+    isPrivate: zone === privateZone,
+    shadowingPrivateZone: shadows ? privateZone.Name : null,
+  };
+}
+
+export type AliasTarget = { hostedZoneId: string; dnsName: string };
+
+/**
+ * The current A record for a name, or null when there is none
+ */
+export async function getARecord(zoneId: string, name: string) {
+  const result = await run("aws", [
+    "route53",
+    "list-resource-record-sets",
+    "--hosted-zone-id",
+    zoneId,
+    "--start-record-name",
+    name,
+    "--start-record-type",
+    "A",
+    "--max-items",
+    "1",
+    "--output",
+    "json",
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const rr = (JSON.parse(result.stdout) as { ResourceRecordSets?: ResourceRecordSet[] }).ResourceRecordSets?.[0];
+    const fqdn = name.endsWith(".") ? name : `${name}.`;
+    if (!rr || rr.Type !== "A" || rr.Name.toLowerCase() !== fqdn.toLowerCase()) {
+      return { ok: true, record: null };
     }
+    return {
+      ok: true,
+      record: {
+        alias: rr.AliasTarget
+          ? { hostedZoneId: rr.AliasTarget.HostedZoneId, dnsName: rr.AliasTarget.DNSName }
+          : null,
+        values: (rr.ResourceRecords ?? []).map((r) => r.Value),
+      },
+    };
+  } catch {
+    return { ok: false, error: "Failed to parse Route53 record sets response" };
+  }
+}
+
+/**
+ * UPSERT an alias A record and wait for Route53 to report the change INSYNC
+ */
+export async function upsertAliasRecord(zoneId: string, name: string, target: AliasTarget) {
+  const changeBatch = {
+    Comment: "lakehouse-aws dns",
+    Changes: [
+      {
+        Action: "UPSERT",
+        ResourceRecordSet: {
+          Name: name,
+          Type: "A",
+          AliasTarget: { HostedZoneId: target.hostedZoneId, DNSName: target.dnsName, EvaluateTargetHealth: true },
+        },
+      },
+    ],
+  };
+  const result = await run("aws", [
+    "route53",
+    "change-resource-record-sets",
+    "--hosted-zone-id",
+    zoneId,
+    "--change-batch",
+    JSON.stringify(changeBatch),
+    "--output",
+    "json",
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
   }
+  let changeId: string;
+  try {
+    changeId = JSON.parse(result.stdout).ChangeInfo.Id;
+  } catch {
+    return { ok: false, error: "Failed to parse Route53 change response" };
+  }
+  const wait = await run("aws", ["route53", "wait", "resource-record-sets-changed", "--id", changeId]);
+  return wait.ok ? { ok: true, changeId } : { ok: false, error: wait.stderr, changeId };
+}
 
-  return { ok: true, zoneId: null, zoneName: null, isPrivate: false };
+/**
+ * UPSERT records into a hosted zone in one change batch
+ */
+export async function upsertRecords(
+  zoneId: string,
+  records: Array<{ name: string; type: string; value: string; ttl?: number }>
+) {
+  const changeBatch = {
+    Comment: "lakehouse-aws preflight",
+    Changes: records.map((r) => ({
+      Action: "UPSERT",
+      ResourceRecordSet: { Name: r.name, Type: r.type, TTL: r.ttl ?? 300, ResourceRecords: [{ Value: r.value }] },
+    })),
+  };
+  const result = await run("aws", [
+    "route53",
+    "change-resource-record-sets",
+    "--hosted-zone-id",
+    zoneId,
+    "--change-batch",
+    JSON.stringify(changeBatch),
+    "--output",
+    "json",
+  ]);
+  if (!result.ok) {
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true };
 }
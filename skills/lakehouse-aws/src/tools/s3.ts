@@ -0,0 +1,183 @@
+import { run } from "./shell.js";
+
+/**
+ * Create a bucket in the given region. us-east-1 rejects an explicit
+ * LocationConstraint, so it is only passed for other regions.
+ */
+export async function createBucket(bucket: string, region: string) {
+  const args = ["s3api", "create-bucket", "--bucket", bucket, "--region", region];
+  if (region !== "us-east-1") {
+    args.push("--create-bucket-configuration", `LocationConstraint=${region}`);
+  }
+  const result = await run("aws", args, { AWS_REGION: region });
+  if (!result.ok) {
+    if (/BucketAlreadyOwnedByYou/.test(result.stderr)) {
+      return { ok: true, created: false };
+    }
+    return { ok: false, error: result.stderr };
+  }
+  return { ok: true, created: true };
+}
+
+/**
+ * Empty and delete a bucket (`aws s3 rb --force`)
+ */
+export async function removeBucket(bucket: string, region: string) {
+  const result = await run("aws", ["s3", "rb", `s3://${bucket}`, "--force", "--region", region], {
+    AWS_REGION: region,
+  });
+  if (!result.ok) {
+    if (/NoSuchBucket/.test(result.stderr)) return { ok: true, existed: false };
+    return { ok: false, existed: true, error: result.stderr };
+  }
+  return { ok: true, existed: true };
+}
+
+/**
+ * Region a bucket lives in. get-bucket-location reports us-east-1 as a null LocationConstraint.
+ */
+export async function getBucketRegion(bucket: string, region: string) {
+  const result = await run("aws", ["s3api", "get-bucket-location", "--bucket", bucket, "--output", "json"], {
+    AWS_REGION: region,
+  });
+  if (!result.ok) {
+    if (/NoSuchBucket/.test(result.stderr)) return { ok: true, exists: false };
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    const constraint = JSON.parse(result.stdout || "{}").LocationConstraint;
+    return { ok: true, exists: true, region: (constraint || "us-east-1") as string };
+  } catch {
+    return { ok: false, error: "Failed to parse get-bucket-location response" };
+  }
+}
+
+/**
+ * The bucket policy document, or null when the bucket has none
+ */
+export async function getBucketPolicy(bucket: string, region: string) {
+  const result = await run("aws", ["s3api", "get-bucket-policy", "--bucket", bucket, "--output", "json"], {
+    AWS_REGION: region,
+  });
+  if (!result.ok) {
+    if (/NoSuchBucketPolicy/.test(result.stderr)) return { ok: true, policy: null };
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, policy: JSON.parse(JSON.parse(result.stdout).Policy) as object };
+  } catch {
+    return { ok: false, error: "Failed to parse get-bucket-policy response" };
+  }
+}
+
+/**
+ * Whether the bucket exists and belongs to accountId. HeadBucket with --expected-bucket-owner
+ * answers 403 both for another account's bucket and for one the profile may not read.
+ */
+export async function headBucketOwner(bucket: string, accountId: string, region: string) {
+  const result = await run(
+    "aws",
+    ["s3api", "head-bucket", "--bucket", bucket, "--expected-bucket-owner", accountId, "--output", "json"],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) {
+    if (/\(404\)|Not Found|NoSuchBucket/.test(result.stderr)) return { ok: true, state: "missing" as const };
+    if (/\(403\)|Forbidden|AccessDenied/.test(result.stderr)) return { ok: true, state: "forbidden" as const };
+    return { ok: false, error: result.stderr };
+  }
+  let bucketRegion: string | undefined;
+  try {
+    bucketRegion = JSON.parse(result.stdout || "{}").BucketRegion;
+  } catch {
+    // Older CLIs print nothing; the region is looked up separately then
+  }
+  return { ok: true, state: "owned" as const, region: bucketRegion };
+}
+
+// data is null when stderr matches absent, the error for a configuration the bucket does not have
+async function s3apiJson(args: string[], bucket: string, region: string, absent?: RegExp) {
+  const result = await run("aws", ["s3api", ...args, "--bucket", bucket, "--output", "json"], { AWS_REGION: region });
+  if (!result.ok) {
+    if (absent?.test(result.stderr)) return { ok: true, data: null };
+    return { ok: false, error: result.stderr };
+  }
+  try {
+    return { ok: true, data: JSON.parse(result.stdout || "{}") };
+  } catch {
+    return { ok: false, error: `Failed to parse aws s3api ${args[0]} response` };
+  }
+}
+
+/**
+ * Default encryption; null when the bucket has no default encryption configured
+ */
+export async function getBucketEncryption(bucket: string, region: string) {
+  const r = await s3apiJson(["get-bucket-encryption"], bucket, region, /ServerSideEncryptionConfigurationNotFoundError/);
+  if (!r.ok) return { ok: false, error: r.error };
+  const rule = r.data?.ServerSideEncryptionConfiguration?.Rules?.[0]?.ApplyServerSideEncryptionByDefault;
+  return {
+    ok: true,
+    encryption: rule ? { algorithm: rule.SSEAlgorithm as string, kmsKeyId: rule.KMSMasterKeyID as string | undefined } : null,
+  };
+}
+
+/**
+ * Enabled, Suspended or Disabled (a bucket that never had versioning reports no status)
+ */
+export async function getBucketVersioning(bucket: string, region: string) {
+  const r = await s3apiJson(["get-bucket-versioning"], bucket, region);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, status: (r.data?.Status ?? "Disabled") as string };
+}
+
+export type PublicAccessBlock = {
+  BlockPublicAcls: boolean;
+  IgnorePublicAcls: boolean;
+  BlockPublicPolicy: boolean;
+  RestrictPublicBuckets: boolean;
+};
+
+/**
+ * The bucket's own public access block; null when none is set (the account-level one may still apply)
+ */
+export async function getPublicAccessBlock(bucket: string, region: string) {
+  const r = await s3apiJson(["get-public-access-block"], bucket, region, /NoSuchPublicAccessBlockConfiguration/);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, config: (r.data?.PublicAccessBlockConfiguration ?? null) as PublicAccessBlock | null };
+}
+
+export type LifecycleRule = {
+  ID?: string;
+  Status: "Enabled" | "Disabled";
+  Filter: { Prefix?: string };
+  Transitions?: { Days: number; StorageClass: string }[];
+  Expiration?: { Days: number };
+};
+
+export async function getBucketLifecycle(bucket: string, region: string) {
+  const r = await s3apiJson(["get-bucket-lifecycle-configuration"], bucket, region, /NoSuchLifecycleConfiguration/);
+  if (!r.ok) return { ok: false, error: r.error };
+  return { ok: true, rules: (r.data?.Rules ?? []) as LifecycleRule[] };
+}
+
+/**
+ * Replace the bucket's lifecycle configuration with these rules
+ */
+export async function putBucketLifecycle(bucket: string, region: string, rules: LifecycleRule[]) {
+  const result = await run(
+    "aws",
+    [
+      "s3api",
+      "put-bucket-lifecycle-configuration",
+      "--bucket",
+      bucket,
+      "--lifecycle-configuration",
+      JSON.stringify({ Rules: rules }),
+      "--region",
+      region,
+    ],
+    { AWS_REGION: region }
+  );
+  if (!result.ok) return { ok: false, error: result.stderr };
+  return { ok: true };
+}
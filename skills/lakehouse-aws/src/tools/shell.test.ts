@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setAuditLog } from "./audit.js";
+import { unusedInteractions } from "./cassette.js";
+import { run, setExecMode, timeoutFor } from "./shell.js";
+
+setAuditLog(null);
+
+const MINUTE = 60_000;
+
+test("aws waiters and bulk s3 commands get longer than a single aws request", () => {
+  assert.equal(timeoutFor("aws", ["s3api", "head-bucket", "--bucket", "b"]), 2 * MINUTE);
+  assert.equal(timeoutFor("aws", ["s3", "rb", "s3://b", "--force"]), 30 * MINUTE);
+  assert.equal(timeoutFor("aws", ["route53", "wait", "resource-record-sets-changed", "--id", "C1"]), 30 * MINUTE);
+});
+
+test("a --timeout the command was given stretches the limit past it", () => {
+  assert.equal(timeoutFor("kubectl", ["wait", "--for=condition=Ready", "pod", "--timeout=600s"]), 11 * MINUTE);
+  assert.equal(timeoutFor("helm", ["upgrade", "--install", "r", "c", "--timeout", "5m"]), 10 * MINUTE);
+  assert.equal(timeoutFor("unknown-tool", []), 5 * MINUTE);
+});
+
+const ARGS = ["ec2", "describe-vpcs", "--output", "json"];
+const THROTTLED = { code: 254, stdout: "", stderr: "An error occurred (RequestLimitExceeded) when calling the DescribeVpcs operation" };
+
+function replay(results: object[]) {
+  const path = join(mkdtempSync(join(tmpdir(), "shell-")), "cassette.json");
+  const interactions = results.map((result) => ({ cmd: "aws", args: ARGS, env: {}, result }));
+  writeFileSync(path, JSON.stringify({ version: 1, recordedAt: "", interactions }));
+  setExecMode("replay", path);
+}
+
+test("a throttled aws call is retried until it gets through", async () => {
+  replay([THROTTLED, THROTTLED, { code: 0, stdout: "{}", stderr: "" }]);
+  assert.deepEqual(await run("aws", ARGS), { ok: true, exitCode: 0, stdout: "{}", stderr: "" });
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a cancelled run stops retrying with an AbortError", async () => {
+  replay([THROTTLED, THROTTLED]);
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(run("aws", ARGS, undefined, { signal: controller.signal }), { name: "AbortError" });
+});
@@ -1,4 +1,9 @@
-import { execCmd, ExecMode } from "./exec.js";
+import { setTimeout as sleep } from "node:timers/promises";
+import { execCmd, ExecMode, ExecResult } from "./exec.js";
+import { loadCassette, startRecording } from "./cassette.js";
+import { audit, redactArgs } from "./audit.js";
+import { setToolboxImage, TOOLBOX_IMAGE } from "./docker.js";
+import { log } from "../log.js";
 
 export type ShellResult = {
   ok: boolean;
@@ -7,17 +12,152 @@ export type ShellResult = {
   stderr: string;
 };
 
+export type RunOptions = {
+  /** Overrides the tool's default timeout */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Passed on stdin; never audited or recorded */
+  input?: string;
+  /** Run on this machine even in docker mode; for the docker commands that manage the toolbox itself */
+  host?: boolean;
+};
+
 let EXEC_MODE: ExecMode = "local"; // default
 
-export function setExecMode(mode: ExecMode) {
+export function setExecMode(mode: ExecMode, cassettePath?: string, dockerImage?: string) {
+  if (mode === "record" || mode === "replay") {
+    if (!cassettePath) throw new Error(`--exec ${mode} requires --cassette <file>`);
+    if (mode === "record") startRecording(cassettePath);
+    else loadCassette(cassettePath);
+  }
+  if (mode === "docker") setToolboxImage(dockerImage ?? TOOLBOX_IMAGE);
   EXEC_MODE = mode;
 }
 
-export function run(cmd: string, args: string[], env?: Record<string, string>): Promise<ShellResult> {
-  return execCmd(EXEC_MODE, cmd, args, { env }).then((r) => ({
-    ok: r.code === 0,
-    exitCode: r.code,
-    stdout: r.stdout,
-    stderr: r.stderr,
-  }));
-}
\ No newline at end of file
+const MINUTE = 60_000;
+
+// Long enough for the slowest legitimate call of each tool, short enough that a hung prompt surfaces
+const TOOL_TIMEOUTS_MS: Record<string, number> = {
+  aws: 2 * MINUTE,
+  dig: 15_000,
+  docker: 1 * MINUTE,
+  kubectl: 2 * MINUTE,
+  helm: 10 * MINUTE,
+  eksctl: 45 * MINUTE,
+  bash: 30 * MINUTE,
+  az: 2 * MINUTE,
+  gcloud: 2 * MINUTE,
+};
+const DEFAULT_TIMEOUT_MS = 5 * MINUTE;
+
+// aws calls that poll a waiter (route53 wait resource-record-sets-changed: up to 60 x 30s)
+// or move every object in a bucket (s3 rb --force) outlast a single request by far
+function isLongAwsCall(args: string[]): boolean {
+  return args[1] === "wait" || (args[0] === "s3" && ["rb", "rm", "sync", "cp", "mv"].includes(args[1]));
+}
+
+function durationMs(value: string): number | null {
+  const m = /^(\d+)(ms|s|m|h)?$/.exec(value);
+  if (!m) return null;
+  return Number(m[1]) * { ms: 1, s: 1_000, m: MINUTE, h: 60 * MINUTE }[(m[2] ?? "s") as "ms" | "s" | "m" | "h"];
+}
+
+/**
+ * The tool's default (30 minutes for aws waiters and bulk s3 commands), stretched to cover
+ * a --timeout the command itself was given (kubectl wait, helm --wait) plus a minute to report it
+ */
+export function timeoutFor(cmd: string, args: string[]): number {
+  const base = cmd === "aws" && isLongAwsCall(args) ? 30 * MINUTE : TOOL_TIMEOUTS_MS[cmd] ?? DEFAULT_TIMEOUT_MS;
+  const i = args.findIndex((a) => a === "--timeout" || a.startsWith("--timeout="));
+  if (i < 0) return base;
+  const own = durationMs(args[i] === "--timeout" ? args[i + 1] ?? "" : args[i].slice("--timeout=".length));
+  return own === null ? base : Math.max(base, own + MINUTE);
+}
+
+// Error codes AWS returns when a request was rate limited and can be retried as is
+const THROTTLED =
+  /\b(Throttling|ThrottlingException|ThrottledException|RequestLimitExceeded|TooManyRequestsException|RequestThrottled|RequestThrottledException|SlowDown|PriorRequestNotComplete)\b/;
+const RETRIED_TOOLS = ["aws", "eksctl"];
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 20_000;
+
+export function isThrottled(cmd: string, stderr: string): boolean {
+  return RETRIED_TOOLS.includes(cmd) && THROTTLED.test(stderr);
+}
+
+// Exponential with full jitter: attempt 1 waits up to 1s, then 2s, 4s... capped
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+}
+
+// Aborted on Ctrl-C; every command started through run() is killed with it
+const interrupt = new AbortController();
+
+/**
+ * On the first SIGINT/SIGTERM, kill running commands and let the caller unwind (so install
+ * records the failed phase); a second one exits immediately.
+ */
+export function installInterruptHandler() {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (interrupt.signal.aborted) process.exit(130);
+    log.warn(`\n⚠️  ${signal} received; stopping running commands (repeat to exit now)`);
+    interrupt.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+}
+
+/**
+ * Run a command with its tool's timeout, retrying AWS throttling with backoff.
+ * Every attempt is written to the audit log.
+ */
+export async function run(
+  cmd: string,
+  args: string[],
+  env?: Record<string, string>,
+  opts: RunOptions = {}
+): Promise<ShellResult> {
+  log.debug(`$ ${cmd} ${redactArgs(args).join(" ")}`);
+  const signal = opts.signal ? AbortSignal.any([opts.signal, interrupt.signal]) : interrupt.signal;
+  const timeoutMs = opts.timeoutMs ?? timeoutFor(cmd, args);
+  const mode = opts.host && EXEC_MODE === "docker" ? "local" : EXEC_MODE;
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    const entry = {
+      at: new Date(startedAt).toISOString(),
+      mode,
+      cmd,
+      args,
+      envKeys: Object.keys(env ?? {}),
+      attempt,
+    };
+    let r: ExecResult;
+    try {
+      r = await execCmd(mode, cmd, args, { env, timeoutMs, signal, input: opts.input });
+    } catch (err) {
+      audit({
+        ...entry,
+        durationMs: Date.now() - startedAt,
+        exitCode: null,
+        outcome: err instanceof Error && err.name === "AbortError" ? "cancelled" : "spawn-error",
+        stderr: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+
+    const throttled = r.code !== 0 && isThrottled(cmd, r.stderr) && attempt < MAX_ATTEMPTS;
+    const outcome = r.code === 0 ? "ok" : r.timedOut ? "timed-out" : throttled ? "throttled" : "failed";
+    audit({ ...entry, durationMs: Date.now() - startedAt, exitCode: r.code, outcome, stdout: r.stdout, stderr: r.stderr });
+
+    if (!throttled) {
+      return { ok: r.code === 0, exitCode: r.code, stdout: r.stdout, stderr: r.stderr };
+    }
+    // A cassette already holds the retried response; waiting would only slow replay down
+    const wait = mode === "replay" ? 0 : backoffMs(attempt);
+    log.debug(`  ${cmd} was throttled; retrying in ${(wait / 1000).toFixed(1)}s (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+    // Rejects with an AbortError on Ctrl-C, and leaves no listener on the signal once it fires
+    await sleep(wait, undefined, { signal });
+  }
+}
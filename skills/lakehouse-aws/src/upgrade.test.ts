@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareVersions } from "./upgrade.js";
+
+test("compareVersions orders numerically, not as text", () => {
+  const sorted = ["1.10.0", "1.2.0", "v1.9.3", "0.9", "1.2"].sort(compareVersions);
+  assert.deepEqual(sorted, ["0.9", "1.2.0", "1.2", "v1.9.3", "1.10.0"]);
+  assert.equal(compareVersions("1.2", "1.2.0"), 0);
+  assert.equal(compareVersions("v2.0.0", "2.0.0"), 0);
+});
+
+test("a pre-release sorts before its release, and pre-releases compare numerically", () => {
+  assert.ok(compareVersions("1.0.0-rc.1", "1.0.0") < 0);
+  assert.ok(compareVersions("1.0.0", "1.0.0-rc.1") > 0);
+  assert.ok(compareVersions("1.0.0-rc.2", "1.0.0-rc.10") < 0);
+  assert.ok(compareVersions("1.0.0-rc.1", "0.9.9") > 0);
+});
@@ -0,0 +1,277 @@
+import { basename } from "node:path";
+import { ClusterInput } from "./schema.js";
+import { readEnvFile } from "./artifacts.js";
+import { updateKubeconfig } from "./tools/eks.js";
+import { HelmRelease, addRepo, listReleases, rollback, searchRepoVersions, upgradeInstall } from "./tools/helm.js";
+import { listOciTags } from "./tools/oci.js";
+import { EKS_CHART_REPO, RELEASES, ReleaseSpec, releaseNamespace } from "./install/releases.js";
+import { emptyState, loadState, saveState, stateOutputs, statePathFor } from "./install/state.js";
+import { localChartVersion, renderReleaseValues, valuesDirFor } from "./install/values.js";
+import { log } from "./log.js";
+
+export type ChartSource = ClusterInput["chartSource"];
+
+export type ReleaseVersions = {
+  release: string;
+  namespace: string;
+  chart: string;
+  /** Chart version deployed now, null when the release is not installed */
+  deployed: string | null;
+  revision: number | null;
+  pinned: string | null;
+  /** Newest stable version the chart source offers, null when it could not be looked up */
+  latest: string | null;
+};
+
+export type UpgradeStep = {
+  order: number;
+  release: string;
+  namespace: string;
+  chart: string;
+  from: string;
+  to: string;
+  /** Revision to return to if the upgrade fails */
+  rollbackRevision: number | null;
+};
+
+export type UpgradeResult = {
+  blockers: { code: string; message: string }[];
+  remediation: { message: string }[];
+  evidence: {
+    statePath: string;
+    chartSource: ChartSource;
+    releases: ReleaseVersions[];
+    plan: UpgradeStep[];
+    upgraded: string[];
+    rolledBack: { release: string; revision: number }[];
+  };
+  next: { action: "upgrade" | "done" | "stop"; reason: string };
+};
+
+/**
+ * Order semver-like versions; a pre-release sorts before its release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = a.replace(/^v/, "").split("-", 2);
+  const [coreB, preB] = b.replace(/^v/, "").split("-", 2);
+  const partsA = coreA.split(".").map(Number);
+  const partsB = coreB.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  if (preA === preB) return 0;
+  if (preA === undefined) return 1;
+  if (preB === undefined) return -1;
+  return preA.localeCompare(preB, undefined, { numeric: true });
+}
+
+function latestStable(versions: string[]): string | null {
+  const stable = versions.filter((v) => /^v?\d+(\.\d+)*$/.test(v));
+  return stable.sort(compareVersions).pop() ?? null;
+}
+
+// helm list reports the chart as <name>-<version>
+function deployedVersion(spec: ReleaseSpec, live: HelmRelease | undefined): string | null {
+  const prefix = `${basename(spec.chart)}-`;
+  return live?.chart.startsWith(prefix) ? live.chart.slice(prefix.length) : null;
+}
+
+/**
+ * Versions a chart source offers, looked up once per chart (both pools share ingext-eks-pool)
+ */
+function versionLookup(source: ChartSource, remediation: { message: string }[]) {
+  const cache = new Map<string, Promise<string | null>>();
+  let repoAdded: Promise<boolean> | null = null;
+
+  const lookup = async (spec: ReleaseSpec): Promise<string | null> => {
+    if (source === "local") {
+      const version = await localChartVersion(spec);
+      if (!version) remediation.push({ message: `⚠️  ${spec.chart} has no local chart; ${spec.release} keeps its version.` });
+      return version;
+    }
+    if (spec.chart.startsWith("oci://")) {
+      const tags = await listOciTags(spec.chart);
+      if (!tags.ok) {
+        remediation.push({ message: `⚠️  Could not list versions of ${spec.chart}: ${tags.error}` });
+        return null;
+      }
+      return latestStable(tags.tags ?? []);
+    }
+    repoAdded ??= addRepo(EKS_CHART_REPO.name, EKS_CHART_REPO.url).then((r) => r.ok);
+    const found = (await repoAdded) ? await searchRepoVersions(spec.chart) : null;
+    if (!found?.ok) {
+      remediation.push({ message: `⚠️  Could not list versions of ${spec.chart}: ${found?.error ?? "helm repo add failed"}` });
+      return null;
+    }
+    return latestStable(found.versions ?? []);
+  };
+
+  return (spec: ReleaseSpec) => {
+    if (!cache.has(spec.chart)) cache.set(spec.chart, lookup(spec));
+    return cache.get(spec.chart)!;
+  };
+}
+
+/**
+ * Compare deployed chart versions with the newest in the registry (or charts/ with
+ * chartSource local) and plan upgrades in install order. With approve, upgrade each
+ * release, pin the versions in the install state so install stops taking the latest,
+ * and roll a failed release back to its recorded revision before stopping.
+ */
+export async function runUpgrade(input: ClusterInput): Promise<UpgradeResult> {
+  const envFile = input.outputEnvPath;
+  const statePath = statePathFor(envFile);
+  const blockers: UpgradeResult["blockers"] = [];
+  const remediation: UpgradeResult["remediation"] = [];
+  const evidence: UpgradeResult["evidence"] = {
+    statePath,
+    chartSource: input.chartSource,
+    releases: [],
+    plan: [],
+    upgraded: [],
+    rolledBack: [],
+  };
+  const stop = (code: string, message: string, reason: string): UpgradeResult => {
+    blockers.push({ code, message });
+    return { blockers, remediation, evidence, next: { action: "stop", reason } };
+  };
+
+  const fromFile = await readEnvFile(envFile).catch(() => null);
+  if (!fromFile) return stop("ENV_FILE_MISSING", `${envFile} does not exist or cannot be read.`, "Nothing to upgrade");
+  const loaded = await loadState(statePath);
+  if (!loaded.ok) return stop("INSTALL_STATE_INVALID", loaded.error, "Install state is unreadable");
+  const env: Record<string, string> = { ...stateOutputs(loaded.state), ...fromFile };
+
+  const kc = await updateKubeconfig(env.CLUSTER_NAME, env.AWS_REGION);
+  if (!kc.ok) return stop("CLUSTER_UNREACHABLE", `Failed to update kubeconfig: ${kc.error}`, "Cannot read deployed releases");
+  const listed = await listReleases();
+  if (!listed.ok) return stop("CLUSTER_UNREACHABLE", `helm list failed: ${listed.error}`, "Cannot read deployed releases");
+  const installed = listed.releases ?? [];
+
+  const latestFor = versionLookup(input.chartSource, remediation);
+  for (const spec of RELEASES) {
+    const namespace = releaseNamespace(spec, env);
+    const live = installed.find((r) => r.name === spec.release && r.namespace === namespace);
+    evidence.releases.push({
+      release: spec.release,
+      namespace,
+      chart: spec.chart,
+      deployed: deployedVersion(spec, live),
+      revision: live ? Number(live.revision) : null,
+      pinned: loaded.state?.charts?.[spec.release]?.version ?? null,
+      latest: await latestFor(spec),
+    });
+  }
+
+  // RELEASES is in install order, so the plan upgrades what others depend on first
+  for (const r of evidence.releases) {
+    if (!r.deployed || !r.latest || compareVersions(r.latest, r.deployed) <= 0) continue;
+    evidence.plan.push({
+      order: evidence.plan.length + 1,
+      release: r.release,
+      namespace: r.namespace,
+      chart: r.chart,
+      from: r.deployed,
+      to: r.latest,
+      rollbackRevision: r.revision,
+    });
+  }
+  const notInstalled = evidence.releases.filter((r) => !r.deployed).map((r) => r.release);
+  if (notInstalled.length > 0) {
+    remediation.push({ message: `⚠️  Not installed, so not upgraded: ${notInstalled.join(", ")}. Run install first.` });
+  }
+
+  const unpinned = evidence.releases.filter((r) => r.deployed && r.pinned !== r.deployed);
+  if (!input.approve) {
+    if (evidence.plan.length === 0 && unpinned.length === 0) {
+      return { blockers, remediation, evidence, next: { action: "done", reason: "Every release is on the latest chart" } };
+    }
+    return {
+      blockers,
+      remediation,
+      evidence,
+      next: {
+        action: "upgrade",
+        reason: `${evidence.plan.length} release(s) to upgrade, ${unpinned.length} version(s) to pin. Re-run with --approve.`,
+      },
+    };
+  }
+
+  const state = loaded.state ?? emptyState(env);
+  state.charts ??= {};
+  const valuesDir = valuesDirFor(envFile);
+  for (const step of evidence.plan) {
+    const spec = RELEASES.find((s) => s.release === step.release)!;
+    log.info(`  ⏳ [${step.order}/${evidence.plan.length}] ${step.release}: ${step.from} -> ${step.to}`);
+
+    const [values] = spec.values ? await renderReleaseValues(env, valuesDir, [spec]) : [];
+    if (values && values.issues.length > 0) {
+      const issues = values.issues.map((i) => `${i.path} ${i.message}`).join("; ");
+      return stop("HELM_VALUES_INVALID", `Values for ${step.release} are invalid: ${issues}`, "Upgrade stopped");
+    }
+    const r = await upgradeInstall({
+      release: step.release,
+      chart: step.chart,
+      namespace: step.namespace,
+      valuesFiles: values ? [values.valuesFile] : [],
+      version: step.to,
+    });
+    if (!r.ok) {
+      let rolledBack = false;
+      if (step.rollbackRevision !== null) {
+        log.warn(`  ⚠️  Rolling ${step.release} back to revision ${step.rollbackRevision}`);
+        const rb = await rollback(step.release, step.namespace, step.rollbackRevision);
+        rolledBack = rb.ok;
+        if (rb.ok) evidence.rolledBack.push({ release: step.release, revision: step.rollbackRevision });
+        else remediation.push({ message: `⚠️  Rollback of ${step.release} failed: ${rb.error}` });
+      }
+      await saveState(statePath, state);
+      remediation.push({
+        message: `Fix the error and re-run upgrade with --approve; the ${evidence.upgraded.length} release(s) upgraded so far stay pinned.`,
+      });
+      return stop(
+        "UPGRADE_FAILED",
+        `${step.release} ${step.from} -> ${step.to} failed${rolledBack ? ` and was rolled back to revision ${step.rollbackRevision}` : ""}: ${r.error}`,
+        "Upgrade stopped; later releases were not touched"
+      );
+    }
+
+    const after = await listReleases(step.namespace);
+    const revision = Number(after.releases?.find((x) => x.name === step.release)?.revision ?? 0);
+    state.charts[step.release] = { version: step.to, revision, pinnedAt: new Date().toISOString() };
+    await saveState(statePath, state);
+    evidence.upgraded.push(step.release);
+  }
+
+  // Releases already on the latest chart are pinned as they are
+  for (const r of unpinned) {
+    if (evidence.upgraded.includes(r.release)) continue;
+    state.charts[r.release] = { version: r.deployed!, revision: r.revision ?? 0, pinnedAt: new Date().toISOString() };
+  }
+  await saveState(statePath, state);
+
+  return {
+    blockers,
+    remediation,
+    evidence,
+    next: { action: "done", reason: `Upgraded ${evidence.upgraded.length} release(s); versions pinned in ${statePath}` },
+  };
+}
+
+/**
+ * Version table and plan appended to the text report
+ */
+export function formatUpgradeLines(result: UpgradeResult): string[] {
+  const lines = ["", "Releases", `  ${"RELEASE".padEnd(30)} ${"DEPLOYED".padEnd(10)} ${"PINNED".padEnd(10)} LATEST`];
+  for (const r of result.evidence.releases) {
+    lines.push(`  ${r.release.padEnd(30)} ${(r.deployed ?? "-").padEnd(10)} ${(r.pinned ?? "-").padEnd(10)} ${r.latest ?? "?"}`);
+  }
+  if (result.evidence.plan.length > 0) {
+    lines.push("", "Upgrade plan");
+    for (const s of result.evidence.plan) {
+      lines.push(`  ${s.order}. ${s.release} (${s.namespace}) ${s.from} -> ${s.to}, rollback to revision ${s.rollbackRevision ?? "-"}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,62 @@
+import { createInterface } from "node:readline/promises";
+import { PreflightInput, PreflightInputSchema } from "./schema.js";
+import { PreflightResult, runPreflight } from "./skill.js";
+import { validateRequiredVariables } from "./steps/collect.js";
+import { Answers, FIELD_ORDER, askYesNo, fieldsFor, promptField } from "./wizard/prompts.js";
+import { log } from "./log.js";
+
+function reportBlockers(blockers: { code: string; message: string }[]) {
+  log.error("");
+  for (const b of blockers) log.error(`❌ ${b.code}: ${b.message}`);
+}
+
+/**
+ * Interactive replacement for preflight-lakehouse.sh. Prompts for every input,
+ * runs preflight, and re-asks only the fields behind any blockers until it
+ * passes or the remaining blockers are not something an answer can fix.
+ */
+export async function runWizard(
+  answers: Answers
+): Promise<{ input: PreflightInput; preflight: PreflightResult }> {
+  if (!process.stdin.isTTY) {
+    throw new Error("--interactive needs a terminal; pass flags instead when stdin is not a TTY");
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  log.info("\n================ Preflight AWS Lakehouse (Interactive) ================\n");
+
+  try {
+    let pending = FIELD_ORDER;
+    for (;;) {
+      for (const field of pending) await promptField(rl, field, answers);
+
+      const parsed = PreflightInputSchema.safeParse(answers);
+      if (!parsed.success) {
+        log.error(`❌ ${parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+        pending = FIELD_ORDER.filter((f) => parsed.error.issues.some((i) => i.path[0] === f));
+        continue;
+      }
+      const input = parsed.data;
+
+      const siteDomain = input.siteDomain ?? `lakehouse.k8.${input.rootDomain}`;
+      const validation = validateRequiredVariables({ ...input, siteDomain });
+      if (!validation.ok) {
+        reportBlockers(validation.blockers);
+        const fields = fieldsFor(validation.blockers, []);
+        pending = fields.length > 0 ? fields : FIELD_ORDER;
+        continue;
+      }
+
+      const preflight = await runPreflight(input);
+      if (preflight.okToInstall) return { input, preflight };
+
+      reportBlockers(preflight.blockers);
+      pending = fieldsFor(preflight.blockers, preflight.evidence.checks ?? []);
+      if (pending.length === 0) return { input, preflight };
+      if (!(await askYesNo(rl, `Change ${pending.join(", ")} and re-run preflight?`, true))) {
+        return { input, preflight };
+      }
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Interface } from "node:readline/promises";
+import { setAuditLog } from "../tools/audit.js";
+import { unusedInteractions } from "../tools/cassette.js";
+import { setExecMode } from "../tools/shell.js";
+import { Answers, askYesNo, fieldsFor, promptField } from "./prompts.js";
+
+setAuditLog(null);
+
+// Answers the prompts in order and records each question asked
+function scripted(replies: string[]) {
+  const asked: string[] = [];
+  const rl = {
+    question: async (query: string) => {
+      asked.push(query);
+      return replies.shift() ?? "";
+    },
+  } as unknown as Interface;
+  return { rl, asked };
+}
+
+test("blockers and failed checks map to the fields to ask again, in prompt order", () => {
+  const fields = fieldsFor(
+    [{ code: "NO_CERTIFICATE" }, { code: "INVALID_NODE_COUNT" }, { code: "QUOTA_EXCEEDED" }],
+    [
+      { id: "auth", status: "failed" },
+      { id: "domain", status: "passed" },
+    ] as Parameters<typeof fieldsFor>[1]
+  );
+  assert.deepEqual(fields, ["awsProfile", "certArn", "nodeCount"]);
+});
+
+test("re-asks until the schema accepts the answer, and numbers pick a listed choice", async () => {
+  const path = join(mkdtempSync(join(tmpdir(), "wizard-")), "cassette.json");
+  const zones = {
+    HostedZones: [
+      { Id: "/hostedzone/Z1", Name: "example.com." },
+      { Id: "/hostedzone/Z2", Name: "corp.internal.", Config: { PrivateZone: true } },
+    ],
+  };
+  writeFileSync(
+    path,
+    JSON.stringify({
+      version: 1,
+      recordedAt: "",
+      interactions: [
+        {
+          cmd: "aws",
+          args: ["route53", "list-hosted-zones", "--max-items", "100", "--output", "json"],
+          env: {},
+          result: { code: 0, stdout: JSON.stringify(zones), stderr: "" },
+        },
+      ],
+    })
+  );
+  setExecMode("replay", path);
+
+  const { rl, asked } = scripted(["ab", "1"]);
+  const answers: Answers = {};
+  await promptField(rl, "rootDomain", answers);
+  assert.equal(asked.length, 2);
+  assert.equal(answers.rootDomain, "example.com");
+  assert.deepEqual(unusedInteractions(), []);
+});
+
+test("a blank answer keeps the current value, or the schema default", async () => {
+  const { rl, asked } = scripted(["", ""]);
+  const answers: Answers = { nodeCount: "4" };
+  await promptField(rl, "nodeCount", answers);
+  await promptField(rl, "namespace", answers);
+  assert.deepEqual(asked, ["Initial Node Count [4]: ", "Kubernetes Namespace [ingext]: "]);
+  assert.equal(answers.nodeCount, "4");
+  assert.equal(answers.namespace, "ingext");
+});
+
+test("yes/no questions repeat until answered, and readiness keeps the --has-admin override", async () => {
+  const { rl, asked } = scripted(["maybe", "n", ""]);
+  const answers: Answers = { siteDomain: "lake.example.com", readiness: { hasAdmin: false } };
+  await promptField(rl, "readiness", answers);
+  assert.equal(asked.length, 3);
+  assert.deepEqual(answers.readiness, { hasBilling: false, hasAdmin: false, hasDns: true });
+
+  assert.equal(await askYesNo(scripted(["Y"]).rl, "Continue?", false), true);
+});
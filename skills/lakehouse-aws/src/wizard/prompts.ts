@@ -0,0 +1,198 @@
+import type { Interface } from "node:readline/promises";
+import type { ZodTypeAny } from "zod";
+import { PreflightInputSchema } from "../schema.js";
+import type { CheckRecord } from "../preflight/registry.js";
+import { listAwsProfiles } from "../tools/profiles.js";
+import { listRegions } from "../tools/ec2.js";
+import { listHostedZones } from "../tools/route53.js";
+import { findCertificatesForDomain } from "../tools/acm.js";
+import { log } from "../log.js";
+
+export type Field =
+  | "awsProfile"
+  | "awsRegion"
+  | "clusterName"
+  | "s3Bucket"
+  | "rootDomain"
+  | "siteDomain"
+  | "certArn"
+  | "namespace"
+  | "nodeType"
+  | "nodeCount"
+  | "ingestGbPerDay"
+  | "retentionDays"
+  | "readiness"
+  | "outputEnvPath";
+
+export const FIELD_ORDER: Field[] = [
+  "awsProfile",
+  "awsRegion",
+  "clusterName",
+  "s3Bucket",
+  "rootDomain",
+  "siteDomain",
+  "certArn",
+  "namespace",
+  "nodeType",
+  "nodeCount",
+  "ingestGbPerDay",
+  "retentionDays",
+  "readiness",
+  "outputEnvPath",
+];
+
+// Blocker codes (validateRequiredVariables, preflight checks) that a different answer can fix
+const CODE_FIELDS: Record<string, Field> = {
+  INVALID_CERT_ARN_FORMAT: "certArn",
+  INVALID_CLUSTER_NAME: "clusterName",
+  INVALID_ROOT_DOMAIN_FORMAT: "rootDomain",
+  INVALID_SITE_DOMAIN_FORMAT: "siteDomain",
+  INVALID_NODE_COUNT: "nodeCount",
+  INVALID_INGEST_VOLUME: "ingestGbPerDay",
+  INVALID_RETENTION_DAYS: "retentionDays",
+  MISSING_NODE_TYPE: "nodeType",
+  INSTANCE_TYPE_UNKNOWN: "nodeType",
+  INSTANCE_TYPE_UNAVAILABLE: "nodeType",
+  NO_CERTIFICATE: "certArn",
+  NO_BILLING: "readiness",
+  NO_DNS: "readiness",
+};
+
+// Failed preflight checks whose blockers carry codes we do not own (auth, domain confirmation)
+const CHECK_FIELDS: Record<string, Field> = {
+  auth: "awsProfile",
+  domain: "siteDomain",
+  acm: "certArn",
+};
+
+type Choice = { value: string; label?: string };
+type Readiness = { hasBilling?: boolean; hasAdmin?: boolean; hasDns?: boolean };
+/** Raw schema input: the flags given up front plus every answer so far */
+export type Answers = Record<string, unknown> & {
+  awsProfile?: string;
+  awsRegion?: string;
+  rootDomain?: string;
+  siteDomain?: string;
+  readiness?: Readiness;
+};
+
+export function fieldsFor(blockers: { code: string }[], checks: CheckRecord[]): Field[] {
+  const fields = new Set<Field>();
+  for (const b of blockers) {
+    if (CODE_FIELDS[b.code]) fields.add(CODE_FIELDS[b.code]);
+  }
+  for (const c of checks) {
+    if (c.status === "failed" && CHECK_FIELDS[c.id]) fields.add(CHECK_FIELDS[c.id]);
+  }
+  return FIELD_ORDER.filter((f) => fields.has(f));
+}
+
+/**
+ * Default for a schema field, i.e. what parsing an omitted value yields
+ */
+function schemaDefault(field: Field): string | undefined {
+  const schema: ZodTypeAny = PreflightInputSchema.shape[field];
+  const parsed = schema.safeParse(undefined);
+  return parsed.success && parsed.data !== undefined ? String(parsed.data) : undefined;
+}
+
+async function ask(rl: Interface, label: string, def?: string, choices: Choice[] = []): Promise<string> {
+  choices.forEach((c, i) => log.info(`  ${i + 1}) ${c.label ?? c.value}`));
+  const answer = (await rl.question(def ? `${label} [${def}]: ` : `${label}: `)).trim();
+  if (!answer) return def ?? "";
+  const n = Number(answer);
+  if (choices.length > 0 && Number.isInteger(n) && n >= 1 && n <= choices.length) return choices[n - 1].value;
+  return answer;
+}
+
+export async function askYesNo(rl: Interface, label: string, def: boolean): Promise<boolean> {
+  for (;;) {
+    const answer = (await ask(rl, `${label} yes/no`, def ? "yes" : "no")).toLowerCase();
+    if (answer === "yes" || answer === "y") return true;
+    if (answer === "no" || answer === "n") return false;
+    log.error("❌ Please answer yes or no.");
+  }
+}
+
+async function choicesFor(field: Field, answers: Answers): Promise<Choice[]> {
+  switch (field) {
+    case "awsProfile":
+      return (await listAwsProfiles()).map((value) => ({ value }));
+    case "awsRegion":
+      return (await listRegions()).regions.map((value) => ({ value }));
+    case "rootDomain": {
+      const zones = await listHostedZones();
+      return (zones.data?.HostedZones ?? [])
+        .filter((z) => !z.Config?.PrivateZone)
+        .map((z) => ({ value: z.Name.replace(/\.$/, "") }));
+    }
+    case "certArn": {
+      const siteDomain = answers.siteDomain ?? `lakehouse.k8.${answers.rootDomain}`;
+      const region = answers.awsRegion ?? schemaDefault("awsRegion");
+      if (!region) return [];
+      const certs = await findCertificatesForDomain(siteDomain, region);
+      return (certs.matches ?? []).map((m) => ({ value: m.arn, label: `${m.domain}${m.wildcard ? " (wildcard)" : ""}  ${m.arn}` }));
+    }
+    default:
+      return [];
+  }
+}
+
+const LABELS: Record<Exclude<Field, "readiness">, string> = {
+  awsProfile: "AWS Profile",
+  awsRegion: "AWS Region",
+  clusterName: "EKS Cluster Name",
+  s3Bucket: "S3 Bucket Name (blank = ingext-lakehouse-<account-id>)",
+  rootDomain: "Root Domain (Route53 hosted zone)",
+  siteDomain: "Public Site Domain",
+  certArn: "ACM Certificate ARN (blank = auto-discover)",
+  namespace: "Kubernetes Namespace",
+  nodeType: "Primary Node Instance Type",
+  nodeCount: "Initial Node Count",
+  ingestGbPerDay: "Expected Ingest GB/day (blank = leave S3 out of the cost estimate)",
+  retentionDays: "Days of Ingest Kept in S3",
+  outputEnvPath: "Env file to write",
+};
+
+/**
+ * Prompt for one field until its answer passes the schema
+ */
+export async function promptField(rl: Interface, field: Field, answers: Answers) {
+  if (field === "readiness") {
+    const current = answers.readiness ?? {};
+    log.info("\nPermissions & Readiness Check:");
+    answers.readiness = {
+      hasBilling: await askYesNo(rl, "Do you have active billing enabled?", current.hasBilling ?? true),
+      // Admin rights are verified by IAM simulation; --has-admin stays a flag-only override
+      hasAdmin: current.hasAdmin,
+      hasDns: await askYesNo(rl, `Do you control DNS for '${answers.siteDomain}'?`, current.hasDns ?? true),
+    };
+    return;
+  }
+
+  const choices = await choicesFor(field, answers);
+  const def =
+    field === "siteDomain"
+      ? answers.siteDomain ?? `lakehouse.k8.${answers.rootDomain}`
+      : answers[field] !== undefined
+        ? String(answers[field])
+        : schemaDefault(field);
+
+  for (;;) {
+    const value = await ask(rl, LABELS[field], def, choices);
+    const schema: ZodTypeAny = PreflightInputSchema.shape[field];
+    const parsed = schema.safeParse(value === "" ? undefined : value);
+    if (!parsed.success) {
+      log.error(`❌ ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+      continue;
+    }
+    answers[field] = value === "" ? undefined : value;
+    if (parsed.data !== undefined && String(parsed.data) !== value) {
+      log.info(`  → using "${parsed.data}"`);
+    }
+    break;
+  }
+
+  // Live lookups for the remaining prompts (hosted zones, certificates) use the chosen profile
+  if (field === "awsProfile" && answers.awsProfile) process.env.AWS_PROFILE = answers.awsProfile;
+}